@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+
+import { ChatSession } from '../chat-session'
+import { FakeGeminiClient, fakeError, fakeText } from '../fake-client'
+import type { StreamChunk } from '../types'
+
+/** 스트림 청크 모두 수집 */
+async function collect(stream: AsyncGenerator<StreamChunk>): Promise<StreamChunk[]> {
+  const chunks: StreamChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+/** 히스토리 역할:내용 목록 */
+function historyOf(session: ChatSession): string[] {
+  return session.getHistory().map((m) => `${m.role}:${m.content}`)
+}
+
+describe('ChatSession 히스토리', () => {
+  it('응답에 성공하면 질문과 응답을 함께 추가한다', async () => {
+    const client = new FakeGeminiClient({ defaultResponse: fakeText('안녕하세요') })
+    const session = new ChatSession({ client })
+
+    await session.send('안녕')
+    await collect(session.sendStream('또 안녕'))
+
+    expect(historyOf(session)).toEqual([
+      'user:안녕',
+      'model:안녕하세요',
+      'user:또 안녕',
+      'model:안녕하세요',
+    ])
+  })
+
+  it('send가 실패하면 히스토리를 바꾸지 않는다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [{ match: '실패', respond: fakeError(400) }, { respond: fakeText('ok') }],
+    })
+    const session = new ChatSession({ client })
+    await session.send('첫 질문')
+
+    await expect(session.send('실패할 질문')).rejects.toMatchObject({ category: 'request' })
+
+    expect(historyOf(session)).toEqual(['user:첫 질문', 'model:ok'])
+  })
+
+  it('sendStream이 error 청크로 끝나면 히스토리를 바꾸지 않는다', async () => {
+    const client = new FakeGeminiClient({ defaultResponse: fakeError(400) })
+    const session = new ChatSession({ client })
+
+    const chunks = await collect(session.sendStream('질문'))
+
+    expect(chunks.at(-1)?.type).toBe('error')
+    expect(session.getHistory()).toEqual([])
+  })
+
+  it('실패 후 다음 질문에 이전 질문이 섞이지 않는다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [{ match: '실패', respond: fakeError(400) }, { respond: fakeText('ok') }],
+    })
+    const session = new ChatSession({ client })
+
+    await session.send('실패할 질문').catch(() => undefined)
+    await session.send('다음 질문')
+
+    expect(historyOf(session)).toEqual(['user:다음 질문', 'model:ok'])
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+
+import { FakeGeminiClient, fakeSlow, fakeText } from '../fake-client'
+
+describe('컨텍스트 캐시', () => {
+  it('먼저 요청한 호출이 취소돼도 공유 생성은 끝까지 진행해 다른 호출이 캐시를 쓴다', async () => {
+    const document = '보험 약관 '.repeat(3000)
+    // 원격 캐시는 키마다 따로 생기므로 키 하나로 검사
+    const client = new FakeGeminiClient({
+      apiKeys: ['fake-key'],
+      rules: [
+        { method: 'createCachedContent', respond: fakeSlow(50) },
+        { respond: fakeText('답변') },
+      ],
+    })
+    const contextCache = client.createContextCache({ contents: document })
+
+    const controller = new AbortController()
+    const first = client.generateWithFallback('질문 1', {
+      contextCache,
+      signal: controller.signal,
+    })
+    const second = client.generateWithFallback('질문 2', { contextCache })
+    setTimeout(() => controller.abort(), 10)
+
+    await expect(first).rejects.toMatchObject({ name: 'GeminiAbortError' })
+    await expect(second).resolves.toBe('답변')
+
+    const calls = client.getCalls()
+    expect(calls.filter((call) => call.method === 'createCachedContent')).toHaveLength(1)
+    expect(calls.at(-1)?.config?.cachedContent).toBeDefined()
+  })
+})
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest'
+
+import { GeminiError } from '../errors'
+import {
+  FakeGeminiClient,
+  FakeGenAIBackend,
+  fakeError,
+  fakeFunctionCall,
+  fakeRateLimit,
+  fakeText,
+} from '../fake-client'
+import { GeminiClient } from '../gemini-client'
+import { silentLogger } from '../logger'
+import { GeminiRecorder, GeminiReplayer } from '../record-replay'
+import { createToolRegistry, defineTool } from '../tools'
+import type { StreamChunk } from '../types'
+
+/** 호출 순서 (키 순번:모델) */
+function callOrder(client: FakeGeminiClient): string[] {
+  return client.getCalls().map((call) => `${call.keyIndex}:${call.model}`)
+}
+
+describe('GeminiClient 폴백 (가짜 클라이언트)', () => {
+  it('429를 받은 키는 건너뛰고 다음 키로 응답한다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [
+        { keyIndex: 1, respond: fakeRateLimit() },
+        { respond: fakeText('답변') },
+      ],
+    })
+
+    await expect(client.generateWithFallback('질문')).resolves.toBe('답변')
+    expect(callOrder(client)).toEqual(['1:gemini-2.5-pro', '2:gemini-2.5-pro'])
+  })
+
+  it('1군 모델이 모두 실패하면 2군 모델로 넘어간다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [
+        { model: 'gemini-2.5-pro', respond: fakeError(503) },
+        { respond: fakeText('flash 답변') },
+      ],
+    })
+
+    await expect(client.generateWithFallback('질문')).resolves.toBe('flash 답변')
+    expect(callOrder(client)).toEqual([
+      '1:gemini-2.5-pro',
+      '2:gemini-2.5-pro',
+      '3:gemini-2.5-pro',
+      '1:gemini-2.5-flash',
+    ])
+  })
+
+  it('인증 실패한 키는 모든 모델에서 비활성화한다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [
+        { keyIndex: 1, respond: fakeError(403, 'API key not valid') },
+        { respond: fakeText('ok') },
+      ],
+    })
+
+    await client.generateWithFallback('첫 요청')
+    await client.generateWithFallback('둘째 요청', { tier: 'flash' })
+
+    expect(callOrder(client)).toEqual(['1:gemini-2.5-pro', '2:gemini-2.5-pro', '2:gemini-2.5-flash'])
+  })
+
+  it('모든 조합이 실패하면 시도 기록이 담긴 GeminiError를 던진다', async () => {
+    const client = new FakeGeminiClient({ rules: [{ respond: fakeError(503) }] })
+
+    const error = await client.generateWithFallback('질문').catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(GeminiError)
+    expect((error as GeminiError).attempts).toHaveLength(6)
+  })
+
+  it('요청 단위 오류는 폴백하지 않고 즉시 실패한다', async () => {
+    const client = new FakeGeminiClient({ rules: [{ respond: fakeError(400) }] })
+
+    await expect(client.generateWithFallback('질문')).rejects.toMatchObject({
+      category: 'request',
+    })
+    expect(client.getCalls()).toHaveLength(1)
+  })
+
+  it('스트림 도중 끊기면 폴백하지 않고 폴백 보고 없이 error 청크로 끝낸다', async () => {
+    const fallbacks: unknown[] = []
+    const client = new FakeGeminiClient({
+      rules: [{ respond: { chunks: ['부분 '], streamError: { status: 503 } } }],
+      hooks: { onFallback: (event) => fallbacks.push(event) },
+    })
+
+    const chunks: StreamChunk[] = []
+    for await (const chunk of client.streamWithFallback('질문')) {
+      chunks.push(chunk)
+    }
+
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['text', 'error'])
+    expect(client.getCalls()).toHaveLength(1)
+    expect(fallbacks).toEqual([])
+  })
+})
+
+describe('응답 캐시', () => {
+  it('폴백 티어가 낸 응답도 같은 요청에서 적중한다', async () => {
+    const client = new FakeGeminiClient({
+      cacheEnabled: true,
+      rules: [
+        { model: 'gemini-2.5-pro', respond: fakeError(503) },
+        { respond: fakeText('flash 답변') },
+      ],
+    })
+
+    await expect(client.generateWithFallback('질문')).resolves.toBe('flash 답변')
+    const callsAfterFirst = client.getCalls().length
+
+    await expect(client.generateWithFallback('질문')).resolves.toBe('flash 답변')
+    expect(client.getCalls()).toHaveLength(callsAfterFirst)
+    expect(client.getResponseCacheStats()).toMatchObject({ hits: 1, misses: 1 })
+  })
+})
+
+describe('도구 실행 루프', () => {
+  it('onToolCall 콜백이 던져도 루프를 계속한다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [{ respond: [fakeFunctionCall({ name: 'get_time' }), fakeText('12시입니다')] }],
+    })
+    const tools = createToolRegistry([
+      defineTool({
+        name: 'get_time',
+        description: '현재 시각을 조회합니다.',
+        handler: async () => ({ time: '12:00' }),
+      }),
+    ])
+
+    const result = await client.runWithTools('몇 시야?', tools, {
+      onToolCall: () => {
+        throw new Error('콜백 오류')
+      },
+    })
+
+    expect(result.text).toBe('12시입니다')
+    expect(result.toolCalls.map((call) => call.name)).toEqual(['get_time'])
+  })
+
+  it('등록되지 않은 도구를 지정하면 요청 없이 실패한다', async () => {
+    const client = new FakeGeminiClient({ defaultResponse: fakeText('답변') })
+    const tools = createToolRegistry([
+      defineTool({
+        name: 'get_time',
+        description: '현재 시각을 조회합니다.',
+        handler: async () => ({ time: '12:00' }),
+      }),
+    ])
+
+    await expect(
+      client.runWithTools('몇 시야?', tools, { tools: ['get_time', 'get_weather'] })
+    ).rejects.toThrow('등록되지 않은 도구입니다: get_weather')
+    expect(client.getCalls()).toHaveLength(0)
+  })
+})
+
+describe('녹화/재생', () => {
+  it('녹화한 교환을 API 키 없이 그대로 재생한다', async () => {
+    const backend = new FakeGenAIBackend({ defaultResponse: fakeText('녹화된 답변') })
+    const recorder = new GeminiRecorder({
+      clientFactory: () => backend.createClient(1),
+    })
+    const recording = new GeminiClient({
+      apiKeys: ['real-key'],
+      clientFactory: recorder.clientFactory,
+      logger: silentLogger,
+    })
+    await recording.generateWithFallback('질문')
+
+    const replayer = new GeminiReplayer(recorder.toFixture())
+    const offline = new GeminiClient({
+      apiKeys: ['test'],
+      clientFactory: replayer.clientFactory,
+      logger: silentLogger,
+    })
+
+    await expect(offline.generateWithFallback('질문')).resolves.toBe('녹화된 답변')
+    await expect(offline.generateWithFallback('다른 질문')).rejects.toMatchObject({
+      category: 'request',
+    })
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+
+import { FakeGeminiClient, fakeText } from '../fake-client'
+import {
+  InMemoryKeyHealthStore,
+  PrismaKeyHealthStore,
+  applyKeyHealthFailure,
+} from '../key-health-store'
+import type { KeyHealthFailure, KeyHealthPrismaLike, KeyHealthRow } from '../types'
+
+const failure: KeyHealthFailure = { disable: false, maxErrorCount: 3, recoveryMs: 60_000 }
+
+/** upsert의 increment를 그대로 흉내 내는 메모리 Prisma */
+function createFakePrisma(): KeyHealthPrismaLike & { rows: Map<string, KeyHealthRow> } {
+  const rows = new Map<string, KeyHealthRow>()
+  return {
+    rows,
+    aIKeyHealth: {
+      findMany: async ({ where }) =>
+        where.id.in.flatMap((id) => {
+          const row = rows.get(id)
+          return row ? [{ ...row }] : []
+        }),
+      upsert: async ({ where, create, update }) => {
+        const existing = rows.get(where.id)
+        if (!existing) {
+          rows.set(where.id, { ...create })
+        } else {
+          const next = { ...existing, ...update } as KeyHealthRow
+          if ('errorCount' in update && typeof update.errorCount === 'object') {
+            next.errorCount = existing.errorCount + update.errorCount.increment
+          }
+          rows.set(where.id, next)
+        }
+        return { ...rows.get(where.id)! }
+      },
+      update: async ({ where, data }) => {
+        const row = Object.assign(rows.get(where.id)!, data)
+        return { ...row }
+      },
+    },
+  }
+}
+
+describe('applyKeyHealthFailure', () => {
+  it('기준 횟수에 도달하면 쿨다운을 시작한다', () => {
+    const record = applyKeyHealthFailure(
+      { errorCount: 2, cooldownUntil: null, lastUsedAt: null },
+      failure,
+      1_000
+    )
+    expect(record).toMatchObject({ errorCount: 3, cooldownUntil: new Date(61_000) })
+  })
+
+  it('쿨다운이 끝난 기록은 이번 실패부터 다시 센다', () => {
+    const record = applyKeyHealthFailure(
+      { errorCount: 3, cooldownUntil: new Date(500), lastUsedAt: null },
+      failure,
+      1_000
+    )
+    expect(record).toMatchObject({ errorCount: 1, cooldownUntil: null })
+  })
+})
+
+describe('KeyHealthStore.recordFailure', () => {
+  it('메모리 저장소는 동시 실패를 모두 센다', async () => {
+    const store = new InMemoryKeyHealthStore()
+    await Promise.all([1, 2].map(() => store.recordFailure('k:m', failure)))
+
+    const record = (await store.getMany(['k:m'])).get('k:m')
+    expect(record?.errorCount).toBe(2)
+    expect(record?.cooldownUntil).toBeNull()
+  })
+
+  it('Prisma 저장소는 증가 연산으로 반영하고 기준 횟수에서 쿨다운을 설정한다', async () => {
+    const prisma = createFakePrisma()
+    const store = new PrismaKeyHealthStore({ prisma })
+
+    await Promise.all([1, 2, 3].map(() => store.recordFailure('k:m', failure)))
+
+    const row = prisma.rows.get('k:m')
+    expect(row?.errorCount).toBe(3)
+    expect(row?.cooldownUntil?.getTime()).toBeGreaterThan(Date.now())
+    expect(row?.lastUsedAt).toBeInstanceOf(Date)
+  })
+})
+
+describe('KeyHealthStore.recordUse', () => {
+  it('성공한 조합의 마지막 사용 시각을 다른 클라이언트가 읽는다', async () => {
+    const prisma = createFakePrisma()
+    const healthStore = new PrismaKeyHealthStore({ prisma })
+    const options = { apiKeys: ['fake-key'], healthStore }
+
+    const first = new FakeGeminiClient({ ...options, rules: [{ respond: fakeText('답변') }] })
+    await first.generateWithFallback('질문')
+    // 사용 시각 저장은 응답을 막지 않도록 백그라운드로 진행
+    await new Promise((resolve) => setImmediate(resolve))
+
+    const second = new FakeGeminiClient(options)
+    const snapshot = await second.getKeyStatusSnapshot()
+    const entry = snapshot.entries.find((e) => e.model === 'gemini-2.5-pro')
+    expect(entry?.lastUsed).toBeInstanceOf(Date)
+    expect(entry?.errorCount).toBe(0)
+  })
+
+  it('에러 횟수와 쿨다운은 덮지 않는다', async () => {
+    const store = new InMemoryKeyHealthStore()
+    await store.recordFailure('k:m', failure)
+    await store.recordUse('k:m', new Date(5_000))
+
+    const record = (await store.getMany(['k:m'])).get('k:m')
+    expect(record).toMatchObject({ errorCount: 1, lastUsedAt: new Date(5_000) })
+  })
+})
@@ -0,0 +1,215 @@
+import { afterEach, describe, expect, it } from 'vitest'
+
+import { PromptTemplateError } from '../errors'
+import { silentLogger } from '../logger'
+import { PromptService } from '../prompt-service'
+import { compileTemplate, renderTemplate, validateTemplate } from '../prompt-template'
+import type { PrismaClientLike, PromptRecord } from '../types'
+
+/** 렌더링 중 던진 PromptTemplateError의 문제 코드 */
+function issueCodes(render: () => unknown): string[] {
+  try {
+    render()
+  } catch (error) {
+    if (error instanceof PromptTemplateError) return error.issues.map((issue) => issue.code)
+    throw error
+  }
+  return []
+}
+
+describe('PromptTemplate 렌더링', () => {
+  it('변수, 중첩 필드, 조건문, 반복문을 채운다', () => {
+    const text = renderTemplate(
+      [
+        '{{topic}} ({{meta.category}})',
+        '{{#if contexts}}',
+        '{{#each contexts}}',
+        '[{{@number}}] {{title}}{{#if @last}} 끝{{/if}}',
+        '{{/each}}',
+        '{{else}}',
+        '자료 없음',
+        '{{/if}}',
+      ].join('\n'),
+      {
+        topic: '실손보험',
+        meta: { category: '보험' },
+        contexts: [{ title: '청구 서류' }, { title: '청구 기한' }],
+      }
+    )
+
+    expect(text).toBe('실손보험 (보험)\n[1] 청구 서류\n[2] 청구 기한 끝\n')
+  })
+
+  it('빈 목록은 else 블록을 렌더링한다', () => {
+    expect(renderTemplate('{{#each items}}{{this}}{{else}}없음{{/each}}', { items: [] })).toBe(
+      '없음'
+    )
+  })
+
+  it('선언한 기본값을 쓰고 타입이 다르면 오류', () => {
+    const template = compileTemplate('{{minWords}}자 이상', {
+      minWords: { type: 'number', default: 800 },
+    })
+
+    expect(template.render().text).toBe('800자 이상')
+    expect(issueCodes(() => template.render({ minWords: '많이' }))).toEqual(['type'])
+  })
+})
+
+describe('PromptTemplate 변수 검사', () => {
+  it('필수 변수가 없으면 PromptTemplateError (missing)', () => {
+    const template = compileTemplate('{{topic}}에 대해 {{tone}}로 작성')
+
+    expect(() => template.render({ topic: '보험' })).toThrow(PromptTemplateError)
+    expect(issueCodes(() => template.render({ topic: '보험' }))).toEqual(['missing'])
+  })
+
+  it('넘겼지만 쓰지 않은 변수는 unused로 알려준다', () => {
+    const result = compileTemplate('{{topic}}').render({ topic: '보험', extra: 'x' })
+
+    expect(result).toEqual({ text: '보험', unused: ['extra'] })
+  })
+
+  it('선언하지 않은 참조와 쓰지 않는 선언을 검증한다', () => {
+    const issues = validateTemplate('{{topic}} {{tone}}', {
+      topic: { type: 'string' },
+      category: { type: 'string' },
+    })
+
+    expect(issues.map(({ level, code, variable }) => ({ level, code, variable }))).toEqual([
+      { level: 'error', code: 'undeclared', variable: 'tone' },
+      { level: 'warning', code: 'unused', variable: 'category' },
+    ])
+  })
+
+  it('구문 오류는 예외 대신 문제 목록으로 반환한다', () => {
+    expect(validateTemplate('{{#if topic}}닫지 않음').map((issue) => issue.code)).toEqual([
+      'syntax',
+    ])
+  })
+})
+
+describe('PromptTemplate 이스케이프', () => {
+  it('변수 값 안의 {{는 다시 해석하지 않는다', () => {
+    expect(renderTemplate('입력: {{input}}', { input: '{{secret}}' })).toBe('입력: {{secret}}')
+  })
+
+  it('json 필터는 JSON 문자열로 이스케이프한다', () => {
+    expect(renderTemplate('{"title": {{title | json}}}', { title: '따옴표 "와 줄\n바꿈' })).toBe(
+      '{"title": "따옴표 \\"와 줄\\n바꿈"}'
+    )
+  })
+
+  it('\\{{는 여는 괄호 그대로, 주석은 출력하지 않는다', () => {
+    expect(renderTemplate('\\{{topic}} {{! 메모 }}{{topic}}', { topic: '보험' })).toBe(
+      '{{topic}} 보험'
+    )
+  })
+})
+
+/** 활성 프롬프트 조회/수정만 흉내 내는 Prisma */
+function createPromptPrisma(records: PromptRecord[]): PrismaClientLike {
+  const rows = new Map(records.map((record) => [record.key, { ...record }]))
+  return {
+    aIPrompt: {
+      findUnique: async ({ where }) => {
+        const row = rows.get(where.key)
+        if (!row || (where.isActive !== undefined && row.isActive !== where.isActive)) return null
+        return { ...row }
+      },
+      findMany: async () => [...rows.values()],
+      update: async ({ where, data }) => {
+        const row = rows.get(where.key)!
+        const { version, ...rest } = data
+        Object.assign(row, rest, {
+          version:
+            typeof version === 'object' && version !== null && 'increment' in version
+              ? row.version + (version.increment as number)
+              : row.version,
+        })
+        return { ...row }
+      },
+    },
+  }
+}
+
+function createPromptRecord(overrides: Partial<PromptRecord> = {}): PromptRecord {
+  return {
+    id: 'prompt-1',
+    key: 'blog',
+    name: '블로그',
+    description: null,
+    category: 'blog',
+    systemInstruction: '{{tone}} 에디터',
+    taskPrompt: '{{topic}} 글 v1',
+    outputFormat: '',
+    defaultSystemInstruction: '{{tone}} 에디터',
+    defaultTaskPrompt: '{{topic}} 기본 글',
+    defaultOutputFormat: '',
+    isActive: true,
+    version: 1,
+    updatedBy: null,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  }
+}
+
+describe('PromptService.render', () => {
+  const services: PromptService[] = []
+  const createService = (records: PromptRecord[]): PromptService => {
+    const service = new PromptService({ prisma: createPromptPrisma(records), logger: silentLogger })
+    services.push(service)
+    return service
+  }
+
+  afterEach(() => {
+    services.forEach((service) => service.clearCache())
+  })
+
+  it('활성 프롬프트의 모든 필드를 변수로 채운다', async () => {
+    const service = createService([createPromptRecord()])
+
+    await expect(service.render('blog', { topic: '실손보험', tone: '친근한' })).resolves.toMatchObject({
+      systemInstruction: '친근한 에디터',
+      taskPrompt: '실손보험 글 v1',
+    })
+  })
+
+  it('수정/복원하면 캐시 대신 최신 버전으로 렌더링한다', async () => {
+    const service = createService([createPromptRecord()])
+    const values = { topic: '실손보험', tone: '친근한' }
+    await service.render('blog', values)
+
+    const updated = await service.updatePrompt('blog', { taskPrompt: '{{topic}} 글 v2' })
+    expect(updated.version).toBe(2)
+    expect((await service.render('blog', values)).taskPrompt).toBe('실손보험 글 v2')
+
+    await service.resetPromptToDefault('blog')
+    expect((await service.render('blog', values)).taskPrompt).toBe('실손보험 기본 글')
+  })
+
+  it('검증 오류가 있는 버전은 저장하지 않는다', async () => {
+    const service = createService([
+      createPromptRecord({ variables: { topic: { type: 'string' }, tone: { type: 'string' } } }),
+    ])
+
+    await expect(
+      service.updatePrompt('blog', { taskPrompt: '{{topic}} {{unknown}}' })
+    ).rejects.toBeInstanceOf(PromptTemplateError)
+    expect((await service.render('blog', { topic: '보험', tone: '친근한' })).taskPrompt).toBe(
+      '보험 글 v1'
+    )
+  })
+
+  it('프롬프트가 없거나 비활성이면 빈 문자열로 렌더링한다 (호출 측 기본 프롬프트 사용)', async () => {
+    const service = createService([createPromptRecord({ isActive: false })])
+
+    await expect(service.render('blog', { topic: '보험' })).resolves.toMatchObject({
+      systemInstruction: '',
+      taskPrompt: '',
+      outputFormat: '',
+    })
+    await expect(service.render('missing')).resolves.toMatchObject({ taskPrompt: '' })
+  })
+})
@@ -0,0 +1,106 @@
+import { ApiError } from '@google/genai'
+import { describe, expect, it } from 'vitest'
+
+import { GeminiError, ProviderError } from '../errors'
+import { FakeGeminiClient, fakeRateLimit, fakeText } from '../fake-client'
+import { computeBackoffDelay, DEFAULT_RETRY_POLICY, getRetryAfterMs } from '../retry-policy'
+
+/** SDK가 던지는 형태의 429 메시지 (상태 줄 + JSON 본문) */
+function rateLimitMessage(retryDelay: unknown): string {
+  return `got status: 429 Too Many Requests. ${JSON.stringify({
+    error: {
+      code: 429,
+      status: 'RESOURCE_EXHAUSTED',
+      details: [
+        { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [] },
+        { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay },
+      ],
+    },
+  })}`
+}
+
+describe('getRetryAfterMs', () => {
+  it('오류 본문의 RetryInfo.retryDelay를 읽는다', () => {
+    const error = new ApiError({ status: 429, message: rateLimitMessage('37.5s') })
+    expect(getRetryAfterMs(error)).toBe(37_500)
+  })
+
+  it('{ seconds, nanos } 형태의 retryDelay도 읽는다', () => {
+    const error = {
+      details: [{ '@type': 'google.rpc.RetryInfo', retryDelay: { seconds: 2, nanos: 5e8 } }],
+    }
+    expect(getRetryAfterMs(error)).toBe(2_500)
+  })
+
+  it('HTTP Retry-After 헤더를 읽는다 (초, HTTP 날짜)', () => {
+    const seconds = new ProviderError('local 429', {
+      provider: 'local',
+      status: 429,
+      headers: new Headers({ 'Retry-After': '12' }),
+    })
+    expect(getRetryAfterMs(seconds)).toBe(12_000)
+
+    const retryAt = new Date(Date.now() + 60_000).toUTCString()
+    const date = { response: { headers: { 'retry-after': retryAt } } }
+    expect(getRetryAfterMs(date)).toBeGreaterThan(55_000)
+  })
+
+  it('구조화 정보가 없으면 메시지 문자열에서 찾는다', () => {
+    expect(getRetryAfterMs(new Error('local 429: busy (Retry-After: 3)'))).toBe(3_000)
+    expect(getRetryAfterMs(new Error('HTTP 503'))).toBeUndefined()
+  })
+})
+
+describe('computeBackoffDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: false }
+
+  it('Retry-After를 백오프 상한으로 자르지 않는다', () => {
+    expect(computeBackoffDelay(0, policy, 30_000)).toBe(30_000)
+  })
+
+  it('Retry-After가 백오프보다 짧으면 백오프를 쓴다', () => {
+    expect(computeBackoffDelay(3, policy, 100)).toBe(4_000)
+  })
+})
+
+describe('GeminiClient Retry-After 처리', () => {
+  it('백오프 상한을 넘는 Retry-After는 기다리지 않고 다음 키로 넘어가며 그 키를 쉬게 한다', async () => {
+    const client = new FakeGeminiClient({
+      rules: [
+        { keyIndex: 1, respond: fakeRateLimit(rateLimitMessage('60s')) },
+        { respond: fakeText('ok') },
+      ],
+      retryPolicy: { baseDelayMs: 0, maxDelayMs: 1_000, jitter: false },
+    })
+
+    const startedAt = Date.now()
+    await expect(client.generateWithFallback('질문')).resolves.toBe('ok')
+    expect(Date.now() - startedAt).toBeLessThan(1_000)
+
+    const snapshot = await client.getKeyStatusSnapshot()
+    const key1 = snapshot.entries.find(
+      (entry) => entry.keyIndex === 1 && entry.model === 'gemini-2.5-pro'
+    )
+    expect(key1?.cooldownUntil).toBeDefined()
+  })
+
+  it('모든 조합이 쿨다운 중이면 초기화하지 않고 요청 없이 실패한다', async () => {
+    const client = new FakeGeminiClient({
+      apiKeys: ['fake-key'],
+      rules: [{ respond: fakeRateLimit(rateLimitMessage('60s')) }],
+      retryPolicy: { baseDelayMs: 0, maxDelayMs: 1_000, jitter: false },
+    })
+
+    await expect(client.generateWithFallback('질문')).rejects.toBeInstanceOf(GeminiError)
+    const calls = client.getCalls().length
+
+    const error = await client.generateWithFallback('질문').catch((e: unknown) => e)
+    expect(error).toBeInstanceOf(GeminiError)
+    expect((error as GeminiError).category).toBe('retryable')
+    expect((error as GeminiError).message).toContain('사용 가능한 API 키와 모델 조합이 없습니다')
+    expect(client.getCalls()).toHaveLength(calls)
+
+    const snapshot = await client.getKeyStatusSnapshot()
+    expect(snapshot.entries.every((entry) => entry.cooldownUntil)).toBe(true)
+  })
+})
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+
+import { cosineSimilarity, parsePgVector, toPgHalfvec } from '../vector'
+
+describe('cosineSimilarity', () => {
+  it('영벡터여도 차원이 다르면 오류를 던진다', () => {
+    expect(() => cosineSimilarity([0, 0], [1, 0, 0])).toThrow('벡터 차원이 다릅니다')
+  })
+
+  it('영벡터와의 유사도는 0이다', () => {
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0)
+  })
+})
+
+describe('toPgHalfvec', () => {
+  it('float16 범위를 넘는 값은 ±65504로 자른다', () => {
+    expect(parsePgVector(toPgHalfvec([70000, -1e9, 65519]))).toEqual([65504, -65504, 65504])
+  })
+
+  it('NaN은 오류를 던진다', () => {
+    expect(() => toPgHalfvec([Number.NaN])).toThrow()
+  })
+})
@@ -0,0 +1,147 @@
+// packages/ai-core/src/abort.ts
+// 취소 신호 및 제한 시간 처리 (전체 / 시도별)
+
+import { GeminiAbortError } from './errors'
+import type { GeminiAttempt } from './types'
+
+/** 제한 시간이 걸린 취소 신호 */
+export interface TimedSignal {
+  signal: AbortSignal
+  /** 타이머와 상위 신호 구독 해제 */
+  dispose: () => void
+}
+
+/**
+ * 상위 신호와 제한 시간을 합친 신호 생성
+ * 상위 신호가 중단되면 같은 사유로, 제한 시간이 지나면 timeoutReason으로 중단된다.
+ */
+export function createTimedSignal(
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+  timeoutReason: () => unknown
+): TimedSignal {
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(parent?.reason)
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason)
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true })
+  }
+
+  const timer =
+    timeoutMs !== undefined && timeoutMs > 0
+      ? setTimeout(() => controller.abort(timeoutReason()), timeoutMs)
+      : undefined
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer)
+      parent?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+/** 전체 제한 시간 신호 (초과 시 GeminiAbortError 사유로 중단) */
+export function createDeadline(
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): TimedSignal {
+  return createTimedSignal(
+    signal,
+    timeoutMs,
+    () =>
+      new GeminiAbortError(`전체 제한 시간(${timeoutMs}ms)을 초과했습니다.`, {
+        reason: 'timeout',
+      })
+  )
+}
+
+/**
+ * 신호가 중단되면 즉시 거부
+ * 작업이 신호를 무시하더라도 결과를 기다리지 않는다.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) {
+    promise.catch(() => undefined)
+    return Promise.reject(signal.reason)
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * 비동기 이터러블을 신호와 함께 순회
+ * 중단되면 다음 값을 기다리지 않고 즉시 신호 사유로 거부한다.
+ */
+export async function* iterateWithSignal<T>(
+  iterable: AsyncIterable<T>,
+  signal: AbortSignal
+): AsyncGenerator<T> {
+  const iterator = iterable[Symbol.asyncIterator]()
+  let finished = false
+
+  try {
+    for (;;) {
+      const result = await raceWithSignal(iterator.next(), signal)
+      if (result.done) {
+        finished = true
+        return
+      }
+      yield result.value
+    }
+  } finally {
+    // 중단/조기 종료 시 원본 스트림 정리 요청 (완료를 기다리지 않음)
+    if (!finished) {
+      iterator.return?.()?.catch(() => undefined)
+    }
+  }
+}
+
+/** 중단된 실행 신호를 시도 기록이 담긴 GeminiAbortError로 변환 */
+export function toAbortError(
+  signal: AbortSignal,
+  attempts: GeminiAttempt[]
+): GeminiAbortError {
+  const reason: unknown = signal.reason
+
+  if (reason instanceof GeminiAbortError) {
+    return new GeminiAbortError(reason.message, {
+      reason: reason.reason,
+      attempts,
+    })
+  }
+
+  return new GeminiAbortError('요청이 취소되었습니다.', {
+    reason: 'aborted',
+    attempts,
+    cause: reason,
+  })
+}
+
+/** 시도 1회 제한 시간 신호 (초과 시 재시도 가능 오류 사유로 중단) */
+export function createAttemptSignal(
+  parent: AbortSignal,
+  attemptTimeoutMs: number | undefined
+): TimedSignal {
+  return createTimedSignal(
+    parent,
+    attemptTimeoutMs,
+    () => new Error(`시도 제한 시간(${attemptTimeoutMs}ms)을 초과했습니다.`)
+  )
+}
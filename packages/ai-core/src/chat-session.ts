@@ -0,0 +1,217 @@
+// packages/ai-core/src/chat-session.ts
+// 멀티턴 채팅 세션 - 히스토리 관리 + 시스템 인스트럭션 + 토큰 예산 트리밍
+
+import type { Content } from '@google/genai'
+
+import type { GeminiClient } from './gemini-client'
+import { mergeGenerationSettings } from './generation-config'
+import { PROMPT_KEYS, type PromptService } from './prompt-service'
+import { estimateTokens } from './tokens'
+import type {
+  ChatMessage,
+  ChatRole,
+  GenerateOptions,
+  GenerationSettings,
+  StreamChunk,
+} from './types'
+
+// 히스토리 기본 토큰 예산
+const DEFAULT_MAX_HISTORY_TOKENS = 8000
+
+/** 채팅 세션 옵션 */
+export interface ChatSessionOptions {
+  /** Gemini 클라이언트 */
+  client: GeminiClient
+  /** 프롬프트 서비스 (시스템 인스트럭션 로드용, 선택) */
+  promptService?: PromptService
+  /** 시스템 인스트럭션 및 생성 설정 프롬프트 키 (기본: PROMPT_KEYS.CHAT_SYSTEM) */
+  promptKey?: string
+  /** 시스템 인스트럭션 직접 지정 (지정 시 프롬프트 서비스 무시) */
+  systemInstruction?: string
+  /** 기존 대화 히스토리 */
+  history?: ChatMessage[]
+  /** 히스토리 토큰 예산 (기본: 8000) */
+  maxHistoryTokens?: number
+}
+
+/** 채팅 응답 옵션 */
+export type ChatSendOptions = Omit<GenerateOptions, 'systemInstruction'>
+
+/**
+ * 채팅 세션 클래스
+ * 히스토리를 Gemini contents로 변환하여 GeminiClient의 폴백 시스템으로 응답 생성
+ */
+export class ChatSession {
+  private client: GeminiClient
+  private promptService?: PromptService
+  private promptKey: string
+  private systemInstruction?: string
+  private history: ChatMessage[]
+  private maxHistoryTokens: number
+
+  constructor(options: ChatSessionOptions) {
+    this.client = options.client
+    this.promptService = options.promptService
+    this.promptKey = options.promptKey ?? PROMPT_KEYS.CHAT_SYSTEM
+    this.systemInstruction = options.systemInstruction
+    this.history = [...(options.history ?? [])]
+    this.maxHistoryTokens =
+      options.maxHistoryTokens ?? DEFAULT_MAX_HISTORY_TOKENS
+  }
+
+  /**
+   * 메시지 전송 후 전체 응답 반환
+   * 질문과 응답은 생성에 성공한 뒤 함께 히스토리에 추가된다 (실패 시 히스토리 변경 없음).
+   */
+  async send(
+    content: string,
+    options: ChatSendOptions = {}
+  ): Promise<ChatMessage> {
+    const question = createMessage('user', content)
+    const contents = this.toContents([question])
+
+    const systemInstruction = await this.resolveSystemInstruction()
+    const text = await this.client.generateWithFallback(contents, {
+      ...options,
+      systemInstruction,
+      generation: await this.resolveGeneration(options.generation),
+    })
+
+    const answer = createMessage('model', text)
+    this.history.push(question, answer)
+    return answer
+  }
+
+  /**
+   * 메시지 전송 후 응답을 스트리밍
+   * 'done' 청크를 받으면 질문과 응답이 함께 히스토리에 추가된다
+   * ('error' 청크, 예외, 중간 종료 시 히스토리 변경 없음).
+   */
+  async *sendStream(
+    content: string,
+    options: ChatSendOptions = {}
+  ): AsyncGenerator<StreamChunk> {
+    const question = createMessage('user', content)
+    const contents = this.toContents([question])
+
+    const systemInstruction = await this.resolveSystemInstruction()
+    const stream = this.client.streamWithFallback(contents, {
+      ...options,
+      systemInstruction,
+      generation: await this.resolveGeneration(options.generation),
+    })
+
+    for await (const chunk of stream) {
+      if (chunk.type === 'done') {
+        this.history.push(question, createMessage('model', chunk.content))
+      }
+      yield chunk
+    }
+  }
+
+  /** 히스토리에 메시지 추가 */
+  addMessage(role: ChatRole, content: string): ChatMessage {
+    const message = createMessage(role, content)
+    this.history.push(message)
+    return message
+  }
+
+  /** 히스토리 조회 (복사본) */
+  getHistory(): ChatMessage[] {
+    return [...this.history]
+  }
+
+  /** 히스토리 초기화 */
+  clear(): void {
+    this.history = []
+  }
+
+  /**
+   * 히스토리를 Gemini contents로 변환
+   * system 메시지는 시스템 인스트럭션으로 합쳐지므로 제외하고,
+   * 토큰 예산을 넘는 오래된 메시지는 잘라낸다.
+   * @param pending 아직 히스토리에 넣지 않은 메시지 (전송 중인 질문)
+   */
+  toContents(pending: ChatMessage[] = []): Content[] {
+    const messages = this.trimHistory(
+      [...this.history, ...pending].filter((m) => m.role !== 'system')
+    )
+
+    return messages.map((m) => ({
+      role: m.role,
+      parts: [{ text: m.content }],
+    }))
+  }
+
+  /** 토큰 예산에 맞게 최근 메시지부터 남기기 */
+  private trimHistory(messages: ChatMessage[]): ChatMessage[] {
+    const kept: ChatMessage[] = []
+    let total = 0
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const message = messages[i]
+      if (!message) continue
+
+      const tokens = estimateTokens(message.content)
+      // 마지막 메시지(현재 질문)는 예산과 무관하게 항상 포함
+      if (kept.length > 0 && total + tokens > this.maxHistoryTokens) break
+
+      kept.unshift(message)
+      total += tokens
+    }
+
+    // Gemini는 contents가 user 턴으로 시작해야 함
+    while (kept.length > 1 && kept[0]?.role !== 'user') {
+      kept.shift()
+    }
+
+    return kept
+  }
+
+  /** 시스템 인스트럭션 결정 (직접 지정 → 프롬프트 서비스) + system 메시지 병합 */
+  private async resolveSystemInstruction(): Promise<string | undefined> {
+    let base = this.systemInstruction
+    if (base === undefined && this.promptService) {
+      base = await this.promptService.getSystemInstruction(this.promptKey)
+    }
+
+    const parts = [
+      base,
+      ...this.history.filter((m) => m.role === 'system').map((m) => m.content),
+    ].filter((part): part is string => Boolean(part))
+
+    return parts.length > 0 ? parts.join('\n\n') : undefined
+  }
+
+  /** 생성 설정 결정 (프롬프트 서비스의 프롬프트별 설정 ← 호출별 설정) */
+  private async resolveGeneration(
+    generation: GenerationSettings | undefined
+  ): Promise<GenerationSettings | undefined> {
+    if (!this.promptService) return generation
+
+    const promptGeneration = await this.promptService.getGenerationSettings(this.promptKey)
+    return mergeGenerationSettings(promptGeneration, generation)
+  }
+}
+
+/** 메시지 생성 */
+function createMessage(role: ChatRole, content: string): ChatMessage {
+  return {
+    id: createMessageId(),
+    role,
+    content,
+    createdAt: new Date(),
+  }
+}
+
+/** 메시지 ID 생성 */
+function createMessageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * 채팅 세션 생성 함수
+ */
+export function createChatSession(options: ChatSessionOptions): ChatSession {
+  return new ChatSession(options)
+}
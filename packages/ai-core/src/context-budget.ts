@@ -0,0 +1,282 @@
+// packages/ai-core/src/context-budget.ts
+// 컨텍스트 예산 - 시스템 인스트럭션, 대화 기록, RAG 자료를 우선순위대로 모델 입력 한도에 맞춰 구성
+
+import type { Content } from '@google/genai'
+
+import { ContextBudgetError } from './errors'
+import { estimateTokens } from './tokens'
+import type { GeminiModel } from './types'
+
+/**
+ * 모델별 입력 토큰 한도
+ * 미등록 모델(로컬 모델 등)은 maxTokens를 직접 지정한다.
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gemini-2.5-pro': 1_048_576,
+  'gemini-2.5-flash': 1_048_576,
+  'gemini-2.5-flash-lite': 1_048_576,
+  'gemini-2.0-flash': 1_048_576,
+}
+
+/** 잘린 텍스트 표시 */
+const TRUNCATION_MARKER = '…'
+
+/** 잘라서 넣을 때 최소 토큰 기본값 (이보다 적게 남으면 제외) */
+const DEFAULT_MIN_TOKENS = 50
+
+/** 예산에 넣을 항목 */
+export interface BudgetItem {
+  id: string
+  text: string
+  /** 클수록 먼저 포함 (기본: 0, 같으면 입력 순서) */
+  priority?: number
+  /** 항상 포함 (자르지 않으며, 필수 항목만으로 예산을 넘으면 ContextBudgetError) */
+  required?: boolean
+  /** 예산이 모자랄 때 자르는 방향 ('end': 뒤를 자름(기본), 'start': 앞을 자름, false: 통째로 제외) */
+  truncate?: 'end' | 'start' | false
+  /** 잘라서 넣을 최소 토큰 (기본: 50) */
+  minTokens?: number
+  /** 같은 sequence의 항목은 하나가 빠지면 이후 항목도 제외 (대화 기록처럼 연속성이 필요한 경우) */
+  sequence?: string
+}
+
+/** 포함된 항목 (입력 순서) */
+export interface PackedItem {
+  id: string
+  text: string
+  tokens: number
+  truncated: boolean
+}
+
+/** 잘리거나 빠진 항목 */
+export interface BudgetCut {
+  id: string
+  action: 'truncated' | 'dropped'
+  originalTokens: number
+  keptTokens: number
+}
+
+/** 예산 구성 결과 */
+export interface BudgetPackResult {
+  items: PackedItem[]
+  cut: BudgetCut[]
+  usedTokens: number
+  remainingTokens: number
+  /** 적용된 예산 (한도 - 예약) */
+  budgetTokens: number
+}
+
+/** RAG 참고 자료 */
+export interface BudgetContext {
+  content: string
+  title?: string
+  /** 관련도 (클수록 먼저 포함, 미지정 시 입력 순서) */
+  score?: number
+}
+
+/** 프롬프트 구성 입력 */
+export interface BudgetPromptInput<T extends BudgetContext = BudgetContext> {
+  /** 사용자 요청 (필수 포함) */
+  prompt: string
+  /** 시스템 인스트럭션 (필수 포함) */
+  systemInstruction?: string
+  /** 대화 기록 (오래된 턴부터 제외, 턴은 자르지 않음) */
+  history?: Content[]
+  /** 참고 자료 (관련도 낮은 자료부터 잘리거나 제외) */
+  contexts?: T[]
+  /** 우선순위 (기본: 대화 기록 2, 참고 자료 1 - 최근 대화를 자료보다 먼저 보존) */
+  priorities?: { history?: number; contexts?: number }
+}
+
+/** 프롬프트 구성 결과 */
+export interface BudgetPromptResult<T extends BudgetContext = BudgetContext> {
+  prompt: string
+  systemInstruction?: string
+  /** 남은 대화 기록 (시간순) */
+  history: Content[]
+  /** 남은 참고 자료 (관련도순, 잘린 자료는 content가 줄어듦) */
+  contexts: T[]
+  report: Omit<BudgetPackResult, 'items'>
+}
+
+/** 컨텍스트 예산 옵션 */
+export interface ContextBudgetOptions {
+  /** 모델 (maxTokens 미지정 시 MODEL_CONTEXT_WINDOWS 한도 사용) */
+  model?: GeminiModel
+  /** 입력 토큰 한도 (실제 비용/지연을 고려해 모델 한도보다 작게 잡는 경우가 많음) */
+  maxTokens?: number
+  /** 한도에서 미리 빼 둘 토큰 (자료 제목/구분자, 출력 형식 안내 등) */
+  reserveTokens?: number
+  /** 토큰 계산 함수 (기본: 로컬 추정 estimateTokens) */
+  countTokens?: (text: string) => number
+}
+
+/**
+ * 컨텍스트 예산
+ * 필수 항목을 먼저 넣고, 나머지는 우선순위가 높은 순서로 넣되 남은 예산보다 크면 자르거나 제외한다.
+ * 계산은 동기 로컬 추정이므로, 한도에 가깝게 쓰려면 GeminiClient.countTokens로 최종 입력을 확인한다.
+ */
+export class ContextBudget {
+  readonly budgetTokens: number
+  private countTokens: (text: string) => number
+
+  constructor(options: ContextBudgetOptions) {
+    const maxTokens =
+      options.maxTokens ?? (options.model ? MODEL_CONTEXT_WINDOWS[options.model] : undefined)
+    if (maxTokens === undefined) {
+      throw new Error(`모델 입력 한도를 알 수 없습니다 (${options.model ?? '모델 미지정'}). maxTokens를 지정하세요.`)
+    }
+
+    this.budgetTokens = Math.max(0, maxTokens - (options.reserveTokens ?? 0))
+    this.countTokens = options.countTokens ?? estimateTokens
+  }
+
+  /** 항목을 예산에 맞춰 구성 */
+  pack(items: BudgetItem[]): BudgetPackResult {
+    const tokens = items.map((item) => this.countTokens(item.text))
+    const required = items.reduce(
+      (total, item, i) => total + (item.required ? tokens[i]! : 0),
+      0
+    )
+    if (required > this.budgetTokens) {
+      throw new ContextBudgetError(
+        `필수 항목만으로 예산을 넘습니다 (${required} > ${this.budgetTokens} 토큰).`,
+        { requiredTokens: required, budgetTokens: this.budgetTokens }
+      )
+    }
+
+    let remaining = this.budgetTokens - required
+    const kept = new Map<number, PackedItem>()
+    const cut: BudgetCut[] = []
+    const brokenSequences = new Set<string>()
+
+    items.forEach((item, i) => {
+      if (item.required) {
+        kept.set(i, { id: item.id, text: item.text, tokens: tokens[i]!, truncated: false })
+      }
+    })
+
+    const optional = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => !item.required)
+      .sort((a, b) => (b.item.priority ?? 0) - (a.item.priority ?? 0) || a.index - b.index)
+
+    for (const { item, index } of optional) {
+      const originalTokens = tokens[index]!
+      const { sequence } = item
+
+      if (sequence === undefined || !brokenSequences.has(sequence)) {
+        if (originalTokens <= remaining) {
+          kept.set(index, { id: item.id, text: item.text, tokens: originalTokens, truncated: false })
+          remaining -= originalTokens
+          continue
+        }
+
+        const minTokens = item.minTokens ?? DEFAULT_MIN_TOKENS
+        const text =
+          item.truncate !== false && remaining >= minTokens
+            ? this.truncateToTokens(item.text, remaining, item.truncate ?? 'end')
+            : ''
+        if (text) {
+          const keptTokens = this.countTokens(text)
+          kept.set(index, { id: item.id, text, tokens: keptTokens, truncated: true })
+          cut.push({ id: item.id, action: 'truncated', originalTokens, keptTokens })
+          remaining -= keptTokens
+          if (sequence !== undefined) brokenSequences.add(sequence)
+          continue
+        }
+      }
+
+      cut.push({ id: item.id, action: 'dropped', originalTokens, keptTokens: 0 })
+      if (sequence !== undefined) brokenSequences.add(sequence)
+    }
+
+    return {
+      items: [...kept.entries()].sort(([a], [b]) => a - b).map(([, packed]) => packed),
+      cut,
+      usedTokens: this.budgetTokens - remaining,
+      remainingTokens: remaining,
+      budgetTokens: this.budgetTokens,
+    }
+  }
+
+  /**
+   * 시스템 인스트럭션 + 대화 기록 + 참고 자료 + 요청 구성
+   * 대화 기록은 최근 턴부터 넣고 한 턴이라도 빠지면 그 이전 턴은 모두 제외한다.
+   */
+  packPrompt<T extends BudgetContext>(input: BudgetPromptInput<T>): BudgetPromptResult<T> {
+    const { prompt, systemInstruction, history = [], contexts = [] } = input
+    const historyPriority = input.priorities?.history ?? 2
+    const contextPriority = input.priorities?.contexts ?? 1
+
+    const rankedContexts = contexts
+      .map((context, index) => ({ context, index }))
+      .sort(
+        (a, b) =>
+          (b.context.score ?? 0) - (a.context.score ?? 0) || a.index - b.index
+      )
+
+    const items: BudgetItem[] = [
+      ...(systemInstruction
+        ? [{ id: 'systemInstruction', text: systemInstruction, required: true }]
+        : []),
+      { id: 'prompt', text: prompt, required: true },
+      // 최근 턴이 먼저 오도록 역순 (같은 우선순위는 입력 순서대로 포함)
+      ...history
+        .map((content, index) => ({ content, index }))
+        .reverse()
+        .map(({ content, index }) => ({
+          id: `history:${index}`,
+          text: (content.parts ?? []).map((part) => part.text ?? '').join(''),
+          priority: historyPriority,
+          truncate: false as const,
+          sequence: 'history',
+        })),
+      ...rankedContexts.map(({ index }) => ({
+        id: `context:${index}`,
+        text: contexts[index]!.content,
+        priority: contextPriority,
+      })),
+    ]
+
+    const { items: packed, ...report } = this.pack(items)
+    const keptText = new Map(packed.map((item) => [item.id, item]))
+
+    return {
+      prompt,
+      systemInstruction,
+      history: history.filter((_, index) => keptText.has(`history:${index}`)),
+      contexts: rankedContexts.flatMap(({ context, index }) => {
+        const item = keptText.get(`context:${index}`)
+        if (!item) return []
+        return [item.truncated ? { ...context, content: item.text } : context]
+      }),
+      report,
+    }
+  }
+
+  /** 토큰 한도에 맞게 자르기 (이진 탐색, 잘린 쪽에 표시 추가) */
+  private truncateToTokens(text: string, maxTokens: number, from: 'end' | 'start'): string {
+    const slice = (length: number): string =>
+      from === 'end'
+        ? text.slice(0, length).trimEnd() + TRUNCATION_MARKER
+        : TRUNCATION_MARKER + text.slice(text.length - length).trimStart()
+
+    let low = 0
+    let high = text.length
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2)
+      if (this.countTokens(slice(mid)) <= maxTokens) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return low > 0 ? slice(low) : ''
+  }
+}
+
+/** 컨텍스트 예산 생성 */
+export function createContextBudget(options: ContextBudgetOptions): ContextBudget {
+  return new ContextBudget(options)
+}
@@ -0,0 +1,268 @@
+// packages/ai-core/src/context-cache.ts
+// 명시적 컨텍스트 캐시 - 긴 시스템 인스트럭션/공통 문서를 키(프로젝트) × 모델별 Gemini 캐시로 재사용
+
+import { createHash } from 'node:crypto'
+
+import type { GoogleGenAI } from '@google/genai'
+
+import { raceWithSignal } from './abort'
+import { toErrorMessage } from './logger'
+import { classifyGeminiError } from './retry-policy'
+import { stableStringify } from './response-cache'
+import { estimatePromptTokens } from './tokens'
+import type { ContextCache, ContextCacheOptions, GeminiModel, Logger } from './types'
+
+/** 컨텍스트 캐시 기본 TTL (1시간) */
+export const DEFAULT_CONTEXT_CACHE_TTL = 60 * 60 * 1000
+
+/**
+ * 모델별 명시적 캐시 최소 입력 토큰
+ * 예상 토큰이 이보다 적으면 생성 요청 없이 캐시 없이 보낸다. 미등록 모델은 생성을 시도해 보고 판단한다.
+ */
+export const CONTEXT_CACHE_MIN_TOKENS: Record<string, number> = {
+  'gemini-2.5-pro': 4096,
+  'gemini-2.5-flash': 1024,
+  'gemini-2.5-flash-lite': 1024,
+}
+
+/** 남은 TTL이 이보다 짧으면 사용 시 연장 (최대 5분, TTL의 1/4) */
+const MAX_REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+/** 캐시를 쓸 수 없는 키+모델의 생성 재시도 대기 (30분) */
+const UNSUPPORTED_RETRY_MS = 30 * 60 * 1000
+
+/** 원격 캐시 생성 제한 시간 (1분) - 생성은 여러 호출이 공유하므로 호출별 신호 대신 사용 */
+const CREATE_TIMEOUT_MS = 60 * 1000
+
+/** 키+모델별 원격 캐시 */
+interface RemoteContextCache {
+  cacheId: string
+  name: string
+  model: GeminiModel
+  expiresAt: number
+  client: GoogleGenAI
+}
+
+/** 컨텍스트 캐시 핸들 생성 (원격 캐시는 처음 사용할 때 생성) */
+export function toContextCache(options: ContextCacheOptions): ContextCache {
+  const { systemInstruction, displayName } = options
+  const contents =
+    options.contents === undefined
+      ? []
+      : typeof options.contents === 'string'
+        ? [{ role: 'user', parts: [{ text: options.contents }] }]
+        : [...options.contents]
+
+  if (!systemInstruction && contents.length === 0) {
+    throw new Error('컨텍스트 캐시에 넣을 시스템 인스트럭션이나 contents가 없습니다.')
+  }
+
+  return {
+    id: createHash('sha256')
+      .update(stableStringify({ systemInstruction, contents }))
+      .digest('hex')
+      .slice(0, 16),
+    systemInstruction,
+    contents,
+    ttlMs: options.ttlMs ?? DEFAULT_CONTEXT_CACHE_TTL,
+    displayName,
+    estimatedTokens: estimatePromptTokens(contents, systemInstruction),
+  }
+}
+
+/**
+ * 컨텍스트 캐시 관리자
+ * 캐시는 API 키(프로젝트)와 모델마다 따로 존재하므로 키 지문 × 모델 단위로 생성/연장/삭제한다.
+ * 생성에 실패하거나 지원하지 않는 키+모델은 null을 돌려 호출 측이 캐시 없이 요청하게 한다.
+ */
+export class ContextCacheManager {
+  private remote = new Map<string, RemoteContextCache>()
+  private pending = new Map<string, Promise<RemoteContextCache | null>>()
+  private unsupportedUntil = new Map<string, number>()
+  private logger: Logger
+
+  constructor(logger: Logger) {
+    this.logger = logger
+  }
+
+  /**
+   * 이 키+모델에서 사용할 원격 캐시 이름
+   * 없으면 생성하고(동시 요청은 한 번만 생성), 만료가 임박하면 TTL을 연장한다.
+   * 공유 생성은 먼저 요청한 호출이 취소돼도 계속되며, 각 호출은 자기 신호로만 대기를 중단한다.
+   * @returns 캐시를 쓸 수 없으면 null
+   */
+  async resolve(
+    cache: ContextCache,
+    model: GeminiModel,
+    client: GoogleGenAI,
+    keyFingerprint: string,
+    signal: AbortSignal
+  ): Promise<string | null> {
+    const minTokens = CONTEXT_CACHE_MIN_TOKENS[model]
+    if (minTokens !== undefined && cache.estimatedTokens < minTokens) {
+      return null
+    }
+
+    const slot = `${cache.id}:${keyFingerprint}:${model}`
+    if ((this.unsupportedUntil.get(slot) ?? 0) > Date.now()) {
+      return null
+    }
+
+    const entry = this.remote.get(slot)
+    if (entry) {
+      const remaining = entry.expiresAt - Date.now()
+      if (remaining > Math.min(MAX_REFRESH_MARGIN_MS, cache.ttlMs / 4)) {
+        return entry.name
+      }
+      if (remaining > 0 && (await this.extend(entry, cache.ttlMs, signal))) {
+        return entry.name
+      }
+      this.remote.delete(slot)
+    }
+
+    let pending = this.pending.get(slot)
+    if (!pending) {
+      pending = this.create(slot, cache, model, client).finally(() =>
+        this.pending.delete(slot)
+      )
+      this.pending.set(slot, pending)
+    }
+    return (await raceWithSignal(pending, signal))?.name ?? null
+  }
+
+  /**
+   * 캐시를 사용한 요청이 실패했을 때 원격 캐시 무효화
+   * 만료/삭제(404)는 다음 사용 시 다시 만들고, 그 외 요청 오류는 일정 시간 캐시 없이 보낸다.
+   */
+  invalidate(
+    cache: ContextCache,
+    model: GeminiModel,
+    keyFingerprint: string,
+    status?: number
+  ): void {
+    const slot = `${cache.id}:${keyFingerprint}:${model}`
+    this.remote.delete(slot)
+    if (status !== 404) {
+      this.unsupportedUntil.set(slot, Date.now() + UNSUPPORTED_RETRY_MS)
+    }
+  }
+
+  /** 이 캐시의 모든 원격 캐시 TTL 연장 (연장 실패한 항목은 다음 사용 시 다시 생성) */
+  async refresh(cache: ContextCache, ttlMs = cache.ttlMs): Promise<number> {
+    let refreshed = 0
+    for (const [slot, entry] of this.remote) {
+      if (entry.cacheId !== cache.id) continue
+      if (await this.extend(entry, ttlMs)) {
+        refreshed++
+      } else {
+        this.remote.delete(slot)
+      }
+    }
+    return refreshed
+  }
+
+  /** 이 캐시의 모든 원격 캐시 삭제 (삭제 실패는 로그만 남기고 TTL 만료에 맡김) */
+  async delete(cache: ContextCache): Promise<void> {
+    const slots = [...this.remote].filter(([, entry]) => entry.cacheId === cache.id)
+
+    await Promise.all(
+      slots.map(async ([slot, entry]) => {
+        this.remote.delete(slot)
+        try {
+          await entry.client.caches.delete({ name: entry.name })
+        } catch (error) {
+          this.logger.warn('Gemini 컨텍스트 캐시 삭제 실패', {
+            name: entry.name,
+            error: toErrorMessage(error),
+          })
+        }
+      })
+    )
+  }
+
+  /** 원격 캐시 생성 (실패 시 null, 요청 오류면 일정 시간 재시도하지 않음) */
+  private async create(
+    slot: string,
+    cache: ContextCache,
+    model: GeminiModel,
+    client: GoogleGenAI
+  ): Promise<RemoteContextCache | null> {
+    try {
+      const created = await client.caches.create({
+        model,
+        config: {
+          systemInstruction: cache.systemInstruction,
+          contents: cache.contents.length > 0 ? cache.contents : undefined,
+          displayName: cache.displayName,
+          ttl: toTtl(cache.ttlMs),
+          abortSignal: AbortSignal.timeout(CREATE_TIMEOUT_MS),
+        },
+      })
+      if (!created.name) {
+        throw new Error('생성된 캐시 이름이 없습니다.')
+      }
+
+      const entry: RemoteContextCache = {
+        cacheId: cache.id,
+        name: created.name,
+        model,
+        expiresAt: toExpiresAt(created.expireTime, cache.ttlMs),
+        client,
+      }
+      this.remote.set(slot, entry)
+      this.logger.info('Gemini 컨텍스트 캐시 생성', {
+        cacheId: cache.id,
+        model,
+        name: created.name,
+        tokens: created.usageMetadata?.totalTokenCount,
+      })
+      return entry
+    } catch (error) {
+      // 모델 미지원, 최소 토큰 미달 등은 같은 키+모델에서 반복해도 실패
+      const { category, status } = classifyGeminiError(error)
+      if (category !== 'retryable') {
+        this.unsupportedUntil.set(slot, Date.now() + UNSUPPORTED_RETRY_MS)
+      }
+      this.logger.warn('Gemini 컨텍스트 캐시 생성 실패 - 캐시 없이 요청', {
+        cacheId: cache.id,
+        model,
+        status,
+        error: toErrorMessage(error),
+      })
+      return null
+    }
+  }
+
+  /** 원격 캐시 TTL 연장 */
+  private async extend(
+    entry: RemoteContextCache,
+    ttlMs: number,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    try {
+      const updated = await entry.client.caches.update({
+        name: entry.name,
+        config: { ttl: toTtl(ttlMs), abortSignal: signal },
+      })
+      entry.expiresAt = toExpiresAt(updated.expireTime, ttlMs)
+      return true
+    } catch (error) {
+      this.logger.warn('Gemini 컨텍스트 캐시 연장 실패', {
+        name: entry.name,
+        error: toErrorMessage(error),
+      })
+      return false
+    }
+  }
+}
+
+/** ms → API TTL 문자열 (예: '3600s') */
+function toTtl(ttlMs: number): string {
+  return `${Math.max(1, Math.round(ttlMs / 1000))}s`
+}
+
+/** 응답의 만료 시각 (없으면 요청한 TTL 기준) */
+function toExpiresAt(expireTime: string | undefined, ttlMs: number): number {
+  const parsed = expireTime ? new Date(expireTime).getTime() : NaN
+  return Number.isNaN(parsed) ? Date.now() + ttlMs : parsed
+}
@@ -0,0 +1,265 @@
+// packages/ai-core/src/embedding-cache.ts
+// 임베딩 캐시 - 같은 모델/용도/차원/텍스트의 벡터 재사용 (기본: 메모리 LRU)
+
+import { createHash } from 'node:crypto'
+
+import { toErrorMessage } from './logger'
+import type {
+  EmbeddingCacheEntry,
+  EmbeddingCachePrismaLike,
+  EmbeddingCacheStats,
+  EmbeddingCacheStore,
+  Logger,
+} from './types'
+
+/** 메모리 캐시 기본 최대 항목 수 */
+const DEFAULT_MAX_ENTRIES = 10_000
+
+/** 메모리 LRU 캐시 (기본값) - 단일 프로세스 내에서만 공유 */
+export class InMemoryEmbeddingCache implements EmbeddingCacheStore {
+  private entries = new Map<string, number[]>()
+  private maxEntries: number
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    const result = new Map<string, number[]>()
+    for (const key of keys) {
+      const embedding = this.entries.get(key)
+      if (!embedding) continue
+
+      // 최근 사용 항목을 맨 뒤로 (Map 삽입 순서 = 사용 순서)
+      this.entries.delete(key)
+      this.entries.set(key, embedding)
+      result.set(key, [...embedding])
+    }
+    return result
+  }
+
+  async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+    for (const { key, embedding } of entries) {
+      this.entries.delete(key)
+      this.entries.set(key, [...embedding])
+    }
+
+    // 가장 오래 사용하지 않은 항목부터 제거
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  /** 저장된 항목 수 */
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/**
+ * Prisma 저장소 - 재시작/인스턴스 간 벡터 공유 (야간 재색인 등)
+ * 호스트 앱 스키마에 AIEmbeddingCache 모델이 필요하다. (README 참고)
+ */
+export class PrismaEmbeddingCache implements EmbeddingCacheStore {
+  private prisma: EmbeddingCachePrismaLike
+
+  constructor(options: { prisma: EmbeddingCachePrismaLike }) {
+    this.prisma = options.prisma
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, number[]>> {
+    const rows = await this.prisma.aIEmbeddingCache.findMany({
+      where: { key: { in: keys } },
+    })
+    return new Map(rows.map((row) => [row.key, row.embedding]))
+  }
+
+  async setMany(entries: EmbeddingCacheEntry[]): Promise<void> {
+    await Promise.all(
+      entries.map(({ key, embedding }) =>
+        this.prisma.aIEmbeddingCache.upsert({
+          where: { key },
+          create: { key, embedding },
+          update: { embedding },
+        })
+      )
+    )
+  }
+
+  async clear(): Promise<void> {
+    await this.prisma.aIEmbeddingCache.deleteMany({})
+  }
+}
+
+/** Prisma 임베딩 캐시 저장소 생성 */
+export function createPrismaEmbeddingCache(
+  prisma: EmbeddingCachePrismaLike
+): PrismaEmbeddingCache {
+  return new PrismaEmbeddingCache({ prisma })
+}
+
+/** 임베딩 캐시 적중/절약 집계 */
+class EmbeddingCacheMetrics {
+  private hits = 0
+  private misses = 0
+  private writes = 0
+  private errors = 0
+  private savedCalls = 0
+  private savedTokens = 0
+  private byFeature: Record<string, { hits: number; misses: number }> = {}
+
+  recordLookup(hits: number, misses: number, feature?: string): void {
+    this.hits += hits
+    this.misses += misses
+
+    if (feature) {
+      const stats = (this.byFeature[feature] ??= { hits: 0, misses: 0 })
+      stats.hits += hits
+      stats.misses += misses
+    }
+  }
+
+  /** 캐시 덕분에 보내지 않은 요청 수와 추정 입력 토큰 */
+  recordSaved(calls: number, tokens: number): void {
+    this.savedCalls += calls
+    this.savedTokens += tokens
+  }
+
+  recordWrite(count: number): void {
+    this.writes += count
+  }
+
+  recordError(): void {
+    this.errors++
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      writes: this.writes,
+      errors: this.errors,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      savedCalls: this.savedCalls,
+      savedTokens: this.savedTokens,
+      byFeature: Object.fromEntries(
+        Object.entries(this.byFeature).map(([feature, stats]) => [feature, { ...stats }])
+      ),
+    }
+  }
+
+  reset(): void {
+    this.hits = 0
+    this.misses = 0
+    this.writes = 0
+    this.errors = 0
+    this.savedCalls = 0
+    this.savedTokens = 0
+    this.byFeature = {}
+  }
+}
+
+/** 호출별 캐시 동작 (use: 조회+저장, refresh: 저장만, off: 사용 안 함) */
+export type EmbeddingCacheMode = 'use' | 'refresh' | 'off'
+
+/**
+ * 클라이언트별 임베딩 캐시 (저장소 + 통계)
+ * 저장소 오류는 미적중/저장 생략으로 처리해 임베딩 요청은 계속 진행한다.
+ */
+export class EmbeddingCacheManager {
+  private enabled: boolean
+  private store: EmbeddingCacheStore
+  private metrics = new EmbeddingCacheMetrics()
+  private logger: Logger
+
+  constructor(options: { enabled?: boolean; store?: EmbeddingCacheStore; logger: Logger }) {
+    this.enabled = options.enabled ?? false
+    this.store = options.store ?? new InMemoryEmbeddingCache()
+    this.logger = options.logger
+  }
+
+  /** 호출 옵션을 캐시 동작으로 변환 (미지정 시 클라이언트 설정) */
+  resolveMode(cache: boolean | 'refresh' | undefined): EmbeddingCacheMode {
+    const enabled = cache ?? this.enabled
+    return enabled === 'refresh' ? 'refresh' : enabled ? 'use' : 'off'
+  }
+
+  /** 일괄 조회 (적중한 키만 결과에 포함) */
+  async lookup(keys: string[], feature?: string): Promise<Map<string, number[]>> {
+    let found = new Map<string, number[]>()
+    try {
+      found = await this.store.getMany([...new Set(keys)])
+    } catch (error) {
+      this.metrics.recordError()
+      this.logger.warn('임베딩 캐시 조회 실패', { error: toErrorMessage(error) })
+    }
+
+    const hits = keys.filter((key) => found.has(key)).length
+    this.metrics.recordLookup(hits, keys.length - hits, feature)
+    if (hits > 0) {
+      this.logger.debug('임베딩 캐시 적중', { feature, hits, misses: keys.length - hits })
+    }
+    return found
+  }
+
+  /** 일괄 저장 */
+  async save(entries: EmbeddingCacheEntry[]): Promise<void> {
+    if (entries.length === 0) return
+
+    try {
+      await this.store.setMany(entries)
+      this.metrics.recordWrite(entries.length)
+    } catch (error) {
+      this.metrics.recordError()
+      this.logger.warn('임베딩 캐시 저장 실패', { error: toErrorMessage(error) })
+    }
+  }
+
+  /** 캐시 덕분에 보내지 않은 요청 기록 */
+  recordSaved(calls: number, tokens: number): void {
+    if (calls > 0 || tokens > 0) {
+      this.metrics.recordSaved(calls, tokens)
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    return this.metrics.getStats()
+  }
+
+  /** 저장소 비우기 (지원하는 경우) + 통계 초기화 */
+  async clear(): Promise<void> {
+    await this.store.clear?.()
+    this.metrics.reset()
+  }
+}
+
+/**
+ * 임베딩 캐시 키 (모델:용도:차원:텍스트 sha256)
+ * 제목은 RETRIEVAL_DOCUMENT 벡터에 영향을 주므로 해시에 포함한다.
+ */
+export function createEmbeddingCacheKey(request: {
+  model: string
+  text: string
+  taskType?: string
+  outputDimensionality?: number
+  title?: string
+}): string {
+  const hash = createHash('sha256').update(request.text)
+  if (request.title !== undefined) {
+    hash.update('\u0000').update(request.title)
+  }
+
+  return [
+    request.model,
+    request.taskType ?? 'default',
+    request.outputDimensionality ?? 'full',
+    hash.digest('hex'),
+  ].join(':')
+}
@@ -1,74 +1,94 @@
 // packages/ai-core/src/embedding.ts
 // 임베딩 생성 (Gemini Embedding API)
-// 3키 폴백 시스템 적용 (임베딩은 모델 고정)
+// 3키 폴백 시스템 적용 (임베딩은 모델 고정), 여러 텍스트는 batchEmbedContents로 묶어 요청
+// 임베딩 캐시 사용 시 같은 텍스트는 다시 요청하지 않음
 
-import { executeWithKeyFallback, GeminiClient } from './gemini-client'
+import { createEmbeddingCacheKey } from './embedding-cache'
+import { EmbeddingBatchError, GeminiAbortError } from './errors'
+import { getDefaultClient, GeminiClient } from './gemini-client'
+import { toErrorMessage } from './logger'
+import { classifyGeminiError } from './retry-policy'
+import { estimateTokens } from './tokens'
+import { normalizeVector } from './vector'
+import type {
+  EmbeddingInput,
+  EmbeddingOptions,
+  EmbeddingResult,
+  EmbeddingTaskType,
+} from './types'
 
 // 임베딩 모델 (고정)
 const EMBEDDING_MODEL = 'gemini-embedding-001'
 
+/** batchEmbedContents 요청 1건의 최대 항목 수 */
+export const MAX_EMBEDDING_BATCH_SIZE = 100
+
+/** 배치 요청 대상 항목 */
+interface EmbeddingItem {
+  index: number
+  text: string
+  title?: string
+  /** 임베딩 캐시 키 (캐시 사용 시) */
+  cacheKey?: string
+}
+
 /**
  * 텍스트를 벡터로 임베딩 (기본 클라이언트 사용)
  * Gemini gemini-embedding-001 모델 사용 (통합 임베딩 모델)
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
-  if (!text.trim()) {
-    throw new Error('임베딩할 텍스트가 비어있습니다.')
-  }
-
-  return executeWithKeyFallback(async (client) => {
-    const result = await client.models.embedContent({
-      model: EMBEDDING_MODEL,
-      contents: text,
-    })
-
-    const embedding = result.embeddings?.[0]?.values
-
-    if (!embedding || !embedding.length) {
-      throw new Error('임베딩 생성 실패')
-    }
-
-    return embedding
-  })
+export async function generateEmbedding(
+  text: string,
+  options: EmbeddingOptions = {}
+): Promise<number[]> {
+  return generateEmbeddingWithClient(getDefaultClient(), text, options)
 }
 
 /**
  * 클라이언트를 지정하여 텍스트를 벡터로 임베딩
+ * 임베딩 API는 사용량을 반환하지 않으므로 입력 토큰은 로컬 추정치로 기록
  */
 export async function generateEmbeddingWithClient(
   client: GeminiClient,
-  text: string
+  text: string,
+  options: EmbeddingOptions = {}
 ): Promise<number[]> {
   if (!text.trim()) {
     throw new Error('임베딩할 텍스트가 비어있습니다.')
   }
 
-  return client.executeWithKeyFallback(async (genaiClient) => {
-    const result = await genaiClient.models.embedContent({
-      model: EMBEDDING_MODEL,
-      contents: text,
-    })
+  // 키 풀 지정 시 풀의 캐시/키 사용
+  if (options.pool !== undefined) {
+    client = client.forPool(options.pool)
+  }
 
-    const embedding = result.embeddings?.[0]?.values
+  const cache = client.getEmbeddingCache()
+  const mode = cache.resolveMode(options.cache)
+  const cacheKey = toCacheKey(text, options.title, options)
 
-    if (!embedding || !embedding.length) {
-      throw new Error('임베딩 생성 실패')
+  if (mode === 'use') {
+    const cached = (await cache.lookup([cacheKey], options.feature)).get(cacheKey)
+    if (cached) {
+      cache.recordSaved(1, estimateTokens(text))
+      return cached
     }
+  }
 
-    return embedding
-  })
+  const [embedding] = await embedBatch(client, [text], options.title, options)
+  if (mode !== 'off') {
+    await cache.save([{ key: cacheKey, embedding: embedding! }])
+  }
+  return embedding!
 }
 
 /**
- * 여러 텍스트를 배치로 임베딩
+ * 여러 텍스트를 배치로 임베딩 (기본 클라이언트 사용)
+ * 결과는 입력 순서를 유지하며, 일부 항목이 실패하면 EmbeddingBatchError
  */
 export async function generateEmbeddings(
-  texts: string[]
+  texts: Array<string | EmbeddingInput>,
+  options: EmbeddingOptions = {}
 ): Promise<number[][]> {
-  const results = await Promise.all(
-    texts.map((text) => generateEmbedding(text))
-  )
-  return results
+  return generateEmbeddingsWithClient(getDefaultClient(), texts, options)
 }
 
 /**
@@ -76,19 +96,225 @@ export async function generateEmbeddings(
  */
 export async function generateEmbeddingsWithClient(
   client: GeminiClient,
-  texts: string[]
+  texts: Array<string | EmbeddingInput>,
+  options: EmbeddingOptions = {}
 ): Promise<number[][]> {
-  const results = await Promise.all(
-    texts.map((text) => generateEmbeddingWithClient(client, text))
+  const results = await generateEmbeddingResultsWithClient(client, texts, options)
+
+  const failures = results.filter((result) => result.error !== undefined)
+  if (failures.length > 0) {
+    throw new EmbeddingBatchError(
+      `${failures.length}/${results.length}개 항목의 임베딩 생성에 실패했습니다: ${failures[0]!.error}`,
+      results
+    )
+  }
+
+  return results.map((result) => result.embedding!)
+}
+
+/**
+ * 여러 텍스트를 배치로 임베딩하고 항목별 결과 반환 (기본 클라이언트 사용)
+ */
+export async function generateEmbeddingResults(
+  texts: Array<string | EmbeddingInput>,
+  options: EmbeddingOptions = {}
+): Promise<EmbeddingResult[]> {
+  return generateEmbeddingResultsWithClient(getDefaultClient(), texts, options)
+}
+
+/**
+ * 클라이언트를 지정하여 여러 텍스트를 배치로 임베딩하고 항목별 결과 반환
+ * 제목이 같은 항목끼리 최대 100개씩 묶어 요청하며(제목은 요청 단위 설정), 묶음은 키별 레이트 리밋에 따라 분산 실행된다.
+ * 빈 텍스트나 실패한 항목은 예외 대신 error로 표시하고, 취소/제한 시간 초과만 예외로 던진다.
+ * 임베딩 캐시 사용 시 캐시에 있는 항목은 요청하지 않고, 새로 만든 벡터만 저장한다.
+ */
+export async function generateEmbeddingResultsWithClient(
+  client: GeminiClient,
+  texts: Array<string | EmbeddingInput>,
+  options: EmbeddingOptions = {}
+): Promise<EmbeddingResult[]> {
+  if (options.pool !== undefined) {
+    client = client.forPool(options.pool)
+  }
+
+  const results: EmbeddingResult[] = texts.map((_, index) => ({ index }))
+  const groups = new Map<string | undefined, EmbeddingItem[]>()
+
+  texts.forEach((input, index) => {
+    const item: EmbeddingItem =
+      typeof input === 'string'
+        ? { index, text: input, title: options.title }
+        : { index, text: input.text, title: input.title ?? options.title }
+
+    if (!item.text.trim()) {
+      results[index]!.error = '임베딩할 텍스트가 비어있습니다.'
+      return
+    }
+
+    const group = groups.get(item.title) ?? []
+    group.push(item)
+    groups.set(item.title, group)
+  })
+
+  // 용도와 제목 조합은 요청 전에 검사 (항목별 실패가 아닌 호출 오류)
+  groups.forEach((_, title) => resolveTaskType(options.taskType, title))
+
+  const cache = client.getEmbeddingCache()
+  const mode = cache.resolveMode(options.cache)
+  let pending = [...groups.values()]
+
+  if (mode !== 'off') {
+    pending.flat().forEach((item) => {
+      item.cacheKey = toCacheKey(item.text, item.title, options)
+    })
+  }
+
+  // 캐시에 있는 항목은 요청에서 제외
+  if (mode === 'use') {
+    const items = pending.flat()
+    const cached = await cache.lookup(
+      items.map((item) => item.cacheKey!),
+      options.feature
+    )
+    const hits = items.filter((item) => cached.has(item.cacheKey!))
+    hits.forEach((item) => {
+      results[item.index]!.embedding = cached.get(item.cacheKey!)
+    })
+
+    const remaining = pending
+      .map((group) => group.filter((item) => !cached.has(item.cacheKey!)))
+      .filter((group) => group.length > 0)
+    cache.recordSaved(
+      toChunks(pending).length - toChunks(remaining).length,
+      hits.reduce((total, item) => total + estimateTokens(item.text), 0)
+    )
+    pending = remaining
+  }
+
+  await Promise.all(
+    toChunks(pending).map((chunk) => embedItems(client, chunk, options, results))
   )
+
+  if (mode !== 'off') {
+    await cache.save(
+      pending.flat().flatMap((item) => {
+        const embedding = results[item.index]!.embedding
+        return embedding ? [{ key: item.cacheKey!, embedding }] : []
+      })
+    )
+  }
   return results
 }
 
 /**
- * 벡터 배열을 PostgreSQL 형식 문자열로 변환
+ * 묶음 임베딩 후 결과에 기록
+ * 요청 거부(너무 긴 입력 등)는 묶음 전체가 실패하므로 항목별로 다시 요청해 원인 항목만 실패 처리한다.
  */
-export function vectorToString(vector: number[]): string {
-  return `[${vector.join(',')}]`
+async function embedItems(
+  client: GeminiClient,
+  items: EmbeddingItem[],
+  options: EmbeddingOptions,
+  results: EmbeddingResult[]
+): Promise<void> {
+  try {
+    const embeddings = await embedBatch(
+      client,
+      items.map((item) => item.text),
+      items[0]!.title,
+      options
+    )
+    items.forEach((item, i) => {
+      results[item.index]!.embedding = embeddings[i]
+    })
+  } catch (error) {
+    if (error instanceof GeminiAbortError) throw error
+
+    if (items.length > 1 && classifyGeminiError(error).category === 'request') {
+      await Promise.all(items.map((item) => embedItems(client, [item], options, results)))
+      return
+    }
+
+    const message = toErrorMessage(error)
+    items.forEach((item) => {
+      results[item.index]!.error = message
+    })
+  }
+}
+
+/** batchEmbedContents 요청 1건 (키 폴백, 입력 순서대로 벡터 반환) */
+async function embedBatch(
+  client: GeminiClient,
+  texts: string[],
+  title: string | undefined,
+  options: EmbeddingOptions
+): Promise<number[][]> {
+  const { outputDimensionality } = options
+  const taskType = resolveTaskType(options.taskType, title)
+  const estimatedTokens = texts.reduce((total, text) => total + estimateTokens(text), 0)
+
+  return client.executeWithKeyFallback(
+    async (genaiClient, signal) => {
+      const result = await genaiClient.models.embedContent({
+        model: EMBEDDING_MODEL,
+        contents: texts,
+        config: { taskType, title, outputDimensionality, abortSignal: signal },
+      })
+
+      const embeddings = (result.embeddings ?? []).map((embedding) => embedding.values ?? [])
+      if (embeddings.length !== texts.length || embeddings.some((values) => !values.length)) {
+        throw new Error('임베딩 생성 실패')
+      }
+
+      return outputDimensionality !== undefined
+        ? embeddings.map(normalizeVector)
+        : embeddings
+    },
+    {
+      model: EMBEDDING_MODEL,
+      operation: 'embed',
+      feature: options.feature,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      attemptTimeoutMs: options.attemptTimeoutMs,
+      estimatedTokens,
+      usage: () => ({ promptTokens: estimatedTokens, estimated: true }),
+    }
+  )
+}
+
+/** 같은 제목끼리 묶은 항목을 요청 단위(최대 100개)로 분할 */
+function toChunks(groups: EmbeddingItem[][]): EmbeddingItem[][] {
+  return groups.flatMap((items) => {
+    const chunks: EmbeddingItem[][] = []
+    for (let i = 0; i < items.length; i += MAX_EMBEDDING_BATCH_SIZE) {
+      chunks.push(items.slice(i, i + MAX_EMBEDDING_BATCH_SIZE))
+    }
+    return chunks
+  })
+}
+
+/** 임베딩 캐시 키 (실제 요청에 쓰이는 용도 기준) */
+function toCacheKey(text: string, title: string | undefined, options: EmbeddingOptions): string {
+  return createEmbeddingCacheKey({
+    model: EMBEDDING_MODEL,
+    text,
+    title,
+    taskType: resolveTaskType(options.taskType, title),
+    outputDimensionality: options.outputDimensionality,
+  })
+}
+
+/** 제목이 있으면 문서 검색 용도 (다른 용도와 함께 쓰면 오류) */
+function resolveTaskType(
+  taskType: EmbeddingTaskType | undefined,
+  title: string | undefined
+): EmbeddingTaskType | undefined {
+  if (title === undefined) return taskType
+
+  if (taskType !== undefined && taskType !== 'RETRIEVAL_DOCUMENT') {
+    throw new Error(`title은 RETRIEVAL_DOCUMENT 용도에서만 사용할 수 있습니다 (${taskType}).`)
+  }
+  return 'RETRIEVAL_DOCUMENT'
 }
 
 /** 임베딩 모델 상수 export */
@@ -0,0 +1,230 @@
+// packages/ai-core/src/errors.ts
+// AI Core 에러 클래스
+
+import type { Content } from '@google/genai'
+
+import type {
+  EmbeddingResult,
+  GeminiAttempt,
+  GeminiErrorCategory,
+  TemplateIssue,
+  ToolCallRecord,
+} from './types'
+
+/**
+ * Gemini 폴백 엔진 에러
+ * 요청 단위 오류로 즉시 중단되었거나 모든 키+모델 조합이 실패한 경우
+ */
+export class GeminiError extends Error {
+  /** 오류 분류 (retryable / key / request) */
+  readonly category: GeminiErrorCategory
+  /** HTTP 상태 코드 (있는 경우) */
+  readonly status?: number
+  /** 시도한 키+모델 조합과 각 실패 사유 */
+  readonly attempts: GeminiAttempt[]
+
+  constructor(
+    message: string,
+    options: {
+      category: GeminiErrorCategory
+      status?: number
+      attempts?: GeminiAttempt[]
+      cause?: unknown
+    }
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'GeminiError'
+    this.category = options.category
+    this.status = options.status
+    this.attempts = options.attempts ?? []
+  }
+}
+
+/**
+ * 구조화 출력 에러
+ * 모든 키+모델 조합과 복구 재시도 후에도 스키마 검증에 실패한 경우
+ */
+export class StructuredOutputError extends Error {
+  /** 마지막 검증 실패 사유 (JSON 경로 포함) */
+  readonly issues: string[]
+  /** 마지막 모델 응답 원문 */
+  readonly rawText: string
+
+  constructor(message: string, issues: string[], rawText: string) {
+    super(message)
+    this.name = 'StructuredOutputError'
+    this.issues = issues
+    this.rawText = rawText
+  }
+}
+
+/**
+ * 취소/제한 시간 초과 에러
+ * AbortSignal로 취소되었거나 전체 제한 시간(timeoutMs)을 넘겨 폴백을 중단한 경우
+ */
+export class GeminiAbortError extends GeminiError {
+  /** 중단 사유 (aborted: 호출 측 취소, timeout: 전체 제한 시간 초과) */
+  readonly reason: 'aborted' | 'timeout'
+
+  constructor(
+    message: string,
+    options: {
+      reason: 'aborted' | 'timeout'
+      attempts?: GeminiAttempt[]
+      cause?: unknown
+    }
+  ) {
+    super(message, {
+      category: 'request',
+      attempts: options.attempts,
+      cause: options.cause,
+    })
+    this.name = 'GeminiAbortError'
+    this.reason = options.reason
+  }
+}
+
+/**
+ * 안전 필터 차단 에러
+ * 프롬프트가 차단되었거나(prompt) 응답 생성이 안전/정책 사유로 중단된 경우(response)
+ */
+export class GeminiBlockedError extends GeminiError {
+  /** 차단 시점 */
+  readonly stage: 'prompt' | 'response'
+  /** 차단 사유 (blockReason 또는 finishReason, 예: 'SAFETY', 'PROHIBITED_CONTENT') */
+  readonly reason: string
+  /** 카테고리별 안전 평가 (API가 준 경우) */
+  readonly safetyRatings: Array<{ category?: string; probability?: string; blocked?: boolean }>
+
+  constructor(
+    message: string,
+    options: {
+      stage: 'prompt' | 'response'
+      reason: string
+      safetyRatings?: Array<{ category?: string; probability?: string; blocked?: boolean }>
+    }
+  ) {
+    super(message, { category: 'request' })
+    this.name = 'GeminiBlockedError'
+    this.stage = options.stage
+    this.reason = options.reason
+    this.safetyRatings = options.safetyRatings ?? []
+  }
+}
+
+/**
+ * 출력 길이 초과 에러
+ * 최대 출력 토큰(maxOutputTokens)에 걸려 응답이 비었거나 잘린 경우
+ * (같은 설정으로 다시 시도해도 결과가 같으므로 폴백하지 않음)
+ */
+export class GeminiTruncatedError extends GeminiError {
+  /** 잘리기 전까지 생성된 텍스트 (사고 토큰만 쓰고 끝났으면 빈 문자열) */
+  readonly partialText: string
+
+  constructor(message: string, partialText: string) {
+    super(message, { category: 'request' })
+    this.name = 'GeminiTruncatedError'
+    this.partialText = partialText
+  }
+}
+
+/**
+ * 도구 실행 루프 에러
+ * 최대 모델 턴 수 안에 모델이 최종 텍스트 응답을 내지 않은 경우
+ */
+export class ToolLoopError extends Error {
+  /** 적용된 최대 모델 턴 수 */
+  readonly maxIterations: number
+  /** 실행된 도구 호출 */
+  readonly toolCalls: ToolCallRecord[]
+  /** 중단 시점까지의 대화 */
+  readonly contents: Content[]
+
+  constructor(
+    message: string,
+    options: { maxIterations: number; toolCalls: ToolCallRecord[]; contents: Content[] }
+  ) {
+    super(message)
+    this.name = 'ToolLoopError'
+    this.maxIterations = options.maxIterations
+    this.toolCalls = options.toolCalls
+    this.contents = options.contents
+  }
+}
+
+/**
+ * 배치 임베딩 에러
+ * 일부 항목의 임베딩이 실패한 경우 (성공한 항목도 results에 포함)
+ */
+export class EmbeddingBatchError extends Error {
+  /** 입력 순서대로의 항목별 결과 */
+  readonly results: EmbeddingResult[]
+
+  constructor(message: string, results: EmbeddingResult[]) {
+    super(message)
+    this.name = 'EmbeddingBatchError'
+    this.results = results
+  }
+
+  /** 실패한 항목 */
+  get failures(): EmbeddingResult[] {
+    return this.results.filter((result) => result.error !== undefined)
+  }
+}
+
+/**
+ * 외부 공급자 요청 에러
+ * HTTP 상태 코드로 폴백 엔진이 재시도/조합 비활성화/즉시 실패를 분류한다.
+ */
+export class ProviderError extends Error {
+  /** 공급자 이름 */
+  readonly provider: string
+  /** HTTP 상태 코드 (네트워크 오류 등은 없음) */
+  readonly status?: number
+  /** 실패 응답 헤더 (Retry-After 등) */
+  readonly headers?: Headers
+
+  constructor(
+    message: string,
+    options: { provider: string; status?: number; headers?: Headers; cause?: unknown }
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'ProviderError'
+    this.provider = options.provider
+    this.status = options.status
+    this.headers = options.headers
+  }
+}
+
+/**
+ * 컨텍스트 예산 초과 에러
+ * 자를 수 없는 필수 항목(시스템 인스트럭션, 요청 등)만으로 예산을 넘은 경우
+ */
+export class ContextBudgetError extends Error {
+  /** 필수 항목 토큰 합계 */
+  readonly requiredTokens: number
+  /** 적용된 예산 */
+  readonly budgetTokens: number
+
+  constructor(message: string, options: { requiredTokens: number; budgetTokens: number }) {
+    super(message)
+    this.name = 'ContextBudgetError'
+    this.requiredTokens = options.requiredTokens
+    this.budgetTokens = options.budgetTokens
+  }
+}
+
+/**
+ * 프롬프트 템플릿 에러
+ * 구문 오류, 필수 변수 누락, 타입 불일치로 렌더링하거나 저장할 수 없는 경우
+ */
+export class PromptTemplateError extends Error {
+  /** 오류 수준 문제 목록 */
+  readonly issues: TemplateIssue[]
+
+  constructor(message: string, issues: TemplateIssue[]) {
+    super(message)
+    this.name = 'PromptTemplateError'
+    this.issues = issues
+  }
+}
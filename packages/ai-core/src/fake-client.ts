@@ -0,0 +1,558 @@
+// packages/ai-core/src/fake-client.ts
+// 오프라인 테스트용 가짜 Gemini 클라이언트
+// 프롬프트 매처별 스크립트 응답, 429/빈 응답/지연 시뮬레이션, 호출 기록
+
+import { createHash } from 'node:crypto'
+
+import {
+  ApiError,
+  EmbedContentResponse,
+  FileState,
+  FinishReason,
+  GenerateContentResponse,
+  type BlockedReason,
+  type GoogleGenAI,
+} from '@google/genai'
+
+import { GeminiError } from './errors'
+import { GeminiClient } from './gemini-client'
+import { silentLogger } from './logger'
+import { sleep } from './retry-policy'
+import { estimateTokens } from './tokens'
+import type { AICoreConfig } from './types'
+
+/** 가짜 클라이언트가 흉내 내는 SDK 메서드 */
+export type FakeMethod =
+  | 'generateContent'
+  | 'generateContentStream'
+  | 'embedContent'
+  | 'countTokens'
+  | 'createCachedContent'
+
+/** 가짜 클라이언트가 받은 요청 */
+export interface FakeRequest {
+  method: FakeMethod
+  model: string
+  /** API 키 순번 (1부터) */
+  keyIndex: number
+  /** contents에서 텍스트만 이어 붙인 프롬프트 (매처 비교용) */
+  prompt: string
+  contents: unknown
+  config?: Record<string, unknown>
+}
+
+/** 가짜 Files API 업로드 기록 */
+export interface FakeUpload {
+  /** API 키 순번 (1부터) */
+  keyIndex: number
+  name: string
+  mimeType: string
+  sizeBytes: number
+}
+
+/** 가짜 컨텍스트 캐시 (키+모델별) */
+export interface FakeCachedContent {
+  /** API 키 순번 (1부터) */
+  keyIndex: number
+  name: string
+  model: string
+  systemInstruction?: string
+  contents: unknown
+  expireTime: string
+}
+
+/** 스크립트 응답 한 단계 */
+export interface FakeResponse {
+  /** 응답 텍스트 (빈 문자열이면 빈 응답) */
+  text?: string
+  /** 스트리밍 청크 (미지정 시 text를 한 청크로) */
+  chunks?: string[]
+  /** 임베딩 벡터 (미지정 시 입력 텍스트 기반 결정적 벡터) */
+  embedding?: number[]
+  /** 던질 API 오류 */
+  error?: { status: number; message?: string }
+  /** 스트리밍 청크를 모두 내보낸 뒤 던질 API 오류 (스트림 중간 끊김 시뮬레이션) */
+  streamError?: { status: number; message?: string }
+  /** 응답 전 지연 (ms, SDK abortSignal로 취소 가능) */
+  delayMs?: number
+  /** usageMetadata 토큰 수 (미지정 시 로컬 추정치, countTokens는 promptTokens를 결과로 사용) */
+  usage?: { promptTokens?: number; candidatesTokens?: number }
+  /** 프롬프트 차단 사유 (안전 필터 차단 시뮬레이션) */
+  blockReason?: string
+  /** 응답 종료 사유 (기본: 'STOP', 예: 'MAX_TOKENS', 'SAFETY') */
+  finishReason?: string
+  /** 모델의 함수 호출 요청 (도구 실행 루프 테스트용) */
+  functionCalls?: Array<{ name: string; args?: Record<string, unknown> }>
+}
+
+/** 스크립트 규칙 - 먼저 추가된 규칙부터 매칭 */
+export interface FakeRule {
+  /** 프롬프트 매처 (문자열은 포함 여부) - 미지정 시 모든 요청 */
+  match?: string | RegExp | ((request: FakeRequest) => boolean)
+  /** 대상 메서드 (createCachedContent는 명시한 규칙만 적용, 없으면 생성 성공) */
+  method?: FakeMethod
+  /** 대상 모델 */
+  model?: string
+  /** 대상 API 키 순번 (1부터) */
+  keyIndex?: number
+  /** 응답 (배열이면 매칭될 때마다 순서대로, 마지막 응답은 반복) */
+  respond: FakeResponse | FakeResponse[] | ((request: FakeRequest) => FakeResponse)
+}
+
+/** 가짜 임베딩 기본 차원 (gemini-embedding-001 기본 출력과 동일, outputDimensionality 지정 시 그 차원) */
+const FAKE_EMBEDDING_DIMENSIONS = 3072
+
+/** 텍스트 응답 */
+export function fakeText(text: string): FakeResponse {
+  return { text }
+}
+
+/** 429 속도 제한 오류 */
+export function fakeRateLimit(
+  message = 'Resource has been exhausted (e.g. check quota).'
+): FakeResponse {
+  return { error: { status: 429, message } }
+}
+
+/** 빈 응답 */
+export function fakeEmpty(): FakeResponse {
+  return { text: '' }
+}
+
+/** 함수 호출 요청 응답 (여러 개면 병렬 호출) */
+export function fakeFunctionCall(
+  ...calls: Array<{ name: string; args?: Record<string, unknown> }>
+): FakeResponse {
+  return { functionCalls: calls }
+}
+
+/** 최대 출력 토큰에서 잘린 응답 (기본: 빈 응답) */
+export function fakeTruncated(text = ''): FakeResponse {
+  return { text, finishReason: FinishReason.MAX_TOKENS }
+}
+
+/** 지연 후 응답 */
+export function fakeSlow(delayMs: number, response: FakeResponse = {}): FakeResponse {
+  return { ...response, delayMs }
+}
+
+/** 임의 상태 코드 API 오류 */
+export function fakeError(status: number, message = `HTTP ${status}`): FakeResponse {
+  return { error: { status, message } }
+}
+
+/**
+ * 텍스트 기반 결정적 가짜 임베딩 (같은 텍스트 → 같은 단위 벡터)
+ */
+export function createFakeEmbedding(
+  text: string,
+  dimensions = FAKE_EMBEDDING_DIMENSIONS
+): number[] {
+  const values: number[] = []
+  for (let block = 0; values.length < dimensions; block++) {
+    const digest = createHash('sha256').update(`${block}:${text}`).digest()
+    for (let i = 0; i < digest.length && values.length < dimensions; i++) {
+      values.push((digest[i]! - 127.5) / 127.5)
+    }
+  }
+
+  const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1
+  return values.map((v) => v / norm)
+}
+
+/**
+ * 스크립트 기반 가짜 SDK 백엔드
+ * API 키마다 GoogleGenAI 형태의 가짜 클라이언트를 만들어 주며, 모든 요청을 기록한다.
+ */
+export class FakeGenAIBackend {
+  private rules: Array<{ rule: FakeRule; used: number }> = []
+  private defaultResponse?: FakeResponse
+  private calls: FakeRequest[] = []
+  private uploads: FakeUpload[] = []
+  private cachedContents = new Map<string, FakeCachedContent>()
+
+  constructor(options: { rules?: FakeRule[]; defaultResponse?: FakeResponse } = {}) {
+    options.rules?.forEach((rule) => this.addRule(rule))
+    this.defaultResponse = options.defaultResponse
+  }
+
+  /** 규칙 추가 */
+  addRule(rule: FakeRule): this {
+    this.rules.push({ rule, used: 0 })
+    return this
+  }
+
+  /** 받은 요청 목록 (폴백 순서 검증용) */
+  getCalls(): FakeRequest[] {
+    return [...this.calls]
+  }
+
+  /** Files API 업로드 기록 */
+  getUploads(): FakeUpload[] {
+    return [...this.uploads]
+  }
+
+  /** 생성되어 남아 있는 컨텍스트 캐시 */
+  getCachedContents(): FakeCachedContent[] {
+    return [...this.cachedContents.values()]
+  }
+
+  /** 요청 기록과 규칙 진행 상태 초기화 */
+  reset(): void {
+    this.calls = []
+    this.uploads = []
+    this.cachedContents.clear()
+    this.rules.forEach((entry) => (entry.used = 0))
+  }
+
+  /** API 키 순번에 대응하는 가짜 클라이언트 생성 */
+  createClient(keyIndex: number): GoogleGenAI {
+    const models = {
+      generateContent: async (params: SdkParams) => {
+        const request = this.toRequest('generateContent', keyIndex, params)
+        this.assertCachedContent(request)
+        const response = await this.resolve(request, params)
+        return toGenerateResponse(response, request, response.text ?? '')
+      },
+      generateContentStream: async (params: SdkParams) => {
+        const request = this.toRequest('generateContentStream', keyIndex, params)
+        this.assertCachedContent(request)
+        const response = await this.resolve(request, params)
+        return streamResponse(response, request, params.config?.abortSignal)
+      },
+      embedContent: async (params: SdkParams) => {
+        const request = this.toRequest('embedContent', keyIndex, params)
+        const response = await this.resolve(request, params)
+        return toEmbedResponse(response, params.contents, params.config?.outputDimensionality)
+      },
+      countTokens: async (params: SdkParams) => {
+        const request = this.toRequest('countTokens', keyIndex, params)
+        const response = await this.resolve(request, params)
+        return { totalTokens: response.usage?.promptTokens ?? estimateTokens(request.prompt) }
+      },
+    }
+    const files = {
+      upload: async (params: { file: Blob | string; config?: { mimeType?: string } }) => {
+        const upload: FakeUpload = {
+          keyIndex,
+          name: `files/fake-${this.uploads.length + 1}`,
+          mimeType: params.config?.mimeType ?? 'application/octet-stream',
+          sizeBytes: typeof params.file === 'string' ? 0 : params.file.size,
+        }
+        this.uploads.push(upload)
+        return {
+          name: upload.name,
+          uri: `https://generativelanguage.googleapis.com/v1beta/${upload.name}`,
+          mimeType: upload.mimeType,
+          sizeBytes: String(upload.sizeBytes),
+          state: FileState.ACTIVE,
+        }
+      },
+    }
+    const caches = {
+      create: async (params: { model: string; config?: SdkParams['config'] }) => {
+        const { contents, ...config } = params.config ?? {}
+        const sdkParams = {
+          model: params.model,
+          contents,
+          config: { ...config, abortSignal: params.config?.abortSignal },
+        }
+        const request = this.toRequest('createCachedContent', keyIndex, sdkParams)
+        await this.resolve(request, sdkParams)
+
+        const ttlMs = parseTtl(config.ttl)
+        const cachedContent: FakeCachedContent = {
+          keyIndex,
+          name: `cachedContents/fake-${this.cachedContents.size + 1}-${keyIndex}`,
+          model: params.model,
+          systemInstruction: config.systemInstruction as string | undefined,
+          contents,
+          expireTime: new Date(Date.now() + ttlMs).toISOString(),
+        }
+        this.cachedContents.set(cachedContent.name, cachedContent)
+        return {
+          name: cachedContent.name,
+          model: `models/${params.model}`,
+          expireTime: cachedContent.expireTime,
+          usageMetadata: { totalTokenCount: estimateTokens(request.prompt) },
+        }
+      },
+      update: async (params: { name: string; config?: { ttl?: string } }) => {
+        const cachedContent = this.getCachedContent(params.name, keyIndex)
+        cachedContent.expireTime = new Date(Date.now() + parseTtl(params.config?.ttl)).toISOString()
+        return { name: cachedContent.name, expireTime: cachedContent.expireTime }
+      },
+      delete: async (params: { name: string }) => {
+        this.getCachedContent(params.name, keyIndex)
+        this.cachedContents.delete(params.name)
+        return {}
+      },
+    }
+    return { models, files, caches } as unknown as GoogleGenAI
+  }
+
+  /** 키별 컨텍스트 캐시 조회 (없거나 만료, 다른 키의 캐시면 404/403) */
+  private getCachedContent(name: string, keyIndex: number): FakeCachedContent {
+    const cachedContent = this.cachedContents.get(name)
+    if (!cachedContent || new Date(cachedContent.expireTime).getTime() <= Date.now()) {
+      throw new ApiError({ status: 404, message: `CachedContent not found: ${name}` })
+    }
+    if (cachedContent.keyIndex !== keyIndex) {
+      throw new ApiError({ status: 403, message: `Permission denied on CachedContent: ${name}` })
+    }
+    return cachedContent
+  }
+
+  /** 캐시를 사용하는 요청의 캐시 검사 (모델이 다르면 400) */
+  private assertCachedContent(request: FakeRequest): void {
+    const name = request.config?.cachedContent
+    if (typeof name !== 'string') return
+
+    const cachedContent = this.getCachedContent(name, request.keyIndex)
+    if (cachedContent.model !== request.model) {
+      throw new ApiError({
+        status: 400,
+        message: `CachedContent model mismatch: ${cachedContent.model}`,
+      })
+    }
+  }
+
+  /** 요청 기록 */
+  private toRequest(method: FakeMethod, keyIndex: number, params: SdkParams): FakeRequest {
+    const { abortSignal: _abortSignal, ...config } = params.config ?? {}
+    // 캐시를 사용한 요청은 캐시 내용까지 이어 붙여 매칭 (캐시 없이 보낸 요청과 같은 프롬프트)
+    const cachedContent =
+      typeof config.cachedContent === 'string'
+        ? this.cachedContents.get(config.cachedContent)
+        : undefined
+    const request: FakeRequest = {
+      method,
+      model: params.model,
+      keyIndex,
+      prompt: [extractPromptText(cachedContent?.contents), extractPromptText(params.contents)]
+        .filter(Boolean)
+        .join('\n'),
+      contents: params.contents,
+      config,
+    }
+    this.calls.push(request)
+    return request
+  }
+
+  /** 규칙 매칭 → 지연 → 오류 또는 응답 */
+  private async resolve(request: FakeRequest, params: SdkParams): Promise<FakeResponse> {
+    const entry = this.rules.find(
+      ({ rule }) =>
+        matchesRule(rule, request) &&
+        (request.method !== 'createCachedContent' || rule.method === request.method)
+    )
+    let response: FakeResponse | undefined
+
+    if (entry) {
+      const { respond } = entry.rule
+      if (typeof respond === 'function') {
+        response = respond(request)
+      } else if (Array.isArray(respond)) {
+        response = respond[Math.min(entry.used, respond.length - 1)]
+      } else {
+        response = respond
+      }
+      entry.used++
+    } else {
+      // 캐시 생성은 스크립트가 없으면 성공, 임베딩은 결정적 벡터, 토큰 계산은 로컬 추정치로 응답
+      response =
+        request.method === 'createCachedContent'
+          ? {}
+          : (this.defaultResponse ??
+            (request.method === 'embedContent' || request.method === 'countTokens'
+              ? {}
+              : undefined))
+    }
+
+    if (!response) {
+      throw new GeminiError(
+        `일치하는 가짜 응답이 없습니다: ${request.method} ${request.model} "${request.prompt.slice(0, 50)}"`,
+        { category: 'request' }
+      )
+    }
+
+    if (response.delayMs) {
+      await sleep(response.delayMs, params.config?.abortSignal)
+    }
+
+    if (response.error) {
+      throw new ApiError({
+        status: response.error.status,
+        message: response.error.message ?? `HTTP ${response.error.status}`,
+      })
+    }
+
+    return response
+  }
+}
+
+/** 가짜 클라이언트 옵션 */
+export interface FakeGeminiClientOptions
+  extends Omit<AICoreConfig, 'apiKeys' | 'clientFactory'> {
+  /** 가짜 API 키 (기본: 3개) */
+  apiKeys?: string[]
+  /** 스크립트 규칙 */
+  rules?: FakeRule[]
+  /** 일치하는 규칙이 없을 때 응답 (미지정 시 요청 단위 오류, 임베딩은 결정적 벡터) */
+  defaultResponse?: FakeResponse
+}
+
+/**
+ * 가짜 GeminiClient
+ * 실제 폴백 엔진(키 × 모델 티어, 백오프, 쿨다운)을 그대로 쓰고 SDK 호출만 스크립트로 대체한다.
+ * 기본 설정은 테스트용으로 백오프 대기 없음, 로그 출력 없음.
+ */
+export class FakeGeminiClient extends GeminiClient {
+  readonly backend: FakeGenAIBackend
+
+  constructor(options: FakeGeminiClientOptions = {}) {
+    const { rules, defaultResponse, ...config } = options
+    const apiKeys = options.apiKeys ?? ['fake-key-1', 'fake-key-2', 'fake-key-3']
+    const backend = new FakeGenAIBackend({ rules, defaultResponse })
+
+    super({
+      retryPolicy: { baseDelayMs: 0, maxDelayMs: 0, jitter: false },
+      logger: silentLogger,
+      ...config,
+      apiKeys,
+      clientFactory: (apiKey) => backend.createClient(apiKeys.indexOf(apiKey) + 1),
+    })
+    this.backend = backend
+  }
+
+  /** 스크립트 규칙 추가 */
+  script(rule: FakeRule): this {
+    this.backend.addRule(rule)
+    return this
+  }
+
+  /** 받은 요청 목록 */
+  getCalls(): FakeRequest[] {
+    return this.backend.getCalls()
+  }
+}
+
+/** SDK 메서드 인자 (가짜 클라이언트가 읽는 부분만) */
+interface SdkParams {
+  model: string
+  contents: unknown
+  config?: { abortSignal?: AbortSignal } & Record<string, unknown>
+}
+
+/** API TTL 문자열 (예: '3600s') → ms (기본: 1시간) */
+function parseTtl(ttl: unknown): number {
+  const seconds = typeof ttl === 'string' ? Number.parseFloat(ttl) : NaN
+  return Number.isNaN(seconds) ? 60 * 60 * 1000 : seconds * 1000
+}
+
+/** 규칙 매칭 여부 */
+function matchesRule(rule: FakeRule, request: FakeRequest): boolean {
+  if (rule.method && rule.method !== request.method) return false
+  if (rule.model && rule.model !== request.model) return false
+  if (rule.keyIndex !== undefined && rule.keyIndex !== request.keyIndex) return false
+
+  const { match } = rule
+  if (match === undefined) return true
+  if (typeof match === 'string') return request.prompt.includes(match)
+  if (match instanceof RegExp) return match.test(request.prompt)
+  return match(request)
+}
+
+/** contents(문자열, 파트, Content 배열)에서 텍스트만 추출 */
+export function extractPromptText(contents: unknown): string {
+  if (typeof contents === 'string') return contents
+  if (Array.isArray(contents)) {
+    return contents.map(extractPromptText).filter(Boolean).join('\n')
+  }
+  if (contents && typeof contents === 'object') {
+    if ('text' in contents && typeof contents.text === 'string') return contents.text
+    if ('parts' in contents) return extractPromptText(contents.parts)
+  }
+  return ''
+}
+
+/** 생성 응답 객체 생성 (SDK와 같은 클래스라 text 게터 동작) */
+function toGenerateResponse(
+  response: FakeResponse,
+  request: FakeRequest,
+  text: string
+): GenerateContentResponse {
+  const result = new GenerateContentResponse()
+
+  if (response.blockReason) {
+    result.promptFeedback = { blockReason: response.blockReason as BlockedReason }
+  } else {
+    const functionCallParts = (response.functionCalls ?? []).map((call, i) => ({
+      functionCall: { id: `fake-call-${i + 1}`, name: call.name, args: call.args ?? {} },
+    }))
+    result.candidates = [
+      {
+        content: {
+          role: 'model',
+          parts: [...(text ? [{ text }] : []), ...functionCallParts],
+        },
+        finishReason: (response.finishReason as FinishReason | undefined) ?? FinishReason.STOP,
+      },
+    ]
+  }
+
+  const promptTokens = response.usage?.promptTokens ?? estimateTokens(request.prompt)
+  const candidatesTokens = response.usage?.candidatesTokens ?? estimateTokens(text)
+  result.usageMetadata = {
+    promptTokenCount: promptTokens,
+    candidatesTokenCount: candidatesTokens,
+    totalTokenCount: promptTokens + candidatesTokens,
+  }
+
+  return result
+}
+
+/** 스트리밍 응답 (청크 사이에도 취소 신호 확인) */
+async function* streamResponse(
+  response: FakeResponse,
+  request: FakeRequest,
+  signal?: AbortSignal
+): AsyncGenerator<GenerateContentResponse> {
+  const chunks = response.chunks ?? [response.text ?? '']
+  for (const chunk of chunks) {
+    signal?.throwIfAborted()
+    yield toGenerateResponse(response, request, chunk)
+  }
+
+  if (response.streamError) {
+    throw new ApiError({
+      status: response.streamError.status,
+      message: response.streamError.message ?? `HTTP ${response.streamError.status}`,
+    })
+  }
+}
+
+/**
+ * 임베딩 응답 (contents가 배열이면 항목마다 하나씩)
+ * 출력 차원 지정 시 실제 API처럼 앞부분만 잘라 정규화하지 않은 벡터를 돌려준다.
+ */
+function toEmbedResponse(
+  response: FakeResponse,
+  contents: unknown,
+  outputDimensionality?: unknown
+): EmbedContentResponse {
+  const inputs = Array.isArray(contents) ? contents : [contents]
+  const dimensions =
+    typeof outputDimensionality === 'number' ? outputDimensionality : undefined
+  const result = new EmbedContentResponse()
+  result.embeddings = inputs.map((input) => {
+    const values =
+      response.embedding ??
+      createFakeEmbedding(
+        extractPromptText(input),
+        Math.max(FAKE_EMBEDDING_DIMENSIONS, dimensions ?? 0)
+      )
+    return { values: dimensions !== undefined ? values.slice(0, dimensions) : values }
+  })
+  return result
+}
@@ -1,357 +1,2618 @@
 // packages/ai-core/src/gemini-client.ts
-// Gemini API 클라이언트 - 6가지 폴백 시스템 (3키 × 2모델)
+// Gemini API 클라이언트 - 키 × 모델 티어 폴백 시스템 (기본: 3키 × Pro/Flash 6가지)
 // 설정 주입 방식으로 재사용 가능하게 설계
 
-import { GoogleGenAI } from '@google/genai'
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GoogleGenAI,
+  type Content,
+  type FunctionDeclaration,
+  type GenerateContentConfig,
+  type GenerateContentResponse,
+  type SafetyRating,
+} from '@google/genai'
 
+import {
+  createAttemptSignal,
+  createDeadline,
+  iterateWithSignal,
+  raceWithSignal,
+  toAbortError,
+} from './abort'
+import {
+  GeminiAbortError,
+  GeminiBlockedError,
+  GeminiError,
+  GeminiTruncatedError,
+  StructuredOutputError,
+  ToolLoopError,
+} from './errors'
+import { ContextCacheManager, toContextCache } from './context-cache'
+import { EmbeddingCacheManager } from './embedding-cache'
+import { GeminiProvider } from './gemini-provider'
+import { mergeGenerationSettings, toGenerateContentConfig } from './generation-config'
+import {
+  InMemoryKeyHealthStore,
+  applyKeyHealthFailure,
+  createKeyHealthId,
+  getKeyFingerprint,
+  maskApiKey,
+} from './key-health-store'
+import { createConsoleLogger, toErrorMessage } from './logger'
+import { InlineDataUploader, toMultimodalContents } from './multimodal'
+import { RateLimiter, Semaphore } from './rate-limiter'
+import {
+  DEFAULT_RESPONSE_CACHE_TTL,
+  InMemoryResponseCache,
+  ResponseCacheMetrics,
+  createResponseCacheKey,
+} from './response-cache'
+import { estimatePromptTokens } from './tokens'
+import type { ToolRegistry } from './tools'
+import { UsageTracker, extractUsageTokens } from './usage'
+import {
+  DEFAULT_RETRY_POLICY,
+  classifyGeminiError,
+  computeBackoffDelay,
+  sleep,
+  type ClassifiedError,
+} from './retry-policy'
+import {
+  buildRepairPrompt,
+  parseStructured,
+  toResponseJsonSchema,
+} from './structured-output'
 import type {
+  GeminiAttempt,
   GeminiModel,
   KeyModelStatus,
   AICoreConfig,
+  AttemptEvent,
+  CachedResponse,
+  ContextCache,
+  ContextCacheOptions,
+  CountTokensOptions,
+  EmbeddingCacheStats,
+  ExecuteOptions,
+  FallbackOptions,
+  GeminiClientHooks,
   GenerateOptions,
+  GenerationSettings,
+  KeyErrorEntry,
+  KeyFallbackOptions,
+  KeyHealthFailure,
+  KeyHealthRecord,
+  KeyHealthStore,
+  KeyPoolConfig,
+  KeyProbeResult,
+  KeyProbeStatus,
+  KeyStatusEntry,
+  KeyStatusSnapshot,
+  LLMProvider,
+  Logger,
+  ModelTierConfig,
+  MultimodalPart,
+  ProbeKeysOptions,
+  PromptInput,
+  ProviderGenerateRequest,
+  ProviderResponse,
+  ResponseCacheStats,
+  ResponseCacheStore,
+  RetryPolicy,
+  RunWithToolsOptions,
+  StreamChunk,
+  StructuredGenerateOptions,
+  StructuredSchema,
+  TokenCount,
+  ToolCallingMode,
+  ToolCallRecord,
+  ToolRunResult,
+  UsageOperation,
+  UsageSummary,
+  UsageTokens,
 } from './types'
 
 // 모델 티어 정의
 export const MODEL_TIERS = {
   PRO: 'gemini-2.5-pro' as const,
   FLASH: 'gemini-2.5-flash' as const,
+  FLASH_LITE: 'gemini-2.5-flash-lite' as const,
+}
+
+/** 기본 티어 구성 (1군 Pro → 2군 Flash) */
+export const DEFAULT_MODEL_TIERS: ModelTierConfig[] = [
+  { name: 'pro', models: [MODEL_TIERS.PRO] },
+  { name: 'flash', models: [MODEL_TIERS.FLASH] },
+]
+
+/** 키+모델 조합 비활성화 기준 에러 횟수 (기본값) */
+const DEFAULT_MAX_ERROR_COUNT = 3
+
+/** 비활성화된 조합 복구 시간 (기본값) */
+const DEFAULT_RECOVERY_MS = 5 * 60 * 1000
+
+/** 키 상태 저장소 재조회/사용 시각 저장 간격 (그 사이에는 메모리 상태 사용, 실패는 바로 저장소에 반영) */
+const HEALTH_REFRESH_MS = 5 * 1000
+
+/** 도구 실행 루프 최대 모델 턴 수 (기본값) */
+const DEFAULT_MAX_TOOL_ITERATIONS = 5
+
+/** 기본 키 없이 키 풀만 설정한 클라이언트를 풀 지정 없이 호출한 경우 */
+const NO_KEYS_MESSAGE = '이 클라이언트에는 API 키가 없습니다. pool 옵션이나 forPool()로 키 풀을 지정하세요.'
+
+/** 조합별로 보관할 최근 오류 수 */
+const MAX_RECENT_ERRORS = 5
+
+/** 키 점검 기본값 (조합당 제한 시간, 동시 점검 수) */
+const DEFAULT_PROBE_TIMEOUT_MS = 10_000
+const DEFAULT_PROBE_CONCURRENCY = 4
+
+/** 키 점검 요청 본문 */
+const PROBE_CONTENTS: Content[] = [{ role: 'user', parts: [{ text: 'ping' }] }]
+
+/** 키+모델 조합 내부 상태 (저장소와 동기화) */
+interface KeyModelState {
+  key: string
+  model: GeminiModel
+  tier: number
+  tierName: string
+  /** 외부 공급자 (없으면 key의 Gemini 키로 요청) */
+  provider?: LLMProvider
+  /** 저장소 ID (키 지문:모델) */
+  healthId: string
+  errorCount: number
+  cooldownUntil?: Date
+  lastUsed?: Date
+  /** 마지막 사용 시각을 저장소에 저장한 시각 (성공 시 저장 간격 제한용) */
+  lastUseSavedAt?: number
+  /** 이 인스턴스에서의 사용 횟수 (같은 ms에 사용된 조합 간 순서 결정용) */
+  useCount: number
+  /** 최근 오류 (최신순, 저장소에는 저장하지 않음) */
+  recentErrors: KeyErrorEntry[]
+  lastSuccessAt?: Date
+  lastProbe?: KeyProbeResult
+}
+
+/** 한 번의 폴백 실행 동안의 시도 상태 */
+interface FallbackState {
+  operation: UsageOperation
+  feature?: string
+  attempts: GeminiAttempt[]
+  /** 재시도 가능 오류 횟수 (백오프 지수) */
+  retryableCount: number
+  /** 다음 시도 전 대기 시간 */
+  nextDelayMs: number
+  /** 레이트 리밋(TPM)용 예상 입력 토큰 */
+  estimatedTokens: number
+  /** 실행 전체 취소 신호 (호출 측 신호 + 전체 제한 시간) */
+  signal: AbortSignal
+  /** 현재 시도의 취소 신호 (실행 신호 + 시도 제한 시간) - SDK abortSignal로 전달 */
+  attemptSignal: AbortSignal
+  /** 현재 시도 정보 (로그 필드 및 훅 이벤트) */
+  current?: AttemptEvent
+  /** 현재 시도 시작 시각 */
+  attemptStartedAt: number
+}
+
+/** 한 번의 호출에 대한 응답 캐시 조회/저장 정보 */
+interface ResponseCacheContext {
+  /** use: 조회+저장, refresh: 저장만, off: 사용 안 함 */
+  mode: 'use' | 'refresh' | 'off'
+  feature?: string
+  /** 캐시 키 (응답한 모델과 무관하게 요청 대상 기준, off면 빈 문자열) */
+  key: string
+}
+
+/** 공급자와 무관한 생성 응답 (차단/잘림 판정 + 사용량 기록용) */
+interface GenerateResult {
+  text: string
+  outcome: ResponseOutcome
+  usage?: UsageTokens
+}
+
+/** 요청 1회분 입력 (컨텍스트 캐시 사용 여부에 따라 구성이 달라짐) */
+interface PreparedRequest {
+  contents: PromptInput
+  systemInstruction?: string
+  /** 원격 컨텍스트 캐시 이름 (사용 시 시스템 인스트럭션은 캐시에 포함) */
+  cachedContent?: string
+}
+
+/** 사용량 기록 대상 호출 정보 */
+interface UsageCall {
+  key: string
+  model: GeminiModel
+  operation: UsageOperation
+  feature?: string
+  startedAt: number
+  /** 레이트 리밋에 미리 반영한 예상 입력 토큰 */
+  estimatedTokens: number
 }
 
 /** GeminiClient 클래스 - 설정 주입 기반 */
 export class GeminiClient {
   private apiKeys: string[]
-  private keyModelStatuses: KeyModelStatus[]
+  private tiers: ModelTierConfig[]
+  private keyModelStatuses: KeyModelState[]
+  private healthLoadedAt = 0
   private clientCache = new Map<string, GoogleGenAI>()
+  private geminiProviders = new Map<string, GeminiProvider>()
+  private clientFactory: (apiKey: string) => GoogleGenAI
+  private retryPolicy: Required<RetryPolicy>
+  private maxRetries?: number
+  private healthStore: KeyHealthStore
+  private usage: UsageTracker
+  private rateLimiter: RateLimiter
+  private semaphore: Semaphore
+  private logger: Logger
+  private hooks: GeminiClientHooks
+  private uploader: InlineDataUploader
+  private generation?: GenerationSettings
+  private cacheEnabled: boolean
+  private cacheTTL: number
+  private cacheStore: ResponseCacheStore
+  private cacheMetrics = new ResponseCacheMetrics()
+  private contextCaches: ContextCacheManager
+  private embeddingCache: EmbeddingCacheManager
+  private pool?: string
+  private pools: Map<string, GeminiClient>
 
   constructor(config: AICoreConfig) {
     this.apiKeys = config.apiKeys.filter((key) => Boolean(key))
+    this.tiers = resolveTiers(config)
+    this.pool = config.pool
+    this.pools = new Map(
+      Object.entries(config.pools ?? {}).map(([name, pool]) => [
+        name,
+        new GeminiClient(toPoolConfig(config, name, pool)),
+      ])
+    )
 
-    if (this.apiKeys.length === 0) {
+    // 외부 공급자만 쓰는 구성(로컬 개발 등)이나 키 풀만 쓰는 구성은 기본 키 없이도 생성 가능
+    if (
+      this.apiKeys.length === 0 &&
+      this.pools.size === 0 &&
+      this.tiers.some((tier) => !tier.provider)
+    ) {
       throw new Error('최소 하나의 API 키가 필요합니다.')
     }
 
-    // 6가지 조합 상태 초기화 (1군 Pro 3개 + 2군 Flash 3개)
-    this.keyModelStatuses = [
-      // 1군: Pro (우선 사용)
-      ...this.apiKeys.map((key) => ({
-        key,
-        model: MODEL_TIERS.PRO,
-        tier: 1 as const,
-        available: true,
-        errorCount: 0,
-      })),
-      // 2군: Flash (Pro 실패 시 폴백)
-      ...this.apiKeys.map((key) => ({
-        key,
-        model: MODEL_TIERS.FLASH,
-        tier: 2 as const,
-        available: true,
-        errorCount: 0,
-      })),
-    ]
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy }
+    this.maxRetries = config.maxRetries
+    this.healthStore = config.healthStore ?? new InMemoryKeyHealthStore()
+    this.logger = config.logger ?? createConsoleLogger()
+    this.hooks = config.hooks ?? {}
+    this.clientFactory = config.clientFactory ?? ((apiKey) => new GoogleGenAI({ apiKey }))
+    this.uploader = new InlineDataUploader(config.inlineLimitBytes)
+    this.generation = config.generation
+    this.cacheEnabled = config.cacheEnabled ?? false
+    this.cacheTTL = config.cacheTTL ?? DEFAULT_RESPONSE_CACHE_TTL
+    this.cacheStore = config.cacheStore ?? new InMemoryResponseCache()
+    this.contextCaches = new ContextCacheManager(this.logger)
+    this.embeddingCache = new EmbeddingCacheManager({
+      enabled: config.embeddingCacheEnabled,
+      store: config.embeddingCacheStore,
+      logger: this.logger,
+    })
+    this.usage = new UsageTracker({
+      priceTable: config.priceTable,
+      recorder: config.usageRecorder,
+      logger: this.logger,
+      pool: this.pool,
+    })
+    this.rateLimiter = new RateLimiter(config.rateLimits)
+    this.semaphore = new Semaphore(config.rateLimits?.maxConcurrency)
+
+    // 키 × 모델 조합 상태 초기화 (티어 순서대로, 기본: 1군 Pro 3개 + 2군 Flash 3개)
+    // 외부 공급자 티어는 공급자 × 모델 조합
+    this.keyModelStatuses = this.tiers.flatMap((tier, i) =>
+      tier.models.flatMap((model) =>
+        tier.provider
+          ? [createProviderModelState(tier.provider, model, i + 1, tier.name)]
+          : this.apiKeys.map((key) => createKeyModelState(key, model, i + 1, tier.name))
+      )
+    )
+  }
+
+  /** 티어 이름 또는 순번을 1부터 시작하는 순번으로 변환 */
+  private resolveTierIndex(tier: string | number): number {
+    const index =
+      typeof tier === 'number'
+        ? tier
+        : this.tiers.findIndex((t) => t.name.toLowerCase() === tier.toLowerCase()) + 1
+
+    if (index < 1 || index > this.tiers.length) {
+      throw new Error(`알 수 없는 모델 티어입니다: ${tier}`)
+    }
+    return index
+  }
+
+  /** 모델을 지정하지 않은 호출의 기준 모델 (티어의 첫 모델, 기본: 1군 티어) */
+  private resolveTierModel(tier: string | number = 1): GeminiModel {
+    const model = this.tiers[this.resolveTierIndex(tier) - 1]?.models[0]
+    if (!model) {
+      throw new Error(`모델 티어 '${tier}'에 모델이 없습니다.`)
+    }
+    return model
+  }
+
+  /** 조합이 속한 티어의 에러/복구 설정 */
+  private getTierOptions(
+    status: KeyModelState
+  ): { maxErrorCount: number; recoveryMs: number } {
+    const tier = this.tiers[status.tier - 1]
+    return {
+      maxErrorCount: tier?.maxErrorCount ?? DEFAULT_MAX_ERROR_COUNT,
+      recoveryMs: tier?.recoveryMs ?? DEFAULT_RECOVERY_MS,
+    }
+  }
+
+  /** 조합 사용 가능 여부 */
+  private isUsable(status: KeyModelState, now = Date.now()): boolean {
+    return (
+      !isCoolingDown(status, now) &&
+      status.errorCount < this.getTierOptions(status).maxErrorCount
+    )
+  }
+
+  /**
+   * 호출 시 지정된 모델이 티어에 없으면 임시 조합(tier 0) 추가
+   */
+  private ensureModelStatuses(model: GeminiModel): void {
+    if (this.keyModelStatuses.some((s) => s.model === model)) return
+
+    this.keyModelStatuses.push(
+      ...this.apiKeys.map((key) => createKeyModelState(key, model, 0, 'custom'))
+    )
+    this.healthLoadedAt = 0
+  }
+
+  /**
+   * 저장소의 최신 상태 반영 (저장소 오류 시 메모리 상태로 계속)
+   * 재조회 간격 안에서는 저장소를 건너뛴다 (force 지정 시 항상 조회).
+   */
+  private async loadKeyHealth(force = false): Promise<void> {
+    if (!force && Date.now() - this.healthLoadedAt < HEALTH_REFRESH_MS) return
+
+    try {
+      const records = await this.healthStore.getMany(
+        this.keyModelStatuses.map((s) => s.healthId)
+      )
+      for (const status of this.keyModelStatuses) {
+        const record = records.get(status.healthId)
+        if (record) {
+          applyHealthRecord(status, record)
+        }
+      }
+      this.healthLoadedAt = Date.now()
+    } catch (error) {
+      this.logger.warn('키 상태 저장소 조회 실패', { error: toErrorMessage(error) })
+    }
+  }
+
+  /** 조합 상태 저장 (저장소 오류가 생성 요청을 막지 않도록 로그만 남김) */
+  private async saveKeyHealth(statuses: KeyModelState[]): Promise<void> {
+    try {
+      await Promise.all(
+        statuses.map((s) => this.healthStore.set(s.healthId, toHealthRecord(s)))
+      )
+    } catch (error) {
+      this.logger.warn('키 상태 저장소 저장 실패', { error: toErrorMessage(error) })
+    }
   }
 
-  /** 사용 가능한 키+모델 조합 선택 */
+  /**
+   * 조건에 맞는 사용 가능한 키+모델 조합 선택
+   * 동시 요청이 같은 조합을 고르지 않도록 선택부터 예약(사용 기록)까지 동기로 처리한다.
+   */
   private selectAvailableKeyModel(
-    preferredTier?: 1 | 2
-  ): KeyModelStatus | null {
-    const tier1 = this.keyModelStatuses.filter(
-      (s) => s.tier === 1 && s.available && s.errorCount < 3
+    filter: (status: KeyModelState) => boolean,
+    estimatedTokens = 0
+  ): KeyModelState | null {
+    const now = Date.now()
+    this.keyModelStatuses.forEach((s) => recoverExpiredCooldown(s, now))
+
+    const candidates = this.keyModelStatuses.filter(
+      (s) => filter(s) && this.isUsable(s, now)
     )
-    const tier2 = this.keyModelStatuses.filter(
-      (s) => s.tier === 2 && s.available && s.errorCount < 3
+
+    if (candidates.length === 0) return null
+
+    // 레이트 리밋 여유가 있는 조합 우선, 같으면 라운드 로빈 (가장 오래 안 쓴 것)
+    const waitMs = new Map(
+      candidates.map((s) => [
+        s,
+        this.rateLimiter.getWaitMs(s.healthId, s.model, estimatedTokens, now),
+      ])
+    )
+    candidates.sort((a, b) => {
+      const aTime = a.lastUsed?.getTime() ?? 0
+      const bTime = b.lastUsed?.getTime() ?? 0
+      return (
+        (waitMs.get(a) ?? 0) - (waitMs.get(b) ?? 0) ||
+        aTime - bTime ||
+        a.useCount - b.useCount
+      )
+    })
+
+    return candidates[0] ?? null
+  }
+
+  /** 조건에 맞는 조합 중 쿨다운이 가장 먼저 끝나는 시각 (쿨다운 중인 조합이 없으면 undefined) */
+  private findEarliestRecovery(
+    filter: (status: KeyModelState) => boolean
+  ): Date | undefined {
+    const now = Date.now()
+    return this.keyModelStatuses
+      .filter((s) => filter(s) && isCoolingDown(s, now))
+      .map((s) => s.cooldownUntil!)
+      .reduce<Date | undefined>((a, b) => (a && a <= b ? a : b), undefined)
+  }
+
+  /** 키+모델 사용 기록 (메모리만, 저장소에는 성공/실패 반영 시 저장) */
+  private markKeyModelUsed(status: KeyModelState): void {
+    status.lastUsed = new Date()
+    status.useCount++
+  }
+
+  /**
+   * 키+모델 에러 기록
+   * - retryable: 에러 카운트 증가 (3회 누적 시 쿨다운)
+   * - key: 즉시 쿨다운 (인증 실패면 해당 키의 모든 모델)
+   * - request: 키 문제가 아니므로 반영하지 않음
+   * 복구 시각을 타이머 대신 cooldownUntil로 저장해 재시작/다른 인스턴스에서도 유지된다.
+   * 메모리 상태를 먼저 바꾼 뒤 저장소의 원자적 반영 결과로 맞춘다 (동시 실패 횟수 유실 없음).
+   */
+  private async markKeyModelError(
+    key: string,
+    model: GeminiModel,
+    classified: ClassifiedError
+  ): Promise<void> {
+    if (classified.category === 'request') return
+
+    const statuses = this.keyModelStatuses.filter(
+      (s) => s.key === key && (classified.authFailure || s.model === model)
+    )
+
+    await Promise.all(
+      statuses.map(async (status) => {
+        // 기준 횟수 도달 시 복구 시간(기본 5분) 동안 사용 중지,
+        // 서버가 백오프 상한보다 긴 대기를 요구하면 그 시간 동안 사용 중지
+        const failure: KeyHealthFailure = {
+          disable: classified.category === 'key',
+          ...this.getTierOptions(status),
+          retryAfterMs: this.getLongRetryAfterMs(classified),
+        }
+        applyHealthRecord(status, applyKeyHealthFailure(toHealthRecord(status), failure))
+
+        try {
+          const record = await this.healthStore.recordFailure(status.healthId, failure)
+          applyHealthRecord(status, record)
+        } catch (error) {
+          this.logger.warn('키 상태 저장소 저장 실패', { error: toErrorMessage(error) })
+        }
+      })
+    )
+  }
+
+  /**
+   * 성공한 조합의 마지막 사용 시각 저장 (다른 인스턴스의 라운드 로빈용)
+   * 성공마다 쓰지 않도록 조합당 재조회 간격에 한 번만 저장하며, 저장소 오류는 로그만 남긴다.
+   */
+  private async saveKeyModelUse(status: KeyModelState): Promise<void> {
+    const now = Date.now()
+    if (!status.lastUsed || now - (status.lastUseSavedAt ?? 0) < HEALTH_REFRESH_MS) return
+    status.lastUseSavedAt = now
+
+    try {
+      await this.healthStore.recordUse(status.healthId, status.lastUsed)
+    } catch (error) {
+      this.logger.warn('키 상태 저장소 저장 실패', { error: toErrorMessage(error) })
+    }
+  }
+
+  /**
+   * 레이트 리밋 여유가 있는 키 선택 후 요청 1회 반영 (키 폴백용)
+   * 모든 키가 한도에 걸리면 가장 빨리 풀리는 시점까지 기다렸다가 다시 고른다.
+   */
+  private async acquireKeyByRateLimit(
+    keys: string[],
+    model: GeminiModel,
+    estimatedTokens: number,
+    signal: AbortSignal
+  ): Promise<string> {
+    for (;;) {
+      const now = Date.now()
+      const waits = keys.map((key) => ({
+        key,
+        waitMs: this.rateLimiter.getWaitMs(
+          createKeyHealthId(key, model),
+          model,
+          estimatedTokens,
+          now
+        ),
+      }))
+      // 같으면 설정 순서
+      const best = waits.reduce((a, b) => (b.waitMs < a.waitMs ? b : a))
+
+      if (best.waitMs === 0) {
+        this.rateLimiter.take(createKeyHealthId(best.key, model), model, estimatedTokens)
+        return best.key
+      }
+      await sleep(best.waitMs, signal)
+    }
+  }
+
+  /**
+   * 폴백 순서대로 시도할 키+모델 조합 순회
+   * 시작 티어부터 설정된 티어 순서대로 전환하며, 같은 조합은 한 번만 시도.
+   * preferredTier/model 지정 시 해당 티어/모델 안에서만 키를 폴백한다.
+   * 직전 시도가 재시도 가능 오류였다면 백오프만큼 대기 후 다음 조합을 내보낸다.
+   * 조합을 내보내기 전 레이트 리밋 한도와 동시 실행 슬롯을 확보하며,
+   * 슬롯은 호출 측이 다음 조합으로 넘어가거나 순회를 끝낼 때 해제된다.
+   * 취소/전체 제한 시간 초과 시 대기 중이어도 GeminiAbortError로 즉시 중단한다.
+   * geminiOnly 지정 시 외부 공급자 조합은 건너뛴다 (SDK 전용 기능).
+   */
+  private async *fallbackCandidates(
+    state: FallbackState,
+    options: FallbackOptions = {},
+    geminiOnly = false
+  ): AsyncGenerator<KeyModelState> {
+    if (this.keyModelStatuses.length === 0) {
+      throw new Error(NO_KEYS_MESSAGE)
+    }
+
+    const { model, preferredTier, tier } = options
+    const maxRetries =
+      options.maxRetries ?? this.maxRetries ?? this.keyModelStatuses.length
+
+    const fixedTier =
+      preferredTier !== undefined ? this.resolveTierIndex(preferredTier) : undefined
+    let currentTier =
+      fixedTier ?? (tier !== undefined ? this.resolveTierIndex(tier) : 1)
+
+    if (model) {
+      this.ensureModelStatuses(model)
+    }
+
+    await this.loadKeyHealth()
+
+    const canAdvanceTier = (): boolean =>
+      !model && fixedTier === undefined && currentTier < this.tiers.length
+
+    const triedCombos = new Set<string>()
+    let attempts = 0
+
+    const deadline = createDeadline(options.signal, options.timeoutMs)
+    state.signal = deadline.signal
+
+    try {
+      while (attempts < maxRetries) {
+        state.signal.throwIfAborted()
+
+        const keyModel = this.selectAvailableKeyModel(
+          (s) =>
+            (!geminiOnly || !s.provider) &&
+            (model ? s.model === model : s.tier === currentTier),
+          state.estimatedTokens
+        )
+        const comboKey = keyModel ? `${keyModel.key}-${keyModel.model}` : ''
+
+        if (!keyModel || triedCombos.has(comboKey)) {
+          if (canAdvanceTier()) {
+            currentTier++
+            continue
+          }
+          break
+        }
+
+        // 백오프 또는 레이트 리밋 대기 후에는 상태가 바뀌었으므로 다시 선택
+        const waitMs = Math.max(
+          state.nextDelayMs,
+          this.rateLimiter.getWaitMs(keyModel.healthId, keyModel.model, state.estimatedTokens)
+        )
+        if (waitMs > 0) {
+          await sleep(waitMs, state.signal)
+          state.nextDelayMs = 0
+          continue
+        }
+
+        this.rateLimiter.take(keyModel.healthId, keyModel.model, state.estimatedTokens)
+        triedCombos.add(comboKey)
+        attempts++
+        this.markKeyModelUsed(keyModel)
+
+        const release = await this.semaphore.acquire(state.signal)
+        const attempt = createAttemptSignal(state.signal, options.attemptTimeoutMs)
+        state.attemptSignal = attempt.signal
+        try {
+          this.startAttempt(
+            state,
+            keyModel.key,
+            keyModel.model,
+            keyModel.tierName,
+            attempts,
+            keyModel.provider?.name
+          )
+          yield keyModel
+        } finally {
+          attempt.dispose()
+          release()
+        }
+      }
+
+      // 한 번도 시도하지 못한 채 끝났다면 쿨다운을 초기화하지 않고 (키 오류/긴 Retry-After 유지)
+      // 가장 빨리 복구되는 시각과 함께 실패
+      if (attempts === 0) {
+        const recoverAt = this.findEarliestRecovery(
+          (s) => (!geminiOnly || !s.provider) && (!model || s.model === model)
+        )
+        if (recoverAt) {
+          throw new GeminiError(
+            `사용 가능한 API 키와 모델 조합이 없습니다. ${recoverAt.toISOString()} 이후 다시 시도하세요.`,
+            { category: 'retryable', attempts: state.attempts }
+          )
+        }
+      }
+    } catch (error) {
+      // 백오프/레이트 리밋/슬롯 대기 중 취소 또는 전체 제한 시간 초과
+      if (state.signal.aborted) {
+        throw toAbortError(state.signal, state.attempts)
+      }
+      throw error
+    } finally {
+      deadline.dispose()
+    }
+  }
+
+  /**
+   * 시도 실패 처리: 분류 → 기록 → 상태 반영 → 백오프 예약
+   * @param canFallback false면 상태만 반영하고 폴백 보고(로그/onFallback)와 백오프는 생략
+   * @returns 요청 단위 오류면 즉시 던질 GeminiError, 아니면 null (다음 조합으로 계속)
+   */
+  private async handleAttemptFailure(
+    state: FallbackState,
+    keyModel: KeyModelState,
+    error: unknown,
+    canFallback = true
+  ): Promise<GeminiError | null> {
+    // 취소/전체 제한 시간 초과: 키 문제가 아니므로 상태 반영 없이 중단
+    if (state.signal.aborted) {
+      return toAbortError(state.signal, state.attempts)
+    }
+
+    // 시도 제한 시간 초과: SDK의 중단 오류 대신 제한 시간 사유(재시도 가능)로 처리
+    if (state.attemptSignal.aborted) {
+      error = state.attemptSignal.reason
+    }
+
+    const classified = classifyGeminiError(error)
+    const message = toErrorMessage(error)
+    const failure: GeminiAttempt = {
+      keyIndex: this.apiKeys.indexOf(keyModel.key) + 1,
+      provider: keyModel.provider?.name,
+      model: keyModel.model,
+      category: classified.category,
+      status: classified.status,
+      message,
+    }
+
+    state.attempts.push(failure)
+    if (classified.category !== 'request') {
+      recordRecentError(keyModel, {
+        at: new Date(),
+        category: classified.category,
+        status: classified.status,
+        message,
+      })
+    }
+    await this.markKeyModelError(keyModel.key, keyModel.model, classified)
+
+    if (classified.category === 'request') {
+      // 차단/잘림처럼 이미 분류된 오류는 종류를 유지하고 시도 기록만 채움
+      if (error instanceof GeminiError) {
+        error.attempts.push(...state.attempts)
+        return error
+      }
+      return new GeminiError(message, {
+        category: 'request',
+        status: classified.status,
+        attempts: state.attempts,
+        cause: error,
+      })
+    }
+
+    if (!canFallback) return null
+
+    state.nextDelayMs =
+      classified.category === 'retryable' ? this.nextBackoffDelay(state, classified) : 0
+
+    this.reportFallback(state, failure)
+    return null
+  }
+
+  /**
+   * 재시도 가능 오류 후 다음 시도 전 대기 시간
+   * Retry-After가 백오프 상한 안이면 그만큼 기다리고,
+   * 상한을 넘으면 (해당 조합은 쿨다운 처리됨) 기다리지 않고 다음 조합으로 넘어간다.
+   */
+  private nextBackoffDelay(state: FallbackState, classified: ClassifiedError): number {
+    return computeBackoffDelay(
+      state.retryableCount++,
+      this.retryPolicy,
+      this.getLongRetryAfterMs(classified) === undefined ? classified.retryAfterMs : undefined
+    )
+  }
+
+  /** 백오프 상한을 넘는 서버 지정 대기 시간 (없거나 상한 이내면 undefined) */
+  private getLongRetryAfterMs(classified: ClassifiedError): number | undefined {
+    const { retryAfterMs } = classified
+    return retryAfterMs !== undefined && retryAfterMs > this.retryPolicy.maxDelayMs
+      ? retryAfterMs
+      : undefined
+  }
+
+  /** 시도 시작 기록 (로그 + onAttempt 훅) */
+  private startAttempt(
+    state: FallbackState,
+    key: string,
+    model: GeminiModel,
+    tierName: string | undefined,
+    attempt: number,
+    provider?: string
+  ): void {
+    state.attemptStartedAt = Date.now()
+    state.current = {
+      operation: state.operation,
+      feature: state.feature,
+      pool: this.pool,
+      keyIndex: this.apiKeys.indexOf(key) + 1,
+      provider,
+      model,
+      tierName,
+      attempt,
+    }
+
+    this.logger.debug('Gemini API 시도', { ...state.current })
+    this.emit('onAttempt', { ...state.current })
+  }
+
+  /** 시도 실패 후 다음 조합으로 넘어감 (로그 + onFallback 훅) */
+  private reportFallback(state: FallbackState, failure: GeminiAttempt): void {
+    if (!state.current) return
+
+    this.logger.warn('Gemini API 시도 실패, 다음 조합으로 폴백', {
+      ...state.current,
+      category: failure.category,
+      status: failure.status,
+      error: failure.message,
+      delayMs: state.nextDelayMs,
+    })
+    this.emit('onFallback', { ...state.current, failure, delayMs: state.nextDelayMs })
+  }
+
+  /** 시도 성공 (로그 + onSuccess 훅) - 최대 출력 토큰에서 잘린 응답은 경고 로그 */
+  private reportSuccess(
+    state: FallbackState,
+    finishReason?: string,
+    keyModel?: KeyModelState
+  ): void {
+    if (keyModel) {
+      keyModel.lastSuccessAt = new Date()
+      void this.saveKeyModelUse(keyModel)
+    }
+    if (!state.current) return
+
+    const latencyMs = Date.now() - state.attemptStartedAt
+    if (finishReason === FinishReason.MAX_TOKENS) {
+      this.logger.warn('Gemini 응답이 최대 출력 토큰에서 잘림', { ...state.current, latencyMs })
+    } else {
+      this.logger.debug('Gemini API 성공', { ...state.current, latencyMs, finishReason })
+    }
+    this.emit('onSuccess', { ...state.current, latencyMs, finishReason })
+  }
+
+  /** 생성 설정 결정 (클라이언트 기본값 ← 호출별 설정) */
+  private resolveGenerationConfig(
+    generation: GenerationSettings | undefined
+  ): GenerateContentConfig {
+    return toGenerateContentConfig(mergeGenerationSettings(this.generation, generation))
+  }
+
+  /**
+   * 실행 최종 실패 (로그 + onError 훅)
+   * @returns 호출 측에 그대로 던질 수 있도록 받은 오류를 반환
+   */
+  private reportFailure(state: FallbackState, error: unknown): unknown {
+    const failure = error instanceof Error ? error : new Error(String(error))
+    const classified = failure instanceof GeminiError ? failure : undefined
+
+    this.logger.error('Gemini API 실패', {
+      operation: state.operation,
+      feature: state.feature,
+      category: classified?.category,
+      status: classified?.status,
+      attempts: state.attempts.length,
+      error: failure.message,
+    })
+    this.emit('onError', {
+      operation: state.operation,
+      feature: state.feature,
+      error: failure,
+      attempts: state.attempts,
+    })
+    return error
+  }
+
+  /** 훅 호출 (훅 오류가 요청을 실패시키지 않도록 로그만 남김) */
+  private emit<K extends keyof GeminiClientHooks>(
+    name: K,
+    event: Parameters<NonNullable<GeminiClientHooks[K]>>[0]
+  ): void {
+    const hook = this.hooks[name] as ((payload: typeof event) => void) | undefined
+    if (!hook) return
+
+    try {
+      hook(event)
+    } catch (error) {
+      this.logger.warn('훅 실행 실패', { hook: name, error: toErrorMessage(error) })
+    }
+  }
+
+  /** 성공한 호출의 사용량 기록 + 레이트 리밋 토큰을 실제 사용량으로 보정 */
+  private recordUsage(call: UsageCall, tokens: UsageTokens | undefined): void {
+    this.usage.record({
+      feature: call.feature,
+      operation: call.operation,
+      model: call.model,
+      keyIndex: this.apiKeys.indexOf(call.key) + 1,
+      latencyMs: Date.now() - call.startedAt,
+      tokens,
+    })
+
+    if (tokens && !tokens.estimated) {
+      this.rateLimiter.adjustTokens(
+        createKeyHealthId(call.key, call.model),
+        call.model,
+        tokens.promptTokens - call.estimatedTokens
+      )
+    }
+  }
+
+  /** 인라인 데이터가 한도를 넘으면 이 키의 Files API로 업로드한 contents로 교체 */
+  private prepareContents(
+    prompt: PromptInput,
+    key: string,
+    state: FallbackState
+  ): Promise<PromptInput> {
+    return raceWithSignal(
+      this.uploader.prepare(
+        prompt,
+        this.getClient(key),
+        getKeyFingerprint(key),
+        state.attemptSignal
+      ),
+      state.attemptSignal
+    )
+  }
+
+  /**
+   * 요청 입력 구성
+   * 컨텍스트 캐시를 이 키+모델에서 쓸 수 있으면 캐시 이름을, 아니면 캐시 내용을 입력 앞에 직접 붙인다.
+   */
+  private async prepareRequest(
+    prompt: PromptInput,
+    keyModel: KeyModelState,
+    state: FallbackState,
+    options: GenerateOptions,
+    useContextCache = true
+  ): Promise<PreparedRequest> {
+    const contents = await this.prepareContents(prompt, keyModel.key, state)
+    const { contextCache } = options
+    if (!contextCache) {
+      return { contents, systemInstruction: options.systemInstruction }
+    }
+
+    if (useContextCache) {
+      const cachedContent = await raceWithSignal(
+        this.contextCaches.resolve(
+          contextCache,
+          keyModel.model,
+          this.getClient(keyModel.key),
+          getKeyFingerprint(keyModel.key),
+          state.attemptSignal
+        ),
+        state.attemptSignal
+      )
+      if (cachedContent) {
+        return { contents, cachedContent }
+      }
+    }
+
+    return {
+      contents: [...contextCache.contents, ...toContents(contents)],
+      systemInstruction: contextCache.systemInstruction,
+    }
+  }
+
+  /**
+   * 컨텍스트 캐시를 적용해 요청
+   * 캐시를 사용한 요청이 캐시 문제(만료, 권한, 미지원 설정)로 거부되면 캐시를 무효화하고 같은 키+모델로 캐시 없이 다시 보낸다.
+   */
+  private async sendWithContextCache<T>(
+    prompt: PromptInput,
+    keyModel: KeyModelState,
+    state: FallbackState,
+    options: GenerateOptions,
+    send: (request: PreparedRequest) => Promise<T>
+  ): Promise<T> {
+    const request = await this.prepareRequest(prompt, keyModel, state, options)
+    if (!request.cachedContent || !options.contextCache) {
+      return send(request)
+    }
+
+    try {
+      return await send(request)
+    } catch (error) {
+      const { category, status } = classifyGeminiError(error)
+      const cacheRejected =
+        category === 'request' || status === 400 || status === 403 || status === 404
+      if (state.attemptSignal.aborted || !cacheRejected) throw error
+
+      this.contextCaches.invalidate(
+        options.contextCache,
+        keyModel.model,
+        getKeyFingerprint(keyModel.key),
+        status
+      )
+      this.logger.warn('Gemini 컨텍스트 캐시 요청 실패 - 캐시 없이 재요청', {
+        ...state.current,
+        status,
+        error: toErrorMessage(error),
+      })
+      return send(await this.prepareRequest(prompt, keyModel, state, options, false))
+    }
+  }
+
+  /**
+   * 응답 캐시 컨텍스트 생성
+   * 키는 요청 대상(지정 모델 또는 시작 티어), 시스템 인스트럭션, 입력 contents(업로드 전 원본),
+   * 생성 설정(+ 스키마)으로 구성된다. 폴백 티어가 응답해도 같은 키에 저장되어 다음 호출에서 적중한다.
+   */
+  private createCacheContext(
+    operation: UsageOperation,
+    prompt: PromptInput,
+    options: GenerateOptions,
+    config: object
+  ): ResponseCacheContext {
+    const enabled = options.cache ?? this.cacheEnabled
+    const mode = enabled === 'refresh' ? 'refresh' : enabled ? 'use' : 'off'
+    if (mode === 'off') {
+      return { mode, feature: options.feature, key: '' }
+    }
+
+    const { model, preferredTier } = options
+    const tier = model
+      ? undefined
+      : this.tiers[this.resolveTierIndex(preferredTier ?? options.tier ?? 1) - 1]?.name
+
+    return {
+      mode,
+      feature: options.feature,
+      key: createResponseCacheKey({
+        operation,
+        model,
+        tier,
+        fixedTier: tier !== undefined && preferredTier !== undefined ? true : undefined,
+        systemInstruction: options.systemInstruction,
+        contextCache: options.contextCache?.id,
+        contents: toContents(prompt),
+        config,
+      }),
+    }
+  }
+
+  /** 응답 캐시 조회 (저장소 오류는 미적중 처리) */
+  private async readResponseCache(
+    cache: ResponseCacheContext,
+    accept: (cached: CachedResponse) => boolean = () => true
+  ): Promise<CachedResponse | null> {
+    if (cache.mode !== 'use') return null
+
+    try {
+      const cached = await this.cacheStore.get(cache.key)
+      if (cached && accept(cached)) {
+        this.cacheMetrics.recordLookup(true, cache.feature)
+        this.logger.debug('Gemini 응답 캐시 적중', {
+          feature: cache.feature,
+          model: cached.model,
+        })
+        return cached
+      }
+    } catch (error) {
+      this.cacheMetrics.recordError()
+      this.logger.warn('응답 캐시 조회 실패', { error: toErrorMessage(error) })
+    }
+
+    this.cacheMetrics.recordLookup(false, cache.feature)
+    return null
+  }
+
+  /** 응답 캐시 저장 (잘린 응답 제외, 저장소 오류는 로그만 남김) */
+  private async writeResponseCache(
+    cache: ResponseCacheContext,
+    model: GeminiModel,
+    text: string,
+    finishReason: string | undefined
+  ): Promise<void> {
+    if (cache.mode === 'off' || finishReason === FinishReason.MAX_TOKENS) return
+
+    try {
+      await this.cacheStore.set(
+        cache.key,
+        { text, model, finishReason, cachedAt: Date.now() },
+        this.cacheTTL
+      )
+      this.cacheMetrics.recordWrite()
+    } catch (error) {
+      this.cacheMetrics.recordError()
+      this.logger.warn('응답 캐시 저장 실패', { error: toErrorMessage(error) })
+    }
+  }
+
+  /**
+   * 외부 공급자 요청 구성
+   * 컨텍스트 캐시는 내용을 입력 앞에 직접 붙이고, 인라인 데이터는 업로드 없이 그대로 보낸다.
+   */
+  private toProviderRequest(
+    prompt: PromptInput,
+    model: GeminiModel,
+    state: FallbackState,
+    options: GenerateOptions,
+    responseJsonSchema?: unknown
+  ): ProviderGenerateRequest {
+    const { contextCache } = options
+    return {
+      model,
+      contents: contextCache
+        ? [...contextCache.contents, ...toContents(prompt)]
+        : toContents(prompt),
+      systemInstruction: contextCache?.systemInstruction ?? options.systemInstruction,
+      generation: mergeGenerationSettings(this.generation, options.generation),
+      responseJsonSchema: responseJsonSchema as object | undefined,
+      signal: state.attemptSignal,
+    }
+  }
+
+  /** 생성 요청 1회 (Gemini 키는 SDK + 컨텍스트 캐시, 외부 공급자는 LLMProvider) */
+  private async sendGenerate(
+    prompt: PromptInput,
+    keyModel: KeyModelState,
+    state: FallbackState,
+    options: GenerateOptions,
+    config: GenerateContentConfig
+  ): Promise<GenerateResult> {
+    const { provider } = keyModel
+    if (provider) {
+      const request = this.toProviderRequest(
+        prompt,
+        keyModel.model,
+        state,
+        options,
+        config.responseJsonSchema
+      )
+      return fromProviderResponse(
+        await raceWithSignal(provider.generate(request), state.attemptSignal)
+      )
+    }
+
+    const client = this.getClient(keyModel.key)
+    const response = await this.sendWithContextCache(
+      prompt,
+      keyModel,
+      state,
+      options,
+      (request) =>
+        raceWithSignal(
+          client.models.generateContent({
+            model: keyModel.model,
+            contents: request.contents,
+            config: {
+              ...config,
+              systemInstruction: request.systemInstruction,
+              cachedContent: request.cachedContent,
+              abortSignal: state.attemptSignal,
+            },
+          }),
+          state.attemptSignal
+        )
+    )
+    return {
+      text: response.text ?? '',
+      outcome: getResponseOutcome(response),
+      usage: extractUsageTokens(response),
+    }
+  }
+
+  /** 스트리밍 요청 1회 (청크는 공급자와 무관한 형식으로 변환) */
+  private async sendStream(
+    prompt: PromptInput,
+    keyModel: KeyModelState,
+    state: FallbackState,
+    options: GenerateOptions,
+    config: GenerateContentConfig
+  ): Promise<AsyncIterable<GenerateResult>> {
+    const { provider } = keyModel
+    if (provider) {
+      const request = this.toProviderRequest(prompt, keyModel.model, state, options)
+      return mapAsync(provider.stream(request), (chunk) =>
+        fromProviderResponse({ ...chunk, text: chunk.text ?? '' })
+      )
+    }
+
+    const client = this.getClient(keyModel.key)
+    const stream = await this.sendWithContextCache(
+      prompt,
+      keyModel,
+      state,
+      options,
+      (request) =>
+        raceWithSignal(
+          client.models.generateContentStream({
+            model: keyModel.model,
+            contents: request.contents,
+            config: {
+              ...config,
+              systemInstruction: request.systemInstruction,
+              cachedContent: request.cachedContent,
+              abortSignal: state.attemptSignal,
+            },
+          }),
+          state.attemptSignal
+        )
+    )
+    return mapAsync(stream, (chunk) => ({
+      text: chunk.text ?? '',
+      outcome: getResponseOutcome(chunk),
+      usage: extractUsageTokens(chunk),
+    }))
+  }
+
+  /** 호출 옵션이 다른 키 풀을 지정하면 해당 풀 클라이언트 */
+  private poolFor(options: { pool?: string }): GeminiClient | undefined {
+    const { pool } = options
+    return pool !== undefined && pool !== this.pool ? this.forPool(pool) : undefined
+  }
+
+  /** Gemini 키의 공급자 (executeWithProvider용, 키별 SDK 클라이언트 공유) */
+  private getGeminiProvider(apiKey: string): GeminiProvider {
+    let provider = this.geminiProviders.get(apiKey)
+    if (!provider) {
+      provider = new GeminiProvider({ client: this.getClient(apiKey) })
+      this.geminiProviders.set(apiKey, provider)
+    }
+    return provider
+  }
+
+  /** GoogleGenAI 클라이언트 가져오기 */
+  private getClient(apiKey: string): GoogleGenAI {
+    let client = this.clientCache.get(apiKey)
+    if (!client) {
+      client = this.clientFactory(apiKey)
+      this.clientCache.set(apiKey, client)
+    }
+    return client
+  }
+
+  /**
+   * 6가지 폴백이 포함된 콘텐츠 생성
+   * 1군(Pro) 3개 → 2군(Flash) 3개 순서로 시도
+   */
+  async generateWithFallback(
+    prompt: PromptInput,
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.generateWithFallback(prompt, options)
+
+    const { feature, failOnTruncation = false } = options
+    const generationConfig = this.resolveGenerationConfig(options.generation)
+    const cache = this.createCacheContext('generate', prompt, options, generationConfig)
+
+    const cached = await this.readResponseCache(cache)
+    if (cached) return cached.text
+
+    const state = createFallbackState(
+      'generate',
+      feature,
+      estimateRequestTokens(prompt, options)
+    )
+
+    try {
+      for await (const keyModel of this.fallbackCandidates(state, options)) {
+        try {
+          const startedAt = Date.now()
+          const result = await this.sendGenerate(
+            prompt,
+            keyModel,
+            state,
+            options,
+            generationConfig
+          )
+          this.recordUsage(
+            {
+              key: keyModel.key,
+              model: keyModel.model,
+              operation: 'generate',
+              feature,
+              startedAt,
+              estimatedTokens: state.estimatedTokens,
+            },
+            result.usage
+          )
+
+          const text = assertResponseText(result.outcome, result.text, failOnTruncation)
+          const { finishReason } = result.outcome
+          this.reportSuccess(state, finishReason, keyModel)
+          await this.writeResponseCache(cache, keyModel.model, text, finishReason)
+          return text
+        } catch (error) {
+          const fatal = await this.handleAttemptFailure(state, keyModel, error)
+          if (fatal) throw fatal
+        }
+      }
+
+      throw createExhaustedError(state)
+    } catch (error) {
+      throw this.reportFailure(state, error)
+    }
+  }
+
+  /**
+   * 멀티모달 생성 (텍스트 + 이미지/PDF 바이트 + 파일 URI를 하나의 사용자 턴으로)
+   * 파트는 MIME 타입/크기를 검사하며, 인라인 데이터 합계가 한도를 넘으면 Files API로 업로드한다.
+   */
+  async generateMultimodal(
+    parts: MultimodalPart[],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    return this.generateWithFallback(toMultimodalContents(parts), options)
+  }
+
+  /**
+   * 6가지 폴백이 포함된 스트리밍 생성
+   * 토큰이 한 번도 나오지 않은 경우에만 다음 키+모델로 폴백하며,
+   * 마지막에는 항상 'done' 또는 'error' 청크를 내보낸다.
+   */
+  async *streamWithFallback(
+    prompt: PromptInput,
+    options: GenerateOptions = {}
+  ): AsyncGenerator<StreamChunk> {
+    const pooled = this.poolFor(options)
+    if (pooled) {
+      yield* pooled.streamWithFallback(prompt, options)
+      return
+    }
+
+    const { feature, failOnTruncation = false } = options
+    const generationConfig = this.resolveGenerationConfig(options.generation)
+    const state = createFallbackState(
+      'stream',
+      feature,
+      estimateRequestTokens(prompt, options)
+    )
+
+    let failure: unknown
+
+    try {
+      for await (const keyModel of this.fallbackCandidates(state, options)) {
+        let fullText = ''
+
+        try {
+          const startedAt = Date.now()
+          const stream = await this.sendStream(
+            prompt,
+            keyModel,
+            state,
+            options,
+            generationConfig
+          )
+
+          // 사용량은 마지막 청크가 누적값, 종료 사유는 마지막 후보 청크에만 있음
+          let usage: UsageTokens | undefined
+          const outcome: ResponseOutcome = {}
+
+          for await (const chunk of iterateWithSignal(stream, state.attemptSignal)) {
+            usage = chunk.usage ?? usage
+            outcome.blockReason = chunk.outcome.blockReason ?? outcome.blockReason
+            outcome.finishReason = chunk.outcome.finishReason ?? outcome.finishReason
+            outcome.safetyRatings = chunk.outcome.safetyRatings ?? outcome.safetyRatings
+            const text = chunk.text
+            if (text) {
+              fullText += text
+              yield { type: 'text', content: text }
+            }
+          }
+
+          this.recordUsage(
+            {
+              key: keyModel.key,
+              model: keyModel.model,
+              operation: 'stream',
+              feature,
+              startedAt,
+              estimatedTokens: state.estimatedTokens,
+            },
+            usage
+          )
+
+          assertResponseText(outcome, fullText, failOnTruncation)
+
+          this.reportSuccess(state, outcome.finishReason, keyModel)
+          yield { type: 'done', content: fullText, finishReason: outcome.finishReason }
+          return
+        } catch (error) {
+          // 이미 토큰을 내보냈으면 폴백하면 출력이 섞이므로 상태만 반영하고 중단
+          const canFallback = !fullText
+          const fatal = await this.handleAttemptFailure(state, keyModel, error, canFallback)
+
+          if (fatal || !canFallback) {
+            failure = fatal ?? error
+            break
+          }
+        }
+      }
+    } catch (error) {
+      // 대기 중 취소 또는 전체 제한 시간 초과
+      failure = error
+    }
+
+    const error = failure ?? createExhaustedError(state)
+    this.reportFailure(state, error)
+    yield { type: 'error', content: toErrorMessage(error) }
+  }
+
+  /**
+   * 스키마 기반 구조화 JSON 생성
+   * 검증 실패 시 같은 키+모델에 오류를 알려 복구를 요청하고,
+   * 그래도 실패하면 다음 키+모델로 폴백한다.
+   */
+  async generateStructured<T>(
+    prompt: PromptInput,
+    schema: StructuredSchema,
+    options: StructuredGenerateOptions = {}
+  ): Promise<T> {
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.generateStructured<T>(prompt, schema, options)
+
+    const { feature, maxRepairAttempts = 1 } = options
+    const responseJsonSchema = toResponseJsonSchema(schema)
+    const generationConfig = this.resolveGenerationConfig(options.generation)
+    const cache = this.createCacheContext('structured', prompt, options, {
+      ...generationConfig,
+      responseJsonSchema,
+    })
+
+    // 캐시된 JSON도 현재 스키마로 다시 검증 (스키마 변경 후 오래된 항목 방지)
+    let cachedData: T | undefined
+    const cached = await this.readResponseCache(cache, (entry) => {
+      const result = parseStructured<T>(entry.text, schema)
+      if (result.success) cachedData = result.data
+      return result.success
+    })
+    if (cached) return cachedData as T
+
+    const state = createFallbackState(
+      'structured',
+      feature,
+      estimateRequestTokens(prompt, options)
+    )
+
+    let lastStructuredError: StructuredOutputError | null = null
+
+    try {
+      for await (const keyModel of this.fallbackCandidates(state, options)) {
+        try {
+          let repairTurns: Content[] = []
+
+          for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+            const startedAt = Date.now()
+            const response = await this.sendGenerate(
+              [...toContents(prompt), ...repairTurns],
+              keyModel,
+              state,
+              options,
+              {
+                ...generationConfig,
+                responseMimeType: 'application/json',
+                responseJsonSchema,
+              }
+            )
+            this.recordUsage(
+              {
+                key: keyModel.key,
+                model: keyModel.model,
+                operation: 'structured',
+                feature,
+                startedAt,
+                estimatedTokens: state.estimatedTokens,
+              },
+              response.usage
+            )
+
+            // 잘린 JSON은 복구 재요청으로 해결되지 않으므로 바로 실패
+            const text = assertResponseText(response.outcome, response.text, true)
+
+            const result = parseStructured<T>(text, schema)
+            if (result.success) {
+              const { finishReason } = response.outcome
+              this.reportSuccess(state, finishReason, keyModel)
+              await this.writeResponseCache(cache, keyModel.model, text, finishReason)
+              return result.data
+            }
+
+            // 스키마 불일치는 키 문제가 아니므로 에러 카운트에 반영하지 않음
+            lastStructuredError = new StructuredOutputError(
+              '응답이 스키마 검증에 실패했습니다.',
+              result.issues,
+              text
+            )
+            this.logger.warn('Gemini 구조화 출력 검증 실패', {
+              ...state.current,
+              repairAttempt: attempt,
+              issues: result.issues,
+            })
+
+            repairTurns = [
+              ...repairTurns,
+              { role: 'model', parts: [{ text }] },
+              { role: 'user', parts: [{ text: buildRepairPrompt(result.issues) }] },
+            ]
+          }
+        } catch (error) {
+          const fatal = await this.handleAttemptFailure(state, keyModel, error)
+          if (fatal) throw fatal
+        }
+      }
+
+      throw lastStructuredError ?? createExhaustedError(state)
+    } catch (error) {
+      throw this.reportFailure(state, error)
+    }
+  }
+
+  /**
+   * 도구(함수 호출) 실행 루프
+   * 모델이 함수 호출을 요청하면 레지스트리로 실행해 결과를 돌려주고, 최종 텍스트 응답이 나올 때까지 반복한다.
+   * 모델 턴마다 키+모델 폴백을 거치며, 전체 제한 시간(timeoutMs)은 도구 실행을 포함한 루프 전체에 적용된다.
+   */
+  async runWithTools(
+    prompt: PromptInput,
+    registry: ToolRegistry,
+    options: RunWithToolsOptions = {}
+  ): Promise<ToolRunResult> {
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.runWithTools(prompt, registry, options)
+
+    const {
+      maxIterations = DEFAULT_MAX_TOOL_ITERATIONS,
+      tools,
+      mode = 'auto',
+      onToolCall,
+      signal,
+      timeoutMs,
+      ...turnOptions
+    } = options
+    const functionDeclarations = registry.getFunctionDeclarations(tools)
+
+    if (functionDeclarations.length === 0) {
+      throw new Error('사용할 도구가 없습니다.')
+    }
+
+    const contents = toContents(prompt)
+    const toolCalls: ToolCallRecord[] = []
+    const deadline = createDeadline(signal, timeoutMs)
+
+    try {
+      for (let iteration = 1; iteration <= maxIterations; iteration++) {
+        const response = await this.generateToolTurn(
+          contents,
+          functionDeclarations,
+          mode,
+          { ...turnOptions, signal: deadline.signal }
+        )
+
+        // 사고 서명(thoughtSignature) 등 파트를 그대로 보존해야 다음 턴에서 맥락이 이어짐
+        const modelContent = response.candidates?.[0]?.content
+        contents.push({ role: 'model', parts: modelContent?.parts ?? [] })
+
+        const calls = response.functionCalls ?? []
+        if (calls.length === 0) {
+          return { text: getResponseText(response), contents, toolCalls, iterations: iteration }
+        }
+
+        // 병렬 함수 호출은 동시에 실행하고, 응답은 요청 순서대로 돌려줌
+        const results = await Promise.all(
+          calls.map((call) => registry.execute(call, { signal: deadline.signal, iteration }))
+        )
+
+        for (const { record } of results) {
+          toolCalls.push(record)
+          this.logger.debug('도구 실행', {
+            feature: turnOptions.feature,
+            tool: record.name,
+            iteration,
+            durationMs: record.durationMs,
+            error: record.error,
+          })
+
+          // 호출 측 콜백 오류가 루프를 중단하지 않도록 격리 (emit과 동일)
+          try {
+            onToolCall?.(record)
+          } catch (error) {
+            this.logger.warn('훅 실행 실패', { hook: 'onToolCall', error: toErrorMessage(error) })
+          }
+        }
+
+        contents.push({ role: 'user', parts: results.map(({ part }) => part) })
+      }
+
+      this.logger.warn('도구 실행 루프 최대 턴 초과', {
+        feature: turnOptions.feature,
+        maxIterations,
+        toolCalls: toolCalls.length,
+      })
+      throw new ToolLoopError(
+        `최대 모델 턴 수(${maxIterations})를 초과했습니다.`,
+        { maxIterations, toolCalls, contents }
+      )
+    } catch (error) {
+      // 도구 실행 중 취소 또는 전체 제한 시간 초과
+      if (deadline.signal.aborted && !(error instanceof GeminiAbortError)) {
+        throw toAbortError(deadline.signal, [])
+      }
+      throw error
+    } finally {
+      deadline.dispose()
+    }
+  }
+
+  /**
+   * 도구 실행 루프의 모델 턴 1회 (키+모델 폴백)
+   * 함수 호출도 텍스트도 없는 응답은 빈 응답으로 보고 다음 조합으로 폴백한다.
+   */
+  private async generateToolTurn(
+    contents: Content[],
+    functionDeclarations: FunctionDeclaration[],
+    mode: ToolCallingMode,
+    options: GenerateOptions
+  ): Promise<GenerateContentResponse> {
+    const { feature, failOnTruncation = false } = options
+    const generationConfig = this.resolveGenerationConfig(options.generation)
+    const state = createFallbackState(
+      'tools',
+      feature,
+      estimateRequestTokens(contents, options)
     )
 
-    let candidates: KeyModelStatus[] = []
+    try {
+      // 함수 호출은 Gemini SDK 전용 (외부 공급자 조합은 건너뜀)
+      for await (const keyModel of this.fallbackCandidates(state, options, true)) {
+        try {
+          const client = this.getClient(keyModel.key)
+          // 캐시된 콘텐츠는 도구 선언과 함께 쓸 수 없어 컨텍스트 캐시 내용을 직접 포함
+          const request = await this.prepareRequest([...contents], keyModel, state, options, false)
+          const startedAt = Date.now()
+          const response = await raceWithSignal(
+            client.models.generateContent({
+              model: keyModel.model,
+              contents: request.contents,
+              config: {
+                ...generationConfig,
+                systemInstruction: request.systemInstruction,
+                tools: [{ functionDeclarations }],
+                toolConfig: {
+                  functionCallingConfig: {
+                    mode:
+                      mode === 'any'
+                        ? FunctionCallingConfigMode.ANY
+                        : FunctionCallingConfigMode.AUTO,
+                  },
+                },
+                abortSignal: state.attemptSignal,
+              },
+            }),
+            state.attemptSignal
+          )
+          this.recordUsage(
+            {
+              key: keyModel.key,
+              model: keyModel.model,
+              operation: 'tools',
+              feature,
+              startedAt,
+              estimatedTokens: state.estimatedTokens,
+            },
+            extractUsageTokens(response)
+          )
 
-    if (preferredTier === 1) {
-      candidates = tier1
-    } else if (preferredTier === 2) {
-      candidates = tier2
-    } else {
-      candidates = tier1.length > 0 ? tier1 : tier2
-    }
+          if (!response.functionCalls?.length) {
+            // 안전 필터 차단, 잘림, 빈 응답 검사
+            getResponseText(response, failOnTruncation)
+          }
 
-    if (candidates.length === 0) {
-      if (tier1.length === 0 && tier2.length === 0) {
-        this.keyModelStatuses.forEach((s) => {
-          s.errorCount = 0
-          s.available = true
-        })
-        return this.keyModelStatuses[0] ?? null
+          this.reportSuccess(state, getResponseOutcome(response).finishReason, keyModel)
+          return response
+        } catch (error) {
+          const fatal = await this.handleAttemptFailure(state, keyModel, error)
+          if (fatal) throw fatal
+        }
       }
-      return null
+
+      throw createExhaustedError(state)
+    } catch (error) {
+      throw this.reportFailure(state, error)
     }
+  }
 
-    // 라운드 로빈: 가장 오래 안 쓴 것 선택
-    candidates.sort((a, b) => {
-      const aTime = a.lastUsed?.getTime() ?? 0
-      const bTime = b.lastUsed?.getTime() ?? 0
-      return aTime - bTime
-    })
+  /**
+   * 범용 6가지 폴백 실행 함수
+   * 결과에 usageMetadata가 있으면(또는 usage 옵션 지정 시) 사용량을 기록한다.
+   * operation의 signal은 SDK 호출의 config.abortSignal로 전달한다.
+   */
+  async executeWithFallback<T>(
+    operation: (client: GoogleGenAI, model: GeminiModel, signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<T> = {}
+  ): Promise<T> {
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.executeWithFallback(operation, options)
 
-    return candidates[0] ?? null
+    // SDK 클라이언트를 넘기므로 Gemini 키 조합만 사용
+    return this.executeCandidates(
+      (keyModel, signal) => operation(this.getClient(keyModel.key), keyModel.model, signal),
+      options,
+      true
+    )
   }
 
-  /** 키+모델 사용 기록 */
-  private markKeyModelUsed(key: string, model: GeminiModel): void {
-    const status = this.keyModelStatuses.find(
-      (s) => s.key === key && s.model === model
+  /**
+   * 공급자 폴백 실행 함수
+   * Gemini 키 조합은 GeminiProvider로 감싸 넘기므로 operation은 공급자 구현과 무관하게 작성한다.
+   * 티어 순서대로 Gemini 키와 외부 공급자 조합을 모두 폴백한다.
+   */
+  async executeWithProvider<T>(
+    operation: (provider: LLMProvider, model: GeminiModel, signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<T> = {}
+  ): Promise<T> {
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.executeWithProvider(operation, options)
+
+    return this.executeCandidates(
+      (keyModel, signal) =>
+        operation(
+          keyModel.provider ?? this.getGeminiProvider(keyModel.key),
+          keyModel.model,
+          signal
+        ),
+      options
     )
-    if (status) {
-      status.lastUsed = new Date()
-    }
   }
 
-  /** 키+모델 에러 기록 */
-  private markKeyModelError(key: string, model: GeminiModel): void {
-    const status = this.keyModelStatuses.find(
-      (s) => s.key === key && s.model === model
-    )
-    if (status) {
-      status.errorCount++
-      if (status.errorCount >= 3) {
-        status.available = false
-        // 5분 후 복구
-        setTimeout(() => {
-          status.available = true
-          status.errorCount = 0
-        }, 5 * 60 * 1000)
+  /** 범용 폴백 실행 (조합마다 operation 호출, 사용량 기록) */
+  private async executeCandidates<T>(
+    operation: (keyModel: KeyModelState, signal: AbortSignal) => Promise<T>,
+    options: ExecuteOptions<T>,
+    geminiOnly = false
+  ): Promise<T> {
+    const state = createFallbackState('execute', options.feature, options.estimatedTokens)
+
+    try {
+      for await (const keyModel of this.fallbackCandidates(state, options, geminiOnly)) {
+        try {
+          const startedAt = Date.now()
+          const result = await raceWithSignal(
+            operation(keyModel, state.attemptSignal),
+            state.attemptSignal
+          )
+          this.recordUsage(
+            {
+              key: keyModel.key,
+              model: keyModel.model,
+              operation: 'execute',
+              feature: options.feature,
+              startedAt,
+              estimatedTokens: state.estimatedTokens,
+            },
+            options.usage ? options.usage(result) : extractUsageTokens(result)
+          )
+          this.reportSuccess(state, undefined, keyModel)
+          return result
+        } catch (error) {
+          const fatal = await this.handleAttemptFailure(state, keyModel, error)
+          if (fatal) throw fatal
+        }
       }
-    }
-  }
 
-  /** GoogleGenAI 클라이언트 가져오기 */
-  private getClient(apiKey: string): GoogleGenAI {
-    let client = this.clientCache.get(apiKey)
-    if (!client) {
-      client = new GoogleGenAI({ apiKey })
-      this.clientCache.set(apiKey, client)
+      throw createExhaustedError(state)
+    } catch (error) {
+      throw this.reportFailure(state, error)
     }
-    return client
   }
 
   /**
-   * 6가지 폴백이 포함된 콘텐츠 생성
-   * 1군(Pro) 3개 → 2군(Flash) 3개 순서로 시도
+   * 키만 폴백하는 실행 함수 (모델 고정)
+   * 두 번째 인자로 최대 시도 횟수 또는 옵션(사용량 기록용 모델/기능 태그, 취소/제한 시간 포함)을 받는다.
    */
-  async generateWithFallback(
-    prompt: string,
-    options: GenerateOptions = {}
-  ): Promise<string> {
-    const { systemInstruction, maxRetries = 6 } = options
+  async executeWithKeyFallback<T>(
+    operation: (client: GoogleGenAI, signal: AbortSignal) => Promise<T>,
+    maxRetriesOrOptions: number | KeyFallbackOptions<T> = 3
+  ): Promise<T> {
+    const options: KeyFallbackOptions<T> =
+      typeof maxRetriesOrOptions === 'number'
+        ? { maxRetries: maxRetriesOrOptions }
+        : maxRetriesOrOptions
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.executeWithKeyFallback(operation, options)
 
-    let lastError: Error | null = null
-    const triedCombos = new Set<string>()
-    let currentTier: 1 | 2 = 1
+    if (this.apiKeys.length === 0) {
+      throw new Error(NO_KEYS_MESSAGE)
+    }
 
-    for (let i = 0; i < maxRetries; i++) {
-      const keyModel = this.selectAvailableKeyModel(currentTier)
+    const maxRetries = options.maxRetries ?? 3
+    // 모델 미지정 호출도 실제 모델 기준으로 레이트 리밋/사용량을 집계
+    const model = options.model ?? this.resolveTierModel()
+    const state = createFallbackState(
+      options.operation ?? 'execute',
+      options.feature,
+      options.estimatedTokens
+    )
+    const triedKeys = new Set<string>()
 
-      if (!keyModel) {
-        if (currentTier === 1) {
-          currentTier = 2
-          continue
-        }
-        break
-      }
+    const deadline = createDeadline(options.signal, options.timeoutMs)
+    state.signal = deadline.signal
 
-      const comboKey = `${keyModel.key}-${keyModel.model}`
-      if (triedCombos.has(comboKey)) {
-        if (currentTier === 1) {
-          currentTier = 2
-          continue
+    try {
+      for (let i = 0; i < maxRetries; i++) {
+        const availableKeys = this.apiKeys.filter((key) => !triedKeys.has(key))
+        if (availableKeys.length === 0) break
+
+        if (state.nextDelayMs > 0) {
+          await sleep(state.nextDelayMs, state.signal)
+          state.nextDelayMs = 0
         }
-        break
-      }
 
-      triedCombos.add(comboKey)
-      this.markKeyModelUsed(keyModel.key, keyModel.model)
+        const apiKey = await this.acquireKeyByRateLimit(
+          availableKeys,
+          model,
+          state.estimatedTokens,
+          state.signal
+        )
+        triedKeys.add(apiKey)
 
-      const tierLabel = keyModel.tier === 1 ? 'Pro' : 'Flash'
-      console.log(
-        `Gemini API 시도: ${tierLabel} (키 ${this.apiKeys.indexOf(keyModel.key) + 1})`
-      )
+        const release = await this.semaphore.acquire(state.signal)
+        const attempt = createAttemptSignal(state.signal, options.attemptTimeoutMs)
+        this.startAttempt(state, apiKey, model, undefined, i + 1)
 
-      try {
-        const client = this.getClient(keyModel.key)
-        const response = await client.models.generateContent({
-          model: keyModel.model,
-          contents: prompt,
-          config: systemInstruction ? { systemInstruction } : undefined,
-        })
+        try {
+          const client = this.getClient(apiKey)
+          const startedAt = Date.now()
+          const result = await raceWithSignal(
+            operation(client, attempt.signal),
+            attempt.signal
+          )
+          this.recordUsage(
+            {
+              key: apiKey,
+              model,
+              operation: state.operation,
+              feature: options.feature,
+              startedAt,
+              estimatedTokens: state.estimatedTokens,
+            },
+            options.usage ? options.usage(result) : extractUsageTokens(result)
+          )
+          this.reportSuccess(state)
+          return result
+        } catch (caught) {
+          if (state.signal.aborted) {
+            throw toAbortError(state.signal, state.attempts)
+          }
 
-        const text = response.text
+          // 시도 제한 시간 초과는 제한 시간 사유(재시도 가능)로 처리
+          const error = attempt.signal.aborted ? attempt.signal.reason : caught
+          const classified = classifyGeminiError(error)
+          const message = toErrorMessage(error)
+          const failure: GeminiAttempt = {
+            keyIndex: this.apiKeys.indexOf(apiKey) + 1,
+            category: classified.category,
+            status: classified.status,
+            message,
+          }
+          state.attempts.push(failure)
 
-        if (!text) {
-          throw new Error('빈 응답')
+          if (classified.category === 'request') {
+            throw new GeminiError(message, {
+              category: 'request',
+              status: classified.status,
+              attempts: state.attempts,
+              cause: error,
+            })
+          }
+
+          if (classified.category === 'retryable') {
+            state.nextDelayMs = this.nextBackoffDelay(state, classified)
+          }
+          this.reportFallback(state, failure)
+        } finally {
+          attempt.dispose()
+          release()
         }
+      }
 
-        return text
-      } catch (error) {
-        this.markKeyModelError(keyModel.key, keyModel.model)
-        lastError = error instanceof Error ? error : new Error(String(error))
-        console.error(
-          `Gemini API 오류 (${tierLabel} 키${this.apiKeys.indexOf(keyModel.key) + 1}):`,
-          lastError.message
-        )
+      throw createExhaustedError(state, '모든 API 키가 실패했습니다.')
+    } catch (error) {
+      // 백오프/레이트 리밋/슬롯 대기 중 취소 또는 전체 제한 시간 초과
+      if (state.signal.aborted && !(error instanceof GeminiAbortError)) {
+        throw this.reportFailure(state, toAbortError(state.signal, state.attempts))
       }
+      throw this.reportFailure(state, error)
+    } finally {
+      deadline.dispose()
     }
-
-    throw lastError ?? new Error('모든 API 키와 모델 조합이 실패했습니다.')
   }
 
   /**
-   * 범용 6가지 폴백 실행 함수
+   * 입력 토큰 수 계산 (countTokens API, 실패 시 로컬 추정)
+   * 모델의 사용 가능한 첫 조합(외부 공급자 포함)으로 요청하며, 레이트 리밋/사용량 집계에는 포함하지 않는다.
    */
-  async executeWithFallback<T>(
-    operation: (client: GoogleGenAI, model: GeminiModel) => Promise<T>,
-    options: { maxRetries?: number; preferredTier?: 1 | 2 } = {}
-  ): Promise<T> {
-    const { maxRetries = 6, preferredTier } = options
+  async countTokens(prompt: PromptInput, options: CountTokensOptions = {}): Promise<TokenCount> {
+    const pooled = this.poolFor(options)
+    if (pooled) return pooled.countTokens(prompt, options)
 
-    let lastError: Error | null = null
-    const triedCombos = new Set<string>()
-    let currentTier: 1 | 2 = preferredTier ?? 1
+    const { contextCache, signal } = options
+    const model = options.model ?? this.resolveTierModel()
+    const estimate = (): TokenCount => ({
+      totalTokens: estimateRequestTokens(prompt, options),
+      estimated: true,
+      model,
+    })
 
-    for (let i = 0; i < maxRetries; i++) {
-      const keyModel = this.selectAvailableKeyModel(currentTier)
+    const combo = this.keyModelStatuses.find((s) => s.model === model && this.isUsable(s))
+    const apiKey = combo?.key ?? this.apiKeys[0]
+    const provider = combo?.provider ?? (apiKey ? this.getGeminiProvider(apiKey) : undefined)
+    if (!provider) {
+      return estimate()
+    }
 
-      if (!keyModel) {
-        if (currentTier === 1 && !preferredTier) {
-          currentTier = 2
-          continue
-        }
-        break
+    try {
+      const totalTokens = await provider.countTokens({
+        model,
+        contents: contextCache
+          ? [...contextCache.contents, ...toContents(prompt)]
+          : toContents(prompt),
+        systemInstruction: contextCache?.systemInstruction ?? options.systemInstruction,
+        signal,
+      })
+      return { totalTokens, estimated: false, model }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toAbortError(signal, [])
       }
+      this.logger.warn('토큰 계산 API 실패, 로컬 추정 사용', {
+        model,
+        provider: provider.name,
+        error: toErrorMessage(error),
+      })
+      return estimate()
+    }
+  }
 
-      const comboKey = `${keyModel.key}-${keyModel.model}`
-      if (triedCombos.has(comboKey)) {
-        if (currentTier === 1 && !preferredTier) {
-          currentTier = 2
-          continue
-        }
-        break
-      }
+  /**
+   * 키 풀 전용 클라이언트
+   * 풀마다 키 × 모델 상태, 레이트 리밋, 사용량 집계가 따로이며, rag-kit 어댑터/채팅 세션에도 그대로 넘길 수 있다.
+   */
+  forPool(name: string): GeminiClient {
+    if (name === this.pool) return this
 
-      triedCombos.add(comboKey)
-      this.markKeyModelUsed(keyModel.key, keyModel.model)
-
-      try {
-        const client = this.getClient(keyModel.key)
-        return await operation(client, keyModel.model)
-      } catch (error) {
-        this.markKeyModelError(keyModel.key, keyModel.model)
-        lastError = error instanceof Error ? error : new Error(String(error))
-        const tierLabel = keyModel.tier === 1 ? 'Pro' : 'Flash'
-        console.error(
-          `Gemini API 오류 (${tierLabel} 키${this.apiKeys.indexOf(keyModel.key) + 1}):`,
-          lastError.message
-        )
-      }
+    const client = this.pools.get(name)
+    if (!client) {
+      throw new Error(`알 수 없는 키 풀입니다: ${name}`)
     }
+    return client
+  }
 
-    throw lastError ?? new Error('모든 API 키와 모델 조합이 실패했습니다.')
+  /** 설정된 키 풀 이름 */
+  getPoolNames(): string[] {
+    return [...this.pools.keys()]
+  }
+
+  /** API 키+모델 상태 조회 (이 인스턴스가 마지막으로 동기화한 저장소 상태 기준) */
+  getKeyModelStatuses(): Omit<KeyModelStatus, 'key'>[] {
+    const now = Date.now()
+    return this.keyModelStatuses.map((s) => this.toKeyModelStatus(s, now))
   }
 
   /**
-   * 키만 폴백하는 실행 함수 (모델 고정)
+   * 관리 화면용 키 상태 스냅샷 (이 클라이언트와 모든 키 풀)
+   * 저장소의 최신 상태를 반영하며, 키는 지문과 마스킹된 값으로만 노출한다.
    */
-  async executeWithKeyFallback<T>(
-    operation: (client: GoogleGenAI) => Promise<T>,
-    maxRetries = 3
-  ): Promise<T> {
-    let lastError: Error | null = null
-    const triedKeys = new Set<string>()
+  async getKeyStatusSnapshot(): Promise<KeyStatusSnapshot> {
+    const clients = [this, ...this.pools.values()]
+    await Promise.all(clients.map((client) => client.loadKeyHealth(true)))
 
-    for (let i = 0; i < maxRetries; i++) {
-      const availableKeys = this.apiKeys.filter((key) => !triedKeys.has(key))
-      if (availableKeys.length === 0) break
+    const now = Date.now()
+    const entries = clients.flatMap((client) =>
+      client.keyModelStatuses.map((s) => client.toKeyStatusEntry(s, now))
+    )
 
-      const apiKey = availableKeys[0]
-      if (!apiKey) break
+    return {
+      generatedAt: new Date(now),
+      entries,
+      totals: {
+        combos: entries.length,
+        available: entries.filter((entry) => entry.available).length,
+        coolingDown: entries.filter((entry) => entry.cooldownUntil).length,
+      },
+    }
+  }
 
-      triedKeys.add(apiKey)
+  /**
+   * 키+모델 조합 점검 (기본: 이 클라이언트와 모든 키 풀의 모든 조합)
+   * 조합마다 작은 요청을 직접 보내 지연 시간과 인증 실패/할당량 소진을 확인한다.
+   * 폴백, 레이트 리밋, 사용량 집계를 거치지 않으며, 결과는 기본적으로 조합 상태에 반영된다.
+   */
+  async probeKeys(options: ProbeKeysOptions = {}): Promise<KeyProbeResult[]> {
+    if (options.pool !== undefined) {
+      return this.forPool(options.pool).probeOwnKeys(options)
+    }
 
-      try {
-        const client = this.getClient(apiKey)
-        return await operation(client)
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error))
-        console.error(
-          `Gemini API 오류 (키 ${i + 1}/${this.apiKeys.length}):`,
-          lastError.message
-        )
+    const results = await this.probeOwnKeys(options)
+    for (const client of this.pools.values()) {
+      results.push(...(await client.probeOwnKeys(options)))
+    }
+    return results
+  }
+
+  /** 이 클라이언트의 조합 점검 (동시 점검 수 제한) */
+  private async probeOwnKeys(options: ProbeKeysOptions): Promise<KeyProbeResult[]> {
+    const { models, signal } = options
+    models?.forEach((model) => this.ensureModelStatuses(model))
+    await this.loadKeyHealth(true)
+
+    const targets = this.keyModelStatuses.filter((s) => !models || models.includes(s.model))
+    const limit = new Semaphore(options.concurrency ?? DEFAULT_PROBE_CONCURRENCY)
+
+    try {
+      return await Promise.all(
+        targets.map(async (status) => {
+          const release = await limit.acquire(signal)
+          try {
+            return await this.probeKeyModel(status, options)
+          } finally {
+            release()
+          }
+        })
+      )
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toAbortError(signal, [])
+      }
+      throw error
+    }
+  }
+
+  /** 조합 1개 점검 (실패는 분류해 결과로 반환, 취소만 던짐) */
+  private async probeKeyModel(
+    status: KeyModelState,
+    options: ProbeKeysOptions
+  ): Promise<KeyProbeResult> {
+    const { method = 'generate', signal, updateHealth = true } = options
+    const provider = status.provider ?? this.getGeminiProvider(status.key)
+    const attempt = createAttemptSignal(
+      signal ?? new AbortController().signal,
+      options.timeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS
+    )
+
+    const startedAt = Date.now()
+    let failure: unknown
+    try {
+      if (method === 'countTokens') {
+        await provider.countTokens({
+          model: status.model,
+          contents: PROBE_CONTENTS,
+          signal: attempt.signal,
+        })
+      } else {
+        await provider.generate({
+          model: status.model,
+          contents: PROBE_CONTENTS,
+          generation: { maxOutputTokens: 1 },
+          signal: attempt.signal,
+        })
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw toAbortError(signal, [])
+      }
+      // 제한 시간 초과는 SDK 중단 오류 대신 제한 시간 사유로 기록
+      failure = attempt.signal.aborted ? attempt.signal.reason : error
+    } finally {
+      attempt.dispose()
+    }
+
+    const checkedAt = new Date()
+    const classified = failure === undefined ? undefined : classifyGeminiError(failure)
+    const result: KeyProbeResult = {
+      pool: this.pool,
+      keyIndex: this.apiKeys.indexOf(status.key) + 1,
+      ...describeKey(status),
+      provider: status.provider?.name,
+      model: status.model,
+      tierName: status.tierName,
+      status: classified ? toProbeStatus(classified) : 'ok',
+      latencyMs: checkedAt.getTime() - startedAt,
+      httpStatus: classified?.status,
+      message: failure === undefined ? undefined : toErrorMessage(failure),
+      checkedAt,
+    }
+    status.lastProbe = result
+
+    if (classified) {
+      recordRecentError(status, {
+        at: checkedAt,
+        category: classified.category,
+        status: classified.status,
+        message: result.message!,
+      })
+      if (updateHealth) {
+        await this.markKeyModelError(status.key, status.model, classified)
+      }
+    } else {
+      status.lastSuccessAt = checkedAt
+      // 점검에 성공한 조합은 쿨다운 만료를 기다리지 않고 복구
+      if (updateHealth && (status.errorCount > 0 || status.cooldownUntil)) {
+        status.errorCount = 0
+        status.cooldownUntil = undefined
+        await this.saveKeyHealth([status])
       }
     }
 
-    throw lastError ?? new Error('모든 API 키가 실패했습니다.')
+    const fields = {
+      pool: result.pool,
+      keyIndex: result.keyIndex,
+      provider: result.provider,
+      model: result.model,
+      status: result.status,
+      latencyMs: result.latencyMs,
+    }
+    if (classified) {
+      this.logger.warn('키 점검 실패', { ...fields, error: result.message })
+    } else {
+      this.logger.debug('키 점검 성공', fields)
+    }
+    return result
   }
 
-  /** API 키+모델 상태 조회 */
-  getKeyModelStatuses(): Omit<KeyModelStatus, 'key'>[] {
-    return this.keyModelStatuses.map((s) => ({
+  /** 내부 상태 → 공개 상태 (키 제외) */
+  private toKeyModelStatus(s: KeyModelState, now: number): Omit<KeyModelStatus, 'key'> {
+    return {
       model: s.model,
       tier: s.tier,
-      available: s.available,
+      tierName: s.tierName,
+      provider: s.provider?.name,
+      available: this.isUsable(s, now),
       errorCount: s.errorCount,
       lastUsed: s.lastUsed,
-    }))
+      cooldownUntil: isCoolingDown(s, now) ? s.cooldownUntil : undefined,
+    }
+  }
+
+  /** 내부 상태 → 관리 화면용 상태 */
+  private toKeyStatusEntry(s: KeyModelState, now: number): KeyStatusEntry {
+    return {
+      ...this.toKeyModelStatus(s, now),
+      pool: this.pool,
+      keyIndex: this.apiKeys.indexOf(s.key) + 1,
+      ...describeKey(s),
+      recentErrors: [...s.recentErrors],
+      lastSuccessAt: s.lastSuccessAt,
+      lastProbe: s.lastProbe,
+    }
+  }
+
+  /** 토큰 사용량 및 예상 비용 집계 조회 */
+  getUsageSummary(): UsageSummary {
+    return this.usage.getSummary()
+  }
+
+  /** 사용량 집계 초기화 */
+  resetUsage(): void {
+    this.usage.reset()
+  }
+
+  /** 응답 캐시 적중/미적중 통계 조회 */
+  getResponseCacheStats(): ResponseCacheStats {
+    return this.cacheMetrics.getStats()
+  }
+
+  /** 응답 캐시 비우기 (저장소가 clear를 지원하는 경우) + 통계 초기화 */
+  async clearResponseCache(): Promise<void> {
+    await this.cacheStore.clear?.()
+    this.cacheMetrics.reset()
+  }
+
+  /** 임베딩 캐시 (임베딩 함수에서 조회/저장에 사용) */
+  getEmbeddingCache(): EmbeddingCacheManager {
+    return this.embeddingCache
+  }
+
+  /** 임베딩 캐시 적중/절약 통계 조회 */
+  getEmbeddingCacheStats(): EmbeddingCacheStats {
+    return this.embeddingCache.getStats()
+  }
+
+  /** 임베딩 캐시 비우기 (저장소가 clear를 지원하는 경우) + 통계 초기화 */
+  async clearEmbeddingCache(): Promise<void> {
+    await this.embeddingCache.clear()
+  }
+
+  /**
+   * 명시적 컨텍스트 캐시 생성
+   * 긴 시스템 인스트럭션/공통 문서를 한 번만 보내고 contextCache 옵션으로 여러 호출에서 재사용한다.
+   * 원격 캐시는 키+모델별로 처음 사용할 때 만들어지며, 쓸 수 없는 모델/키에서는 캐시 없이 요청한다.
+   */
+  createContextCache(options: ContextCacheOptions): ContextCache {
+    return toContextCache(options)
+  }
+
+  /** 컨텍스트 캐시 TTL 연장 (생성된 모든 키+모델) */
+  refreshContextCache(cache: ContextCache, ttlMs?: number): Promise<number> {
+    return this.contextCaches.refresh(cache, ttlMs)
+  }
+
+  /** 컨텍스트 캐시 삭제 (배치 작업 종료 후 저장 비용 절감) */
+  deleteContextCache(cache: ContextCache): Promise<void> {
+    return this.contextCaches.delete(cache)
   }
 
   /** API 키 개수 */
   getKeyCount(): number {
     return this.apiKeys.length
   }
+
+  /** 티어 구성 조회 */
+  getTiers(): ModelTierConfig[] {
+    return this.tiers.map((tier) => ({ ...tier, models: [...tier.models] }))
+  }
+}
+
+/**
+ * 설정에서 티어 구성 결정
+ * tiers 미지정 시 기본 Pro → Flash (defaultModel이 있으면 1군 모델 대체)
+ */
+function resolveTiers(config: AICoreConfig): ModelTierConfig[] {
+  if (config.tiers && config.tiers.length > 0) {
+    for (const tier of config.tiers) {
+      if (tier.models.length === 0) {
+        throw new Error(`모델 티어 '${tier.name}'에 모델이 없습니다.`)
+      }
+    }
+    return config.tiers
+  }
+
+  return DEFAULT_MODEL_TIERS.map((tier, i) =>
+    i === 0 && config.defaultModel
+      ? { ...tier, models: [config.defaultModel] }
+      : tier
+  )
+}
+
+/**
+ * 키 풀 클라이언트 설정 (풀 설정 > 상위 설정)
+ * 캐시 저장소는 풀 설정에 없으면 풀마다 새로 만들어 브랜드 간 응답이 섞이지 않게 한다.
+ */
+function toPoolConfig(config: AICoreConfig, name: string, pool: KeyPoolConfig): AICoreConfig {
+  return {
+    ...config,
+    pools: undefined,
+    cacheStore: undefined,
+    embeddingCacheStore: undefined,
+    ...pool,
+    pool: name,
+  }
+}
+
+/** 키+모델 상태 초기값 */
+function createKeyModelState(
+  key: string,
+  model: GeminiModel,
+  tier: number,
+  tierName: string
+): KeyModelState {
+  return {
+    key,
+    model,
+    tier,
+    tierName,
+    healthId: createKeyHealthId(key, model),
+    errorCount: 0,
+    useCount: 0,
+    recentErrors: [],
+  }
+}
+
+/**
+ * 외부 공급자 × 모델 상태 초기값
+ * 키 자리에는 공급자 식별자를 두어 상태 저장소/레이트 리밋 ID가 Gemini 키와 겹치지 않게 한다.
+ */
+function createProviderModelState(
+  provider: LLMProvider,
+  model: GeminiModel,
+  tier: number,
+  tierName: string
+): KeyModelState {
+  return {
+    ...createKeyModelState(`provider:${provider.name}`, model, tier, tierName),
+    provider,
+  }
+}
+
+/** 쿨다운 중인지 확인 */
+function isCoolingDown(status: KeyModelState, now: number): boolean {
+  return status.cooldownUntil !== undefined && status.cooldownUntil.getTime() > now
+}
+
+/** 쿨다운이 끝난 조합 복구 */
+function recoverExpiredCooldown(status: KeyModelState, now: number): void {
+  if (status.cooldownUntil && status.cooldownUntil.getTime() <= now) {
+    status.errorCount = 0
+    status.cooldownUntil = undefined
+  }
+}
+
+/** 최근 오류 기록 (최신순, 최대 MAX_RECENT_ERRORS개) */
+function recordRecentError(status: KeyModelState, entry: KeyErrorEntry): void {
+  status.recentErrors.unshift(entry)
+  status.recentErrors.length = Math.min(status.recentErrors.length, MAX_RECENT_ERRORS)
+}
+
+/** 화면 표시용 키 식별 정보 (외부 공급자는 가릴 키가 없어 식별자 그대로) */
+function describeKey(status: KeyModelState): { keyFingerprint: string; maskedKey: string } {
+  return status.provider
+    ? { keyFingerprint: status.key, maskedKey: status.key }
+    : { keyFingerprint: getKeyFingerprint(status.key), maskedKey: maskApiKey(status.key) }
+}
+
+/** 오류 분류 → 점검 결과 종류 */
+function toProbeStatus(classified: ClassifiedError): KeyProbeStatus {
+  if (classified.authFailure) return 'auth_failed'
+  if (classified.status === 429) {
+    return classified.category === 'key' ? 'quota_exhausted' : 'rate_limited'
+  }
+  if (classified.status === 404) return 'model_unavailable'
+  return 'error'
+}
+
+/** 저장소 기록을 내부 상태에 반영 */
+function applyHealthRecord(status: KeyModelState, record: KeyHealthRecord): void {
+  status.errorCount = record.errorCount
+  status.cooldownUntil = record.cooldownUntil ?? undefined
+  // 마지막 사용 시각은 저장 간격이 있어 메모리 값이 더 최근일 수 있으므로 더 최근 값 유지
+  if (record.lastUsedAt && (!status.lastUsed || record.lastUsedAt > status.lastUsed)) {
+    status.lastUsed = record.lastUsedAt
+  }
+}
+
+/** 내부 상태를 저장소 기록으로 변환 */
+function toHealthRecord(status: KeyModelState): KeyHealthRecord {
+  return {
+    errorCount: status.errorCount,
+    cooldownUntil: status.cooldownUntil ?? null,
+    lastUsedAt: status.lastUsed ?? null,
+  }
+}
+
+/** 폴백 실행 상태 생성 (신호는 실행 시작 시 제한 시간과 함께 설정) */
+function createFallbackState(
+  operation: UsageOperation,
+  feature?: string,
+  estimatedTokens = 0
+): FallbackState {
+  const signal = new AbortController().signal
+  return {
+    operation,
+    feature,
+    attempts: [],
+    retryableCount: 0,
+    nextDelayMs: 0,
+    estimatedTokens,
+    signal,
+    attemptSignal: signal,
+    attemptStartedAt: 0,
+  }
+}
+
+/** 모든 조합 실패 시 던질 에러 (마지막 시도 기준 분류) */
+function createExhaustedError(
+  state: FallbackState,
+  fallbackMessage = '모든 API 키와 모델 조합이 실패했습니다.'
+): GeminiError {
+  const last = state.attempts[state.attempts.length - 1]
+  return new GeminiError(last?.message ?? fallbackMessage, {
+    category: last?.category ?? 'key',
+    status: last?.status,
+    attempts: state.attempts,
+  })
+}
+
+/** 응답 종료 상태 (차단/잘림 판정용) */
+interface ResponseOutcome {
+  blockReason?: string
+  finishReason?: string
+  safetyRatings?: SafetyRating[]
+}
+
+/** 안전/정책 사유로 응답 생성이 중단된 종료 사유 */
+const BLOCKED_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.RECITATION,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+])
+
+/** 응답의 차단 사유, 종료 사유, 안전 평가 */
+function getResponseOutcome(response: GenerateContentResponse): ResponseOutcome {
+  const candidate = response.candidates?.[0]
+  return {
+    blockReason: response.promptFeedback?.blockReason,
+    finishReason: candidate?.finishReason,
+    safetyRatings: candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings,
+  }
+}
+
+/**
+ * 응답 텍스트 검사
+ * 안전 필터 차단은 GeminiBlockedError, 최대 출력 토큰 도달로 비었거나
+ * (failOnTruncation 시) 잘린 응답은 GeminiTruncatedError로 던진다. 모두 요청 단위 오류.
+ */
+function assertResponseText(
+  outcome: ResponseOutcome,
+  text: string,
+  failOnTruncation: boolean
+): string {
+  const { blockReason, finishReason, safetyRatings } = outcome
+
+  if (blockReason) {
+    throw new GeminiBlockedError(`프롬프트가 안전 필터에 차단되었습니다: ${blockReason}`, {
+      stage: 'prompt',
+      reason: blockReason,
+      safetyRatings,
+    })
+  }
+
+  if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+    throw new GeminiBlockedError(`응답이 안전 필터에 차단되었습니다: ${finishReason}`, {
+      stage: 'response',
+      reason: finishReason,
+      safetyRatings,
+    })
+  }
+
+  if (finishReason === FinishReason.MAX_TOKENS && (!text || failOnTruncation)) {
+    throw new GeminiTruncatedError(
+      text
+        ? '응답이 최대 출력 토큰에서 잘렸습니다.'
+        : '최대 출력 토큰에 도달해 응답이 비었습니다. (maxOutputTokens 또는 thinkingBudget 확인)',
+      text
+    )
+  }
+
+  if (!text) {
+    throw new Error('빈 응답')
+  }
+
+  return text
+}
+
+/** 공급자 응답 → 생성 결과 */
+function fromProviderResponse(response: ProviderResponse): GenerateResult {
+  return {
+    text: response.text,
+    outcome: { blockReason: response.blockReason, finishReason: response.finishReason },
+    usage: response.usage,
+  }
+}
+
+/** 비동기 이터러블 변환 */
+async function* mapAsync<T, R>(iterable: AsyncIterable<T>, map: (value: T) => R): AsyncGenerator<R> {
+  for await (const value of iterable) {
+    yield map(value)
+  }
+}
+
+/** 응답 텍스트 추출 (차단/잘림/빈 응답 검사 포함) */
+function getResponseText(
+  response: GenerateContentResponse,
+  failOnTruncation = false
+): string {
+  return assertResponseText(getResponseOutcome(response), response.text ?? '', failOnTruncation)
+}
+
+/**
+ * 요청 예상 입력 토큰 (컨텍스트 캐시 내용 포함)
+ * 컨텍스트 캐시를 쓰는 요청은 시스템 인스트럭션을 캐시에만 둘 수 있다.
+ */
+function estimateRequestTokens(prompt: PromptInput, options: GenerateOptions): number {
+  const { systemInstruction, contextCache } = options
+  if (contextCache && systemInstruction) {
+    throw new Error('컨텍스트 캐시를 사용할 때는 systemInstruction을 캐시에 지정하세요.')
+  }
+  return estimatePromptTokens(prompt, systemInstruction) + (contextCache?.estimatedTokens ?? 0)
+}
+
+/** 생성 입력을 멀티턴 contents 형식으로 변환 */
+function toContents(prompt: PromptInput): Content[] {
+  return typeof prompt === 'string'
+    ? [{ role: 'user', parts: [{ text: prompt }] }]
+    : [...prompt]
 }
 
 // 싱글턴 인스턴스 (환경변수 기반 - 기존 호환성)
 let defaultClient: GeminiClient | null = null
 
+/** 환경변수 객체 (기본: process.env) */
+type EnvLike = Record<string, string | undefined>
+
+/**
+ * 환경변수에서 API 키 목록 읽기 (개수 제한 없음, 중복 제거)
+ * GEMINI_API_KEYS(쉼표 구분) → GEMINI_API_KEY → GEMINI_API_KEY_2, _3, ... 번호순
+ */
+export function loadApiKeysFromEnv(env: EnvLike = process.env, prefix = 'GEMINI_API_KEY'): string[] {
+  const numbered = Object.keys(env)
+    .map((name) => ({ name, match: name.match(new RegExp(`^${prefix}_(\\d+)$`)) }))
+    .filter((entry) => entry.match)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map((entry) => env[entry.name])
+
+  const keys = [...splitKeys(env[`${prefix}S`]), env[prefix], ...numbered]
+    .map((key) => key?.trim())
+    .filter((key): key is string => Boolean(key))
+  return [...new Set(keys)]
+}
+
+/**
+ * 환경변수에서 키 풀 읽기
+ * GEMINI_POOL_<이름>_API_KEYS=키1,키2 (풀 이름은 소문자, '_'는 '-'로 변환, 예: BRAND_A → brand-a)
+ */
+export function loadKeyPoolsFromEnv(env: EnvLike = process.env): Record<string, KeyPoolConfig> {
+  const pools: Record<string, KeyPoolConfig> = {}
+  for (const [name, value] of Object.entries(env)) {
+    const match = name.match(/^GEMINI_POOL_(.+)_API_KEYS$/)
+    const apiKeys = splitKeys(value)
+    if (match && apiKeys.length > 0) {
+      pools[match[1]!.toLowerCase().replace(/_/g, '-')] = { apiKeys }
+    }
+  }
+  return pools
+}
+
+/** 쉼표 구분 키 목록 */
+function splitKeys(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean)
+}
+
 /** 기본 클라이언트 가져오기 (환경변수 사용) */
 export function getDefaultClient(): GeminiClient {
   if (!defaultClient) {
-    const apiKeys = [
-      process.env.GEMINI_API_KEY,
-      process.env.GEMINI_API_KEY_2,
-      process.env.GEMINI_API_KEY_3,
-    ].filter((key): key is string => Boolean(key))
+    const apiKeys = loadApiKeysFromEnv()
+    const pools = loadKeyPoolsFromEnv()
 
-    if (apiKeys.length === 0) {
+    if (apiKeys.length === 0 && Object.keys(pools).length === 0) {
       throw new Error('GEMINI_API_KEY 환경변수가 설정되지 않았습니다.')
     }
 
-    defaultClient = new GeminiClient({ apiKeys })
+    defaultClient = new GeminiClient({ apiKeys, pools })
   }
   return defaultClient
 }
 
+/**
+ * 기본 클라이언트 지정 (호스트 앱 설정으로 만든 클라이언트를 모듈 함수에서 사용)
+ * null을 넘기면 다음 호출 때 환경변수로 다시 만든다.
+ */
+export function setDefaultClient(client: GeminiClient | null): void {
+  defaultClient = client
+}
+
 /** 기존 호환성을 위한 함수들 */
 export async function generateWithFallback(
-  prompt: string,
+  prompt: PromptInput,
   options: GenerateOptions = {}
 ): Promise<string> {
   return getDefaultClient().generateWithFallback(prompt, options)
 }
 
+export async function generateMultimodal(
+  parts: MultimodalPart[],
+  options: GenerateOptions = {}
+): Promise<string> {
+  return getDefaultClient().generateMultimodal(parts, options)
+}
+
+export function streamWithFallback(
+  prompt: PromptInput,
+  options: GenerateOptions = {}
+): AsyncGenerator<StreamChunk> {
+  return getDefaultClient().streamWithFallback(prompt, options)
+}
+
+export async function generateStructured<T>(
+  prompt: PromptInput,
+  schema: StructuredSchema,
+  options: StructuredGenerateOptions = {}
+): Promise<T> {
+  return getDefaultClient().generateStructured<T>(prompt, schema, options)
+}
+
+export async function runWithTools(
+  prompt: PromptInput,
+  registry: ToolRegistry,
+  options: RunWithToolsOptions = {}
+): Promise<ToolRunResult> {
+  return getDefaultClient().runWithTools(prompt, registry, options)
+}
+
 export async function executeWithFallback<T>(
-  operation: (client: GoogleGenAI, model: GeminiModel) => Promise<T>,
-  options: { maxRetries?: number; preferredTier?: 1 | 2 } = {}
+  operation: (client: GoogleGenAI, model: GeminiModel, signal: AbortSignal) => Promise<T>,
+  options: ExecuteOptions<T> = {}
 ): Promise<T> {
   return getDefaultClient().executeWithFallback(operation, options)
 }
 
+export async function executeWithProvider<T>(
+  operation: (provider: LLMProvider, model: GeminiModel, signal: AbortSignal) => Promise<T>,
+  options: ExecuteOptions<T> = {}
+): Promise<T> {
+  return getDefaultClient().executeWithProvider(operation, options)
+}
+
 export async function executeWithKeyFallback<T>(
-  operation: (client: GoogleGenAI) => Promise<T>,
-  maxRetries = 3
+  operation: (client: GoogleGenAI, signal: AbortSignal) => Promise<T>,
+  maxRetriesOrOptions: number | KeyFallbackOptions<T> = 3
 ): Promise<T> {
-  return getDefaultClient().executeWithKeyFallback(operation, maxRetries)
+  return getDefaultClient().executeWithKeyFallback(operation, maxRetriesOrOptions)
+}
+
+export async function countTokens(
+  prompt: PromptInput,
+  options: CountTokensOptions = {}
+): Promise<TokenCount> {
+  return getDefaultClient().countTokens(prompt, options)
 }
 
 export function getKeyModelStatuses(): Omit<KeyModelStatus, 'key'>[] {
   return getDefaultClient().getKeyModelStatuses()
 }
 
+export function getKeyStatusSnapshot(): Promise<KeyStatusSnapshot> {
+  return getDefaultClient().getKeyStatusSnapshot()
+}
+
+export function probeKeys(options: ProbeKeysOptions = {}): Promise<KeyProbeResult[]> {
+  return getDefaultClient().probeKeys(options)
+}
+
+export function getUsageSummary(): UsageSummary {
+  return getDefaultClient().getUsageSummary()
+}
+
 export function hasAvailableKeys(): boolean {
   try {
     return getDefaultClient().getKeyCount() > 0
@@ -366,7 +2627,7 @@ export function getGeminiClient(): GoogleGenAI | null {
     getDefaultClient()
     // 첫 번째 API 키로 클라이언트 생성
     return new GoogleGenAI({
-      apiKey: process.env.GEMINI_API_KEY ?? '',
+      apiKey: loadApiKeysFromEnv()[0] ?? '',
     })
   } catch {
     return null
@@ -0,0 +1,120 @@
+// packages/ai-core/src/gemini-provider.ts
+// Gemini 공급자 - API 키 1개의 GoogleGenAI 클라이언트를 LLMProvider 인터페이스로 감쌈
+
+import { GoogleGenAI, type GenerateContentConfig, type GenerateContentResponse } from '@google/genai'
+
+import { toGenerateContentConfig } from './generation-config'
+import { extractUsageTokens } from './usage'
+import type {
+  LLMProvider,
+  ProviderCountTokensRequest,
+  ProviderEmbedRequest,
+  ProviderGenerateRequest,
+  ProviderResponse,
+  ProviderResponseChunk,
+} from './types'
+
+/** Gemini 공급자 옵션 (apiKey 또는 이미 만든 client 중 하나) */
+export interface GeminiProviderOptions {
+  apiKey?: string
+  client?: GoogleGenAI
+  /** 공급자 이름 (기본: 'gemini') */
+  name?: string
+}
+
+/**
+ * Gemini 공급자
+ * GeminiClient는 Gemini 키 조합을 이 공급자로 감싸 executeWithProvider에 넘기며,
+ * 다른 공급자와 같은 인터페이스로 직접 사용할 수도 있다.
+ */
+export class GeminiProvider implements LLMProvider {
+  readonly name: string
+  private client: GoogleGenAI
+
+  constructor(options: GeminiProviderOptions) {
+    if (!options.client && !options.apiKey) {
+      throw new Error('Gemini 공급자에는 apiKey 또는 client가 필요합니다.')
+    }
+
+    this.name = options.name ?? 'gemini'
+    this.client = options.client ?? new GoogleGenAI({ apiKey: options.apiKey! })
+  }
+
+  async generate(request: ProviderGenerateRequest): Promise<ProviderResponse> {
+    const response = await this.client.models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config: toConfig(request),
+    })
+    return toProviderResponse(response)
+  }
+
+  async *stream(request: ProviderGenerateRequest): AsyncGenerator<ProviderResponseChunk> {
+    const stream = await this.client.models.generateContentStream({
+      model: request.model,
+      contents: request.contents,
+      config: toConfig(request),
+    })
+
+    for await (const chunk of stream) {
+      const { text, finishReason, blockReason, usage } = toProviderResponse(chunk)
+      yield { text: text || undefined, finishReason, blockReason, usage }
+    }
+  }
+
+  async embed(request: ProviderEmbedRequest): Promise<number[][]> {
+    const result = await this.client.models.embedContent({
+      model: request.model,
+      contents: request.texts,
+      config: {
+        taskType: request.taskType,
+        title: request.title,
+        outputDimensionality: request.outputDimensionality,
+        abortSignal: request.signal,
+      },
+    })
+    return (result.embeddings ?? []).map((embedding) => embedding.values ?? [])
+  }
+
+  /** 시스템 인스트럭션은 첫 사용자 턴으로 포함해 계산 */
+  async countTokens(request: ProviderCountTokensRequest): Promise<number> {
+    const contents = request.systemInstruction
+      ? [{ role: 'user', parts: [{ text: request.systemInstruction }] }, ...request.contents]
+      : request.contents
+
+    const result = await this.client.models.countTokens({
+      model: request.model,
+      contents,
+      config: { abortSignal: request.signal },
+    })
+    return result.totalTokens ?? 0
+  }
+}
+
+/** Gemini 공급자 생성 */
+export function createGeminiProvider(options: GeminiProviderOptions): GeminiProvider {
+  return new GeminiProvider(options)
+}
+
+/** 공급자 요청 → SDK config */
+function toConfig(request: ProviderGenerateRequest): GenerateContentConfig {
+  return {
+    ...toGenerateContentConfig(request.generation ?? {}),
+    systemInstruction: request.systemInstruction,
+    ...(request.responseJsonSchema && {
+      responseMimeType: 'application/json',
+      responseJsonSchema: request.responseJsonSchema,
+    }),
+    abortSignal: request.signal,
+  }
+}
+
+/** SDK 응답 → 공급자 응답 */
+function toProviderResponse(response: GenerateContentResponse): ProviderResponse {
+  return {
+    text: response.text ?? '',
+    finishReason: response.candidates?.[0]?.finishReason,
+    blockReason: response.promptFeedback?.blockReason,
+    usage: extractUsageTokens(response),
+  }
+}
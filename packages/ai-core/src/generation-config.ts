@@ -0,0 +1,88 @@
+// packages/ai-core/src/generation-config.ts
+// 생성 설정 - 샘플링/출력 길이/사고 예산/안전 설정 병합 및 SDK config 변환
+
+import {
+  HarmBlockThreshold,
+  HarmCategory,
+  type GenerateContentConfig,
+} from '@google/genai'
+
+import type {
+  GenerationSettings,
+  SafetyCategory,
+  SafetyThreshold,
+} from './types'
+
+/** 안전 카테고리 → SDK HarmCategory */
+const SAFETY_CATEGORIES: Record<SafetyCategory, HarmCategory> = {
+  harassment: HarmCategory.HARM_CATEGORY_HARASSMENT,
+  hateSpeech: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  sexuallyExplicit: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  dangerousContent: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+  civicIntegrity: HarmCategory.HARM_CATEGORY_CIVIC_INTEGRITY,
+}
+
+/** 차단 기준 → SDK HarmBlockThreshold */
+const SAFETY_THRESHOLDS: Record<SafetyThreshold, HarmBlockThreshold> = {
+  off: HarmBlockThreshold.OFF,
+  blockNone: HarmBlockThreshold.BLOCK_NONE,
+  blockOnlyHigh: HarmBlockThreshold.BLOCK_ONLY_HIGH,
+  blockMediumAndAbove: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  blockLowAndAbove: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+}
+
+/**
+ * 생성 설정 병합 (뒤의 설정이 우선)
+ * 안전 설정은 카테고리 단위로 병합한다.
+ */
+export function mergeGenerationSettings(
+  ...layers: Array<GenerationSettings | null | undefined>
+): GenerationSettings {
+  const merged: GenerationSettings = {}
+
+  for (const layer of layers) {
+    if (!layer) continue
+
+    const { safety, ...rest } = layer
+    Object.assign(merged, omitUndefined(rest))
+    if (safety) {
+      merged.safety = { ...merged.safety, ...safety }
+    }
+  }
+
+  return merged
+}
+
+/** 생성 설정을 SDK GenerateContentConfig 필드로 변환 (지정된 값만) */
+export function toGenerateContentConfig(
+  settings: GenerationSettings
+): GenerateContentConfig {
+  const { thinkingBudget, safety, ...sampling } = settings
+  const config: GenerateContentConfig = omitUndefined(sampling)
+
+  if (thinkingBudget !== undefined) {
+    config.thinkingConfig = { thinkingBudget }
+  }
+
+  if (safety) {
+    const safetySettings = (Object.entries(safety) as Array<[SafetyCategory, SafetyThreshold]>)
+      .filter(([, threshold]) => threshold !== undefined)
+      .map(([category, threshold]) => ({
+        category: SAFETY_CATEGORIES[category],
+        threshold: SAFETY_THRESHOLDS[threshold],
+      }))
+
+    if (safetySettings.length > 0) {
+      config.safetySettings = safetySettings
+    }
+  }
+
+  return config
+}
+
+/** undefined 값 제거 (병합 시 앞 설정을 덮어쓰지 않도록) */
+function omitUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>
+}
@@ -5,25 +5,139 @@
 export {
   GeminiClient,
   MODEL_TIERS,
+  DEFAULT_MODEL_TIERS,
   getDefaultClient,
+  setDefaultClient,
+  loadApiKeysFromEnv,
+  loadKeyPoolsFromEnv,
   generateWithFallback,
+  generateMultimodal,
+  streamWithFallback,
+  generateStructured,
+  runWithTools,
   executeWithFallback,
+  executeWithProvider,
   executeWithKeyFallback,
+  countTokens,
   getKeyModelStatuses,
+  getKeyStatusSnapshot,
+  probeKeys,
+  getUsageSummary,
   hasAvailableKeys,
   getGeminiClient,
 } from './gemini-client'
 
+// LLM 공급자
+export { GeminiProvider, createGeminiProvider } from './gemini-provider'
+export type { GeminiProviderOptions } from './gemini-provider'
+export {
+  OpenAICompatibleProvider,
+  createOpenAICompatibleProvider,
+} from './openai-compatible-provider'
+export type { OpenAICompatibleProviderOptions } from './openai-compatible-provider'
+
+// 멀티모달 입력
+export {
+  InlineDataUploader,
+  toPart,
+  toMultimodalContents,
+  getInlineDataBytes,
+  isSupportedMimeType,
+  DEFAULT_INLINE_LIMIT_BYTES,
+  MAX_FILE_BYTES,
+} from './multimodal'
+
+// 도구 (함수 호출)
+export { ToolRegistry, createToolRegistry, defineTool } from './tools'
+
+// rag-kit 어댑터
+export { RagKitClient, toRagKitClient } from './rag-kit-adapter'
+
+// 키 상태 저장소
+export {
+  InMemoryKeyHealthStore,
+  PrismaKeyHealthStore,
+  createPrismaKeyHealthStore,
+  createKeyHealthId,
+  getKeyFingerprint,
+  maskApiKey,
+} from './key-health-store'
+
+// 응답 캐시
+export {
+  InMemoryResponseCache,
+  createResponseCacheKey,
+  DEFAULT_RESPONSE_CACHE_TTL,
+} from './response-cache'
+
+// 임베딩 캐시
+export {
+  InMemoryEmbeddingCache,
+  PrismaEmbeddingCache,
+  createPrismaEmbeddingCache,
+  createEmbeddingCacheKey,
+} from './embedding-cache'
+
+// 컨텍스트 캐시
+export { DEFAULT_CONTEXT_CACHE_TTL, CONTEXT_CACHE_MIN_TOKENS } from './context-cache'
+
+// 사용량 집계
+export { UsageTracker, DEFAULT_PRICE_TABLE, extractUsageTokens } from './usage'
+export type { UsageInput } from './usage'
+export { estimateTokens } from './tokens'
+
+// 컨텍스트 예산
+export { ContextBudget, createContextBudget, MODEL_CONTEXT_WINDOWS } from './context-budget'
+export type {
+  BudgetItem,
+  PackedItem,
+  BudgetCut,
+  BudgetPackResult,
+  BudgetContext,
+  BudgetPromptInput,
+  BudgetPromptResult,
+  ContextBudgetOptions,
+} from './context-budget'
+
+// 로거
+export { createConsoleLogger, silentLogger } from './logger'
+export type { ConsoleLoggerOptions } from './logger'
+
 // 임베딩
 export {
   generateEmbedding,
   generateEmbeddingWithClient,
   generateEmbeddings,
   generateEmbeddingsWithClient,
-  vectorToString,
+  generateEmbeddingResults,
+  generateEmbeddingResultsWithClient,
   EMBEDDING_MODEL,
+  MAX_EMBEDDING_BATCH_SIZE,
 } from './embedding'
 
+// 벡터 유틸리티
+export {
+  dotProduct,
+  vectorNorm,
+  cosineSimilarity,
+  l2Distance,
+  l2Similarity,
+  similarity,
+  normalizeVector,
+  centroid,
+  quantizeInt8,
+  dequantizeInt8,
+  quantizeBinary,
+  hammingDistance,
+  vectorToString,
+  parsePgVector,
+  toPgHalfvec,
+  toPgBit,
+  topK,
+  rankBySimilarity,
+} from './vector'
+export type { SimilarityMetric, RankedItem, Int8Quantized } from './vector'
+
 // 프롬프트 서비스
 export {
   PromptService,
@@ -33,11 +147,82 @@ export {
   getSystemInstruction,
   getTaskPrompt,
   getFullPrompt,
+  renderPrompt,
   clearPromptCache,
   invalidatePromptCache,
   PROMPT_KEYS,
 } from './prompt-service'
-export type { PromptKey } from './prompt-service'
+export type { PromptKey, PromptUpdate } from './prompt-service'
+
+// 프롬프트 템플릿
+export {
+  PromptTemplate,
+  compileTemplate,
+  renderTemplate,
+  validateTemplate,
+} from './prompt-template'
+export type { TemplateRenderResult } from './prompt-template'
+
+// 생성 설정
+export { mergeGenerationSettings, toGenerateContentConfig } from './generation-config'
+
+// 구조화 출력
+export {
+  parseStructured,
+  validateStructured,
+  toResponseJsonSchema,
+} from './structured-output'
+export type { StructuredParseResult } from './structured-output'
+
+// 에러
+export {
+  GeminiError,
+  GeminiAbortError,
+  GeminiBlockedError,
+  GeminiTruncatedError,
+  StructuredOutputError,
+  ToolLoopError,
+  EmbeddingBatchError,
+  ProviderError,
+  ContextBudgetError,
+  PromptTemplateError,
+} from './errors'
+export {
+  classifyGeminiError,
+  computeBackoffDelay,
+  DEFAULT_RETRY_POLICY,
+} from './retry-policy'
+export type { ClassifiedError } from './retry-policy'
+
+// 채팅 세션
+export { ChatSession, createChatSession } from './chat-session'
+export type { ChatSessionOptions, ChatSendOptions } from './chat-session'
+
+// 테스트 도구 (가짜 클라이언트, 녹화/재생)
+export {
+  FakeGeminiClient,
+  FakeGenAIBackend,
+  fakeText,
+  fakeRateLimit,
+  fakeEmpty,
+  fakeSlow,
+  fakeError,
+  fakeFunctionCall,
+  fakeTruncated,
+  createFakeEmbedding,
+  extractPromptText,
+} from './fake-client'
+export type {
+  FakeMethod,
+  FakeRequest,
+  FakeResponse,
+  FakeUpload,
+  FakeCachedContent,
+  FakeRule,
+  FakeGeminiClientOptions,
+} from './fake-client'
+export { GeminiRecorder, GeminiReplayer } from './record-replay'
+export type { RecordedExchange, GeminiFixture } from './record-replay'
 
 // 타입
 export type {
@@ -47,10 +232,87 @@ export type {
   AIResponse,
   APIKeyStatus,
   KeyModelStatus,
+  KeyErrorEntry,
+  KeyProbeStatus,
+  KeyProbeResult,
+  ProbeKeysOptions,
+  KeyStatusEntry,
+  KeyStatusSnapshot,
+  ModelTierConfig,
   AICoreConfig,
+  KeyPoolConfig,
+  RetryPolicy,
+  RateLimitConfig,
+  CachedResponse,
+  ResponseCacheStore,
+  ResponseCacheStats,
+  EmbeddingCacheEntry,
+  EmbeddingCacheStore,
+  EmbeddingCacheStats,
+  EmbeddingCachePrismaLike,
+  ContextCache,
+  ContextCacheOptions,
+  KeyHealthRecord,
+  KeyHealthFailure,
+  KeyHealthStore,
+  KeyHealthPrismaLike,
+  KeyHealthRow,
+  GeminiErrorCategory,
+  GeminiAttempt,
   PromptData,
   PrismaClientLike,
   PromptRecord,
+  TemplateValue,
+  TemplateValues,
+  TemplateVariableType,
+  TemplateVariable,
+  TemplateVariables,
+  TemplateIssue,
+  CancellationOptions,
+  FallbackOptions,
+  ExecuteOptions,
+  KeyFallbackOptions,
+  CountTokensOptions,
+  TokenCount,
+  EmbeddingOptions,
+  EmbeddingTaskType,
+  EmbeddingInput,
+  EmbeddingResult,
   GenerateOptions,
+  GenerationSettings,
+  SafetyCategory,
+  SafetyThreshold,
+  PromptInput,
+  MultimodalPart,
   StreamChunk,
+  StructuredSchema,
+  StructuredGenerateOptions,
+  UsageOperation,
+  UsageTokens,
+  UsageRecord,
+  UsageRecorder,
+  ModelPrice,
+  PriceTable,
+  UsageTotals,
+  UsageSummary,
+  LogLevel,
+  LogFields,
+  Logger,
+  AttemptEvent,
+  FallbackEvent,
+  SuccessEvent,
+  FailureEvent,
+  GeminiClientHooks,
+  ToolCallContext,
+  ToolDefinition,
+  ToolCallRecord,
+  ToolCallingMode,
+  RunWithToolsOptions,
+  ToolRunResult,
+  LLMProvider,
+  ProviderGenerateRequest,
+  ProviderResponse,
+  ProviderResponseChunk,
+  ProviderEmbedRequest,
+  ProviderCountTokensRequest,
 } from './types'
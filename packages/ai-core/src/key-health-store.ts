@@ -0,0 +1,199 @@
+// packages/ai-core/src/key-health-store.ts
+// 키+모델 상태 저장소 - 에러 카운트/쿨다운/마지막 사용 시각을 프로세스 간 공유
+
+import { createHash } from 'node:crypto'
+
+import type {
+  GeminiModel,
+  KeyHealthFailure,
+  KeyHealthPrismaLike,
+  KeyHealthRecord,
+  KeyHealthStore,
+} from './types'
+
+/**
+ * API 키 지문 (sha256 앞 12자리)
+ * 저장소와 로그에 키 원문을 남기지 않기 위해 사용
+ */
+export function getKeyFingerprint(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex').slice(0, 12)
+}
+
+/** 화면 표시용 키 마스킹 (앞 4자 + 뒤 4자, 짧은 키는 전체 가림) */
+export function maskApiKey(apiKey: string): string {
+  return apiKey.length > 12 ? `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}` : '****'
+}
+
+/** 저장소에서 사용하는 키+모델 조합 ID */
+export function createKeyHealthId(apiKey: string, model: GeminiModel): string {
+  return `${getKeyFingerprint(apiKey)}:${model}`
+}
+
+/**
+ * 실패 반영 후 상태 계산 (저장소 구현 공용)
+ * 쿨다운이 끝난 기록은 이번 실패부터 다시 세고, 기준 횟수에 도달하면 쿨다운을 시작한다.
+ * 이미 쿨다운 중이면 종료 시각을 당기지 않는다. 실패한 시각을 마지막 사용 시각으로 기록한다.
+ */
+export function applyKeyHealthFailure(
+  record: KeyHealthRecord | undefined,
+  failure: KeyHealthFailure,
+  now = Date.now()
+): KeyHealthRecord {
+  const active = record?.cooldownUntil && record.cooldownUntil.getTime() > now
+  const previousCount = record && (active || !record.cooldownUntil) ? record.errorCount : 0
+  const errorCount = failure.disable ? failure.maxErrorCount : previousCount + 1
+
+  let cooldownUntil = active ? (record?.cooldownUntil ?? null) : null
+  if (errorCount >= failure.maxErrorCount && !cooldownUntil) {
+    cooldownUntil = new Date(now + failure.recoveryMs)
+  }
+  if (failure.retryAfterMs !== undefined) {
+    const hinted = now + failure.retryAfterMs
+    if (!cooldownUntil || cooldownUntil.getTime() < hinted) {
+      cooldownUntil = new Date(hinted)
+    }
+  }
+
+  return { errorCount, cooldownUntil, lastUsedAt: new Date(now) }
+}
+
+/** 메모리 저장소 (기본값) - 단일 프로세스 내에서만 공유 */
+export class InMemoryKeyHealthStore implements KeyHealthStore {
+  private records = new Map<string, KeyHealthRecord>()
+
+  async getMany(ids: string[]): Promise<Map<string, KeyHealthRecord>> {
+    const result = new Map<string, KeyHealthRecord>()
+    for (const id of ids) {
+      const record = this.records.get(id)
+      if (record) {
+        result.set(id, { ...record })
+      }
+    }
+    return result
+  }
+
+  async set(id: string, record: KeyHealthRecord): Promise<void> {
+    this.records.set(id, { ...record })
+  }
+
+  async recordFailure(id: string, failure: KeyHealthFailure): Promise<KeyHealthRecord> {
+    // 조회부터 저장까지 await 없이 처리하므로 동시 실패도 순서대로 반영됨
+    const record = applyKeyHealthFailure(this.records.get(id), failure)
+    this.records.set(id, record)
+    return { ...record }
+  }
+
+  async recordUse(id: string, usedAt: Date): Promise<void> {
+    const record = this.records.get(id)
+    this.records.set(id, {
+      errorCount: record?.errorCount ?? 0,
+      cooldownUntil: record?.cooldownUntil ?? null,
+      lastUsedAt: usedAt,
+    })
+  }
+}
+
+/**
+ * Prisma 저장소 - 서버리스 인스턴스/재시작 간 쿨다운 공유
+ * 호스트 앱 스키마에 AIKeyHealth 모델이 필요하다. (README 참고)
+ */
+export class PrismaKeyHealthStore implements KeyHealthStore {
+  private prisma: KeyHealthPrismaLike
+
+  constructor(options: { prisma: KeyHealthPrismaLike }) {
+    this.prisma = options.prisma
+  }
+
+  async getMany(ids: string[]): Promise<Map<string, KeyHealthRecord>> {
+    const rows = await this.prisma.aIKeyHealth.findMany({
+      where: { id: { in: ids } },
+    })
+
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        {
+          errorCount: row.errorCount,
+          cooldownUntil: row.cooldownUntil,
+          lastUsedAt: row.lastUsedAt,
+        },
+      ])
+    )
+  }
+
+  async set(id: string, record: KeyHealthRecord): Promise<void> {
+    await this.prisma.aIKeyHealth.upsert({
+      where: { id },
+      create: { id, ...record },
+      update: record,
+    })
+  }
+
+  /**
+   * 에러 횟수는 DB의 원자적 증가로 반영하고 (동시 실패 유실 없음),
+   * 쿨다운 시작/만료된 횟수 재설정처럼 결과가 달라질 때만 한 번 더 갱신한다.
+   */
+  async recordFailure(id: string, failure: KeyHealthFailure): Promise<KeyHealthRecord> {
+    const now = Date.now()
+    const row = await this.prisma.aIKeyHealth.upsert({
+      where: { id },
+      create: {
+        id,
+        ...applyKeyHealthFailure(undefined, failure, now),
+      },
+      update: {
+        errorCount: failure.disable ? failure.maxErrorCount : { increment: 1 },
+        lastUsedAt: new Date(now),
+      },
+    })
+
+    // 증가 전 상태 기준으로 계산 (증가분은 이미 반영됨)
+    const before: KeyHealthRecord = {
+      errorCount: failure.disable ? row.errorCount : row.errorCount - 1,
+      cooldownUntil: row.cooldownUntil,
+      lastUsedAt: row.lastUsedAt,
+    }
+    const next = applyKeyHealthFailure(before, failure, now)
+    if (
+      next.errorCount === row.errorCount &&
+      next.cooldownUntil?.getTime() === row.cooldownUntil?.getTime()
+    ) {
+      return toRecord(row)
+    }
+
+    // 횟수가 그대로면 쿨다운만 갱신 (그 사이 다른 인스턴스가 증가시킨 횟수를 덮지 않도록)
+    const updated = await this.prisma.aIKeyHealth.update({
+      where: { id },
+      data:
+        next.errorCount === row.errorCount
+          ? { cooldownUntil: next.cooldownUntil }
+          : { errorCount: next.errorCount, cooldownUntil: next.cooldownUntil },
+    })
+    return toRecord(updated)
+  }
+
+  /** 마지막 사용 시각만 갱신 (다른 인스턴스가 반영한 에러 횟수를 덮지 않음) */
+  async recordUse(id: string, usedAt: Date): Promise<void> {
+    await this.prisma.aIKeyHealth.upsert({
+      where: { id },
+      create: { id, errorCount: 0, cooldownUntil: null, lastUsedAt: usedAt },
+      update: { lastUsedAt: usedAt },
+    })
+  }
+}
+
+/** DB 행 → 저장소 기록 */
+function toRecord(row: KeyHealthRecord): KeyHealthRecord {
+  return {
+    errorCount: row.errorCount,
+    cooldownUntil: row.cooldownUntil,
+    lastUsedAt: row.lastUsedAt,
+  }
+}
+
+/** Prisma 키 상태 저장소 생성 */
+export function createPrismaKeyHealthStore(
+  prisma: KeyHealthPrismaLike
+): PrismaKeyHealthStore {
+  return new PrismaKeyHealthStore({ prisma })
+}
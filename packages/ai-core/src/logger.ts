@@ -0,0 +1,53 @@
+// packages/ai-core/src/logger.ts
+// 로거 - 기본 콘솔 로거(레벨 + 구조화 필드) 및 무음 로거
+
+import type { LogFields, LogLevel, Logger } from './types'
+
+/** 레벨 우선순위 (이 값 이상만 출력) */
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+/** 콘솔 로거 옵션 */
+export interface ConsoleLoggerOptions {
+  /** 최소 출력 레벨 (기본: info) */
+  level?: LogLevel
+}
+
+/**
+ * 콘솔 로거 생성
+ * 메시지와 구조화 필드를 레벨에 맞는 console 메서드로 출력한다.
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const threshold = LOG_LEVEL_PRIORITY[options.level ?? 'info']
+
+  const write =
+    (level: Exclude<LogLevel, 'silent'>) =>
+    (message: string, fields?: LogFields): void => {
+      if (LOG_LEVEL_PRIORITY[level] < threshold) return
+      if (fields && Object.keys(fields).length > 0) {
+        console[level](message, fields)
+      } else {
+        console[level](message)
+      }
+    }
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  }
+}
+
+/** 아무것도 출력하지 않는 로거 */
+export const silentLogger: Logger = createConsoleLogger({ level: 'silent' })
+
+/** 오류를 로그 필드용 메시지로 변환 */
+export function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
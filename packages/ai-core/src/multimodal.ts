@@ -0,0 +1,229 @@
+// packages/ai-core/src/multimodal.ts
+// 멀티모달 입력 - 텍스트/인라인 바이트/파일 URI 파트 변환, 크기 검사, 대용량 인라인 데이터의 Files API 업로드
+
+import { createHash } from 'node:crypto'
+
+import { FileState, type Content, type GoogleGenAI, type Part } from '@google/genai'
+
+import { sleep } from './retry-policy'
+import type { MultimodalPart, PromptInput } from './types'
+
+/** 요청 1건의 인라인 데이터 합계 한도 (Gemini API 20MB, 기본값) */
+export const DEFAULT_INLINE_LIMIT_BYTES = 20 * 1024 * 1024
+
+/** Files API 파일 1개 최대 크기 (2GB) */
+export const MAX_FILE_BYTES = 2 * 1024 * 1024 * 1024
+
+/** 지원 MIME 타입 (접두사 일치) */
+const SUPPORTED_MIME_PREFIXES = [
+  'image/',
+  'audio/',
+  'video/',
+  'text/',
+  'application/pdf',
+  'application/json',
+]
+
+/** 업로드 파일 처리 상태 확인 간격 (ms) */
+const FILE_POLL_INTERVAL_MS = 1000
+
+/** 업로드된 파일 캐시 항목 */
+interface UploadedFile {
+  uri: string
+  mimeType: string
+  /** 만료 시각 (Files API 보관 기간 48시간) */
+  expiresAt: number
+}
+
+/** 만료 직전 파일은 재업로드 (10분 여유) */
+const UPLOAD_EXPIRY_MARGIN_MS = 10 * 60 * 1000
+
+/** Files API 기본 보관 기간 (48시간) */
+const FILE_RETENTION_MS = 48 * 60 * 60 * 1000
+
+/** MIME 타입 지원 여부 */
+export function isSupportedMimeType(mimeType: string): boolean {
+  const normalized = mimeType.toLowerCase()
+  return SUPPORTED_MIME_PREFIXES.some((prefix) => normalized.startsWith(prefix))
+}
+
+/**
+ * 멀티모달 파트를 SDK 파트로 변환
+ * 바이트 데이터는 base64로 인코딩하고, MIME 타입과 파일 크기를 검사한다.
+ */
+export function toPart(part: MultimodalPart): Part {
+  if (typeof part === 'string') {
+    return { text: part }
+  }
+
+  if ('text' in part) {
+    return { text: part.text }
+  }
+
+  if ('inlineData' in part) {
+    const { data, mimeType } = part.inlineData
+    assertSupportedMimeType(mimeType)
+
+    const bytes = typeof data === 'string' ? getBase64ByteLength(data) : data.byteLength
+    if (bytes === 0) {
+      throw new Error(`빈 인라인 데이터입니다 (${mimeType}).`)
+    }
+    if (bytes > MAX_FILE_BYTES) {
+      throw new Error(
+        `파일이 너무 큽니다 (${formatBytes(bytes)}, 최대 ${formatBytes(MAX_FILE_BYTES)}).`
+      )
+    }
+
+    return {
+      inlineData: {
+        data: typeof data === 'string' ? data : Buffer.from(data).toString('base64'),
+        mimeType,
+      },
+    }
+  }
+
+  const { fileUri, mimeType } = part.fileData
+  assertSupportedMimeType(mimeType)
+  if (!fileUri) {
+    throw new Error('파일 URI가 비어 있습니다.')
+  }
+  return { fileData: { fileUri, mimeType } }
+}
+
+/** 멀티모달 파트 목록을 사용자 턴 1개로 변환 */
+export function toMultimodalContents(parts: MultimodalPart[]): Content[] {
+  if (parts.length === 0) {
+    throw new Error('멀티모달 입력 파트가 없습니다.')
+  }
+  return [{ role: 'user', parts: parts.map(toPart) }]
+}
+
+/** 인라인 데이터 합계 크기 (bytes) */
+export function getInlineDataBytes(prompt: PromptInput): number {
+  if (typeof prompt === 'string') return 0
+
+  return prompt.reduce(
+    (total, content) =>
+      total +
+      (content.parts ?? []).reduce(
+        (sum, part) => sum + (part.inlineData?.data ? getBase64ByteLength(part.inlineData.data) : 0),
+        0
+      ),
+    0
+  )
+}
+
+/**
+ * 대용량 인라인 데이터 업로드기
+ * 인라인 데이터 합계가 한도를 넘으면 큰 파트부터 Files API로 올려 파일 URI 파트로 바꾼다.
+ * 업로드 파일은 API 키(프로젝트)별로 보이므로 키마다 따로 업로드하고, 같은 데이터는 만료 전까지 재사용한다.
+ */
+export class InlineDataUploader {
+  private uploads = new Map<string, UploadedFile>()
+  private inlineLimitBytes: number
+
+  constructor(inlineLimitBytes = DEFAULT_INLINE_LIMIT_BYTES) {
+    this.inlineLimitBytes = inlineLimitBytes
+  }
+
+  /**
+   * 요청 전 인라인 데이터 크기 검사 및 필요 시 업로드
+   * @param uploadKey 업로드 캐시 구분 키 (API 키 지문)
+   * @returns 한도 이내면 입력 그대로, 아니면 일부 파트가 파일 URI로 바뀐 contents
+   */
+  async prepare(
+    prompt: PromptInput,
+    client: GoogleGenAI,
+    uploadKey: string,
+    signal: AbortSignal
+  ): Promise<PromptInput> {
+    let inlineBytes = getInlineDataBytes(prompt)
+    if (typeof prompt === 'string' || inlineBytes <= this.inlineLimitBytes) {
+      return prompt
+    }
+
+    // 큰 파트부터 업로드 대상으로 선정
+    const candidates = prompt
+      .flatMap((content, contentIndex) =>
+        (content.parts ?? []).map((part, partIndex) => ({ part, contentIndex, partIndex }))
+      )
+      .filter(({ part }) => part.inlineData?.data)
+      .map((entry) => ({ ...entry, bytes: getBase64ByteLength(entry.part.inlineData!.data!) }))
+      .sort((a, b) => b.bytes - a.bytes)
+
+    const contents = prompt.map((content) => ({ ...content, parts: [...(content.parts ?? [])] }))
+
+    for (const { part, contentIndex, partIndex, bytes } of candidates) {
+      if (inlineBytes <= this.inlineLimitBytes) break
+
+      const { data, mimeType } = part.inlineData as { data: string; mimeType: string }
+      const file = await this.upload(client, uploadKey, data, mimeType, signal)
+      contents[contentIndex]!.parts[partIndex] = {
+        fileData: { fileUri: file.uri, mimeType: file.mimeType },
+      }
+      inlineBytes -= bytes
+    }
+
+    return contents
+  }
+
+  /** 파일 업로드 (캐시 재사용) + 처리 완료 대기 */
+  private async upload(
+    client: GoogleGenAI,
+    uploadKey: string,
+    data: string,
+    mimeType: string,
+    signal: AbortSignal
+  ): Promise<UploadedFile> {
+    const cacheKey = `${uploadKey}:${createHash('sha256').update(data).digest('hex')}`
+    const cached = this.uploads.get(cacheKey)
+    if (cached && cached.expiresAt - UPLOAD_EXPIRY_MARGIN_MS > Date.now()) {
+      return cached
+    }
+
+    let file = await client.files.upload({
+      file: new Blob([Buffer.from(data, 'base64')], { type: mimeType }),
+      config: { mimeType, abortSignal: signal },
+    })
+
+    // 동영상 등은 처리(PROCESSING)가 끝나야 사용 가능
+    while (file.state === FileState.PROCESSING && file.name) {
+      await sleep(FILE_POLL_INTERVAL_MS, signal)
+      file = await client.files.get({ name: file.name, config: { abortSignal: signal } })
+    }
+
+    if (file.state === FileState.FAILED || !file.uri) {
+      throw new Error(
+        `파일 업로드 처리에 실패했습니다: ${file.error?.message ?? file.name ?? mimeType}`
+      )
+    }
+
+    const uploaded: UploadedFile = {
+      uri: file.uri,
+      mimeType: file.mimeType ?? mimeType,
+      expiresAt: file.expirationTime
+        ? new Date(file.expirationTime).getTime()
+        : Date.now() + FILE_RETENTION_MS,
+    }
+    this.uploads.set(cacheKey, uploaded)
+    return uploaded
+  }
+}
+
+/** 지원하지 않는 MIME 타입이면 오류 */
+function assertSupportedMimeType(mimeType: string): void {
+  if (!mimeType || !isSupportedMimeType(mimeType)) {
+    throw new Error(`지원하지 않는 MIME 타입입니다: ${mimeType || '(없음)'}`)
+  }
+}
+
+/** base64 문자열의 디코딩 후 바이트 수 */
+function getBase64ByteLength(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0
+  return Math.floor((data.length * 3) / 4) - padding
+}
+
+/** 바이트 수 표시 (MB 단위) */
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`
+}
@@ -0,0 +1,281 @@
+// packages/ai-core/src/openai-compatible-provider.ts
+// OpenAI 호환 HTTP 공급자 - llama.cpp, Ollama, vLLM 등 /v1/chat/completions를 제공하는 서버
+
+import type { Content, Part } from '@google/genai'
+
+import { ProviderError } from './errors'
+import { estimatePromptTokens } from './tokens'
+import type {
+  LLMProvider,
+  ProviderCountTokensRequest,
+  ProviderEmbedRequest,
+  ProviderGenerateRequest,
+  ProviderResponse,
+  ProviderResponseChunk,
+  UsageTokens,
+} from './types'
+
+/** OpenAI 호환 공급자 옵션 */
+export interface OpenAICompatibleProviderOptions {
+  /** API 기본 URL (예: 'http://localhost:11434/v1') */
+  baseUrl: string
+  /** Bearer 토큰 (로컬 서버는 보통 불필요) */
+  apiKey?: string
+  /** 공급자 이름 (기본: 'openai-compatible') */
+  name?: string
+  /** 추가 요청 헤더 */
+  headers?: Record<string, string>
+  /** fetch 구현 (기본: 전역 fetch) - 테스트/프록시 주입용 */
+  fetch?: typeof fetch
+}
+
+/** chat/completions 메시지 */
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string | ChatContentPart[]
+}
+
+/** 멀티모달 메시지 파트 */
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+
+/** chat/completions 응답 (필요한 필드만) */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string | null }
+    delta?: { content?: string | null }
+    finish_reason?: string | null
+  }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null
+}
+
+/** OpenAI 종료 사유 → Gemini 표기 */
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY',
+  tool_calls: 'STOP',
+  function_call: 'STOP',
+}
+
+/**
+ * OpenAI 호환 공급자
+ * 개발 환경에서 로컬 모델을 티어로 쓰거나, Gemini 장애 시 다른 공급자로 폴백할 때 사용한다.
+ * 안전 설정과 사고 예산은 OpenAI 형식에 없어 무시하며, 토큰 수는 로컬 추정치를 반환한다.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  private baseUrl: string
+  private apiKey?: string
+  private headers: Record<string, string>
+  private fetchImpl: typeof fetch
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.name = options.name ?? 'openai-compatible'
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '')
+    this.apiKey = options.apiKey
+    this.headers = options.headers ?? {}
+    this.fetchImpl = options.fetch ?? fetch
+  }
+
+  async generate(request: ProviderGenerateRequest): Promise<ProviderResponse> {
+    const response = await this.post('/chat/completions', this.toChatBody(request), request.signal)
+    const body = (await response.json()) as ChatCompletionResponse
+    const choice = body.choices?.[0]
+
+    return {
+      text: choice?.message?.content ?? '',
+      finishReason: toFinishReason(choice?.finish_reason),
+      usage: toUsage(body.usage),
+    }
+  }
+
+  async *stream(request: ProviderGenerateRequest): AsyncGenerator<ProviderResponseChunk> {
+    const response = await this.post(
+      '/chat/completions',
+      { ...this.toChatBody(request), stream: true, stream_options: { include_usage: true } },
+      request.signal
+    )
+    if (!response.body) {
+      throw new ProviderError(`${this.name} 스트리밍 응답 본문이 없습니다.`, {
+        provider: this.name,
+      })
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const chunk = JSON.parse(data) as ChatCompletionResponse
+      const choice = chunk.choices?.[0]
+      yield {
+        text: choice?.delta?.content || undefined,
+        finishReason: toFinishReason(choice?.finish_reason),
+        usage: toUsage(chunk.usage),
+      }
+    }
+  }
+
+  /** 용도(taskType)/제목은 OpenAI 형식에 없어 무시 */
+  async embed(request: ProviderEmbedRequest): Promise<number[][]> {
+    const response = await this.post(
+      '/embeddings',
+      {
+        model: request.model,
+        input: request.texts,
+        dimensions: request.outputDimensionality,
+      },
+      request.signal
+    )
+    const body = (await response.json()) as {
+      data?: Array<{ index?: number; embedding?: number[] }>
+    }
+
+    return [...(body.data ?? [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((item) => item.embedding ?? [])
+  }
+
+  /** 표준 토큰 계산 API가 없어 로컬 추정 */
+  async countTokens(request: ProviderCountTokensRequest): Promise<number> {
+    return estimatePromptTokens(request.contents, request.systemInstruction)
+  }
+
+  /** chat/completions 요청 본문 */
+  private toChatBody(request: ProviderGenerateRequest): Record<string, unknown> {
+    const generation = request.generation ?? {}
+    const messages: ChatMessage[] = request.systemInstruction
+      ? [{ role: 'system', content: request.systemInstruction }]
+      : []
+    messages.push(...request.contents.map((content) => this.toMessage(content)))
+
+    return {
+      model: request.model,
+      messages,
+      temperature: generation.temperature,
+      top_p: generation.topP,
+      top_k: generation.topK,
+      max_tokens: generation.maxOutputTokens,
+      stop: generation.stopSequences,
+      presence_penalty: generation.presencePenalty,
+      frequency_penalty: generation.frequencyPenalty,
+      seed: generation.seed,
+      response_format: request.responseJsonSchema && {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: request.responseJsonSchema },
+      },
+    }
+  }
+
+  /**
+   * Gemini 턴 → chat 메시지
+   * 텍스트와 이미지(인라인 데이터, http(s) URI)만 지원하며, 그 외 파트는 다음 조합으로 폴백하도록 501로 실패한다.
+   */
+  private toMessage(content: Content): ChatMessage {
+    const role = content.role === 'model' ? 'assistant' : 'user'
+    const parts = (content.parts ?? []).map((part) => this.toContentPart(part))
+
+    return parts.every((part) => part.type === 'text')
+      ? { role, content: parts.map((part) => (part as { text: string }).text).join('') }
+      : { role, content: parts }
+  }
+
+  private toContentPart(part: Part): ChatContentPart {
+    if (part.text !== undefined) {
+      return { type: 'text', text: part.text }
+    }
+
+    const { inlineData, fileData } = part
+    if (inlineData?.mimeType?.startsWith('image/')) {
+      return {
+        type: 'image_url',
+        image_url: { url: `data:${inlineData.mimeType};base64,${inlineData.data ?? ''}` },
+      }
+    }
+    if (fileData?.mimeType?.startsWith('image/') && /^https?:\/\//.test(fileData.fileUri ?? '')) {
+      return { type: 'image_url', image_url: { url: fileData.fileUri! } }
+    }
+
+    throw new ProviderError(
+      `${this.name} 공급자가 지원하지 않는 입력입니다 (${inlineData?.mimeType ?? fileData?.mimeType ?? '텍스트/이미지 외 파트'}).`,
+      { provider: this.name, status: 501 }
+    )
+  }
+
+  /** JSON POST (실패 응답은 상태 코드와 Retry-After를 담은 ProviderError) */
+  private async post(path: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        ...this.headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '')
+      const retryAfter = response.headers.get('retry-after')
+      throw new ProviderError(
+        `${this.name} ${response.status}: ${text.slice(0, 500)}${retryAfter ? ` (Retry-After: ${retryAfter})` : ''}`,
+        { provider: this.name, status: response.status, headers: response.headers }
+      )
+    }
+    return response
+  }
+}
+
+/** OpenAI 호환 공급자 생성 */
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleProviderOptions
+): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(options)
+}
+
+/** 종료 사유 변환 (알 수 없는 값은 대문자로) */
+function toFinishReason(reason: string | null | undefined): string | undefined {
+  if (!reason) return undefined
+  return FINISH_REASONS[reason] ?? reason.toUpperCase()
+}
+
+/** 사용량 변환 */
+function toUsage(
+  usage: ChatCompletionResponse['usage']
+): UsageTokens | undefined {
+  if (!usage) return undefined
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    candidatesTokens: usage.completion_tokens ?? 0,
+  }
+}
+
+/** SSE 본문에서 data 필드 순회 ('[DONE]'에서 종료) */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      const lines = buffer.split('\n')
+      buffer = done ? '' : (lines.pop() ?? '')
+
+      for (const line of lines) {
+        const trimmed = line.trim()
+        if (!trimmed.startsWith('data:')) continue
+
+        const data = trimmed.slice(5).trim()
+        if (data === '[DONE]') return
+        if (data) yield data
+      }
+
+      if (done) return
+    }
+  } finally {
+    // 조기 종료/중단 시 연결 정리 (완료 후에는 영향 없음)
+    reader.cancel().catch(() => undefined)
+  }
+}
@@ -1,26 +1,65 @@
 // packages/ai-core/src/prompt-service.ts
 // AI 프롬프트 관리 서비스 - Prisma 주입 방식
 
-import type { PrismaClientLike, PromptRecord, PromptData } from './types'
+import { PromptTemplateError } from './errors'
+import { mergeGenerationSettings } from './generation-config'
+import { createConsoleLogger } from './logger'
+import { PromptTemplate } from './prompt-template'
+import type {
+  GenerationSettings,
+  Logger,
+  PrismaClientLike,
+  PromptRecord,
+  PromptData,
+  TemplateIssue,
+  TemplateValues,
+  TemplateVariables,
+} from './types'
 
 // 메모리 캐시 (5분 TTL)
 const promptCache = new Map<string, { data: PromptRecord; expires: number }>()
 const DEFAULT_CACHE_TTL = 5 * 60 * 1000 // 5분
 
+/** 템플릿으로 렌더링/검증하는 프롬프트 필드 */
+const TEMPLATE_FIELDS = ['systemInstruction', 'taskPrompt', 'outputFormat'] as const
+
+/** 프롬프트 수정 내용 */
+export interface PromptUpdate {
+  systemInstruction?: string
+  taskPrompt?: string
+  outputFormat?: string
+  name?: string
+  description?: string
+  generationConfig?: GenerationSettings | null
+  variables?: TemplateVariables | null
+}
+
 /** 프롬프트 서비스 클래스 - Prisma 주입 기반 */
 export class PromptService {
   private prisma: PrismaClientLike
   private cacheTTL: number
   private useCache: boolean
+  private generation: Record<string, GenerationSettings>
+  private variables: Record<string, TemplateVariables>
+  private logger: Logger
 
   constructor(options: {
     prisma: PrismaClientLike
     cacheTTL?: number
     useCache?: boolean
+    /** 프롬프트 키별 생성 설정 기본값 (DB generationConfig가 있으면 그 값이 우선) */
+    generation?: Record<string, GenerationSettings>
+    /** 프롬프트 키별 템플릿 변수 선언 (DB variables의 같은 이름 선언이 우선) */
+    variables?: Record<string, TemplateVariables>
+    /** 로거 (기본: 콘솔) */
+    logger?: Logger
   }) {
     this.prisma = options.prisma
     this.cacheTTL = options.cacheTTL ?? DEFAULT_CACHE_TTL
     this.useCache = options.useCache ?? true
+    this.generation = options.generation ?? {}
+    this.variables = options.variables ?? {}
+    this.logger = options.logger ?? createConsoleLogger()
   }
 
   /**
@@ -67,7 +106,15 @@ export class PromptService {
   }
 
   /**
-   * 전체 프롬프트 내용 조회 (시스템 + 태스크 + 출력형식)
+   * 프롬프트 키로 생성 설정 조회 (코드 기본값 ← DB generationConfig)
+   */
+  async getGenerationSettings(key: string): Promise<GenerationSettings> {
+    const prompt = await this.getPrompt(key)
+    return this.resolveGeneration(key, prompt)
+  }
+
+  /**
+   * 전체 프롬프트 내용 조회 (시스템 + 태스크 + 출력형식 + 생성 설정)
    */
   async getFullPrompt(key: string): Promise<PromptData> {
     const prompt = await this.getPrompt(key)
@@ -76,7 +123,90 @@ export class PromptService {
       systemInstruction: prompt?.systemInstruction ?? '',
       taskPrompt: prompt?.taskPrompt ?? '',
       outputFormat: prompt?.outputFormat ?? '',
+      generation: this.resolveGeneration(key, prompt),
+    }
+  }
+
+  /**
+   * 프롬프트 키로 템플릿 변수 선언 조회 (코드 선언 ← DB variables)
+   */
+  async getVariables(key: string): Promise<TemplateVariables> {
+    const prompt = await this.getPrompt(key)
+    return this.resolveVariables(key, prompt)
+  }
+
+  /**
+   * 변수를 채운 전체 프롬프트 (시스템 + 태스크 + 출력형식 + 생성 설정)
+   * 필수 변수가 없거나 타입이 다르면 PromptTemplateError, 넘겼지만 쓰지 않은 변수는 경고 로그를 남긴다.
+   */
+  async render(key: string, values: TemplateValues = {}): Promise<PromptData> {
+    const prompt = await this.getPrompt(key)
+    const declarations = this.resolveVariables(key, prompt)
+    const templates = TEMPLATE_FIELDS.map(
+      (field) => new PromptTemplate(prompt?.[field] ?? '', declarations)
+    )
+    const [systemInstruction, taskPrompt, outputFormat] = templates.map(
+      (template) => template.render(values).text
+    )
+
+    const unused = Object.keys(values).filter(
+      (name) =>
+        values[name] !== undefined && !templates.some((template) => template.references(name))
+    )
+    if (unused.length > 0) {
+      this.logger.warn('프롬프트에서 사용하지 않는 변수', { key, variables: unused })
+    }
+
+    return {
+      key,
+      systemInstruction: systemInstruction!,
+      taskPrompt: taskPrompt!,
+      outputFormat: outputFormat!,
+      generation: this.resolveGeneration(key, prompt),
+    }
+  }
+
+  /**
+   * 저장 전 프롬프트 검증 (수정하지 않는 필드/선언은 DB 값 기준)
+   * 구문 오류, 선언하지 않은 변수, 잘못된 기본값은 error, 쓰지 않는 선언은 warning (선언이 없으면 구문만 검사)
+   */
+  async validatePrompt(key: string, data: PromptUpdate = {}): Promise<TemplateIssue[]> {
+    const prompt = await this.prisma.aIPrompt.findUnique({ where: { key } })
+    const declarations =
+      data.variables !== undefined
+        ? { ...this.variables[key], ...data.variables }
+        : this.resolveVariables(key, prompt)
+
+    const issues: TemplateIssue[] = []
+    const templates: PromptTemplate[] = []
+    for (const field of TEMPLATE_FIELDS) {
+      try {
+        const template = new PromptTemplate(data[field] ?? prompt?.[field] ?? '', declarations)
+        templates.push(template)
+        issues.push(
+          ...template
+            .validate()
+            .filter((issue) => issue.code !== 'unused')
+            .map((issue) => ({ ...issue, field }))
+        )
+      } catch (error) {
+        if (!(error instanceof PromptTemplateError)) throw error
+        issues.push(...error.issues.map((issue) => ({ ...issue, field })))
+      }
+    }
+
+    // 쓰지 않는 선언은 필드별이 아니라 프롬프트 전체 기준
+    for (const name of Object.keys(declarations)) {
+      if (!templates.some((template) => template.references(name))) {
+        issues.push({
+          level: 'warning',
+          code: 'unused',
+          message: `선언했지만 프롬프트에서 쓰지 않는 변수입니다: ${name}`,
+          variable: name,
+        })
+      }
     }
+    return issues
   }
 
   /**
@@ -100,19 +230,23 @@ export class PromptService {
   }
 
   /**
-   * 프롬프트 업데이트
+   * 프롬프트 업데이트 (템플릿 검증에 error가 있으면 저장하지 않고 PromptTemplateError)
    */
   async updatePrompt(
     key: string,
-    data: {
-      systemInstruction?: string
-      taskPrompt?: string
-      outputFormat?: string
-      name?: string
-      description?: string
-    },
+    data: PromptUpdate,
     updatedBy?: string
   ): Promise<PromptRecord> {
+    const errors = (await this.validatePrompt(key, data)).filter(
+      (issue) => issue.level === 'error'
+    )
+    if (errors.length > 0) {
+      throw new PromptTemplateError(
+        `프롬프트 템플릿 검증 실패 (${key}): ${errors.map((issue) => issue.message).join(' ')}`,
+        errors
+      )
+    }
+
     // 캐시 무효화
     this.invalidateCache(key)
 
@@ -166,6 +300,19 @@ export class PromptService {
   clearCache(): void {
     promptCache.clear()
   }
+
+  /** 프롬프트별 생성 설정 병합 */
+  private resolveGeneration(
+    key: string,
+    prompt: PromptRecord | null
+  ): GenerationSettings {
+    return mergeGenerationSettings(this.generation[key], prompt?.generationConfig)
+  }
+
+  /** 프롬프트별 템플릿 변수 선언 병합 */
+  private resolveVariables(key: string, prompt: PromptRecord | null): TemplateVariables {
+    return { ...this.variables[key], ...prompt?.variables }
+  }
 }
 
 // 싱글턴 인스턴스 (호스트 앱에서 설정)
@@ -215,6 +362,10 @@ export async function getFullPrompt(key: string): Promise<PromptData> {
   return getPromptService().getFullPrompt(key)
 }
 
+export async function renderPrompt(key: string, values?: TemplateValues): Promise<PromptData> {
+  return getPromptService().render(key, values)
+}
+
 export function clearPromptCache(): void {
   if (defaultService) {
     defaultService.clearCache()
@@ -0,0 +1,506 @@
+// packages/ai-core/src/prompt-template.ts
+// 프롬프트 템플릿 - 변수 선언(타입/기본값), 조건문, 반복문, 이스케이프를 지원하는 {{변수}} 템플릿
+
+import { PromptTemplateError } from './errors'
+import type {
+  TemplateIssue,
+  TemplateValue,
+  TemplateValues,
+  TemplateVariableType,
+  TemplateVariables,
+} from './types'
+
+/** 변수 경로 (예: 'topic', 'context.title', '@index') */
+const PATH_PATTERN = /^@?[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/
+
+/** {{#each}} 안에서만 쓰는 이름 */
+const LOOP_NAMES = new Set(['this', '@index', '@number', '@first', '@last'])
+
+/** 변수 출력 필터 (json: JSON 문자열로 이스케이프) */
+type TemplateFilter = 'json'
+
+interface TextNode {
+  type: 'text'
+  text: string
+}
+
+interface VariableNode {
+  type: 'variable'
+  path: string[]
+  filter?: TemplateFilter
+  line: number
+}
+
+/** {{#if}} / {{#each}} 블록 ({{else}} 이후는 otherwise) */
+interface BlockNode {
+  type: 'if' | 'each'
+  path: string[]
+  body: TemplateNode[]
+  otherwise: TemplateNode[]
+  line: number
+}
+
+type TemplateNode = TextNode | VariableNode | BlockNode
+
+/** 반복 중인 항목 */
+interface LoopScope {
+  item: TemplateValue
+  index: number
+  length: number
+}
+
+/** 렌더링 결과 */
+export interface TemplateRenderResult {
+  text: string
+  /** 넘겼지만 템플릿에서 쓰지 않은 변수 */
+  unused: string[]
+}
+
+/**
+ * 프롬프트 템플릿
+ * - {{name}}, {{item.title}}: 변수 출력 (null/undefined는 빈 문자열, 목록은 쉼표로 연결)
+ * - {{name | json}}: JSON 문자열로 이스케이프해 출력 (출력 형식 예시의 JSON 안에 넣을 때)
+ * - {{#if name}}...{{else}}...{{/if}}: 빈 문자열/빈 목록/false/0/null이면 else
+ * - {{#each list}}...{{else}}...{{/each}}: 항목 필드, {{this}}, {{@index}}(0부터), {{@number}}(1부터), {{@first}}, {{@last}}
+ * - {{! 주석 }}, \{{: 여는 괄호 그대로 출력
+ * 블록 태그와 주석만 있는 줄은 줄째로 제거하며, 변수 값은 다시 해석하지 않아 사용자 입력에 {{가 있어도 안전하다.
+ */
+export class PromptTemplate {
+  readonly source: string
+  readonly declarations: TemplateVariables
+  /** 반복 블록 밖에서 참조하는 변수 (선언하지 않았다면 필수) */
+  readonly variables: string[]
+  private nodes: TemplateNode[]
+  /** 반복 블록 밖 참조 → 처음 나온 줄 */
+  private rootLines = new Map<string, number>()
+  /** 반복 블록 안 참조 (항목 필드 또는 최상위 변수) */
+  private loopNames = new Set<string>()
+
+  /** @throws PromptTemplateError 구문 오류 */
+  constructor(source: string, declarations: TemplateVariables = {}) {
+    this.source = source
+    this.declarations = declarations
+    this.nodes = parseTemplate(source)
+    this.collectReferences(this.nodes, false)
+    this.variables = [...this.rootLines.keys()]
+  }
+
+  /** 템플릿에서 쓰는 이름인지 (반복 블록 안의 항목 필드 이름 포함) */
+  references(name: string): boolean {
+    return this.rootLines.has(name) || this.loopNames.has(name)
+  }
+
+  /**
+   * 선언 대비 정적 검증 (선언이 없으면 검사하지 않음)
+   * 선언하지 않은 변수 참조와 잘못된 기본값은 error, 쓰지 않는 선언은 warning
+   */
+  validate(): TemplateIssue[] {
+    const declared = Object.entries(this.declarations)
+    if (declared.length === 0) return []
+
+    const issues: TemplateIssue[] = []
+    for (const [name, line] of this.rootLines) {
+      if (!(name in this.declarations)) {
+        issues.push({
+          level: 'error',
+          code: 'undeclared',
+          message: `선언하지 않은 변수입니다: ${name}`,
+          variable: name,
+          line,
+        })
+      }
+    }
+    for (const [name, variable] of declared) {
+      const type = variable.type ?? 'string'
+      if (variable.default != null && !matchesType(variable.default, type)) {
+        issues.push({
+          level: 'error',
+          code: 'type',
+          message: `${name} 기본값이 ${type} 타입이 아닙니다.`,
+          variable: name,
+        })
+      }
+      if (!this.references(name)) {
+        issues.push({
+          level: 'warning',
+          code: 'unused',
+          message: `선언했지만 템플릿에서 쓰지 않는 변수입니다: ${name}`,
+          variable: name,
+        })
+      }
+    }
+    return issues
+  }
+
+  /**
+   * 렌더링
+   * @throws PromptTemplateError 필수 변수 누락, 선언과 다른 타입, 목록이 아닌 값으로 {{#each}}
+   */
+  render(values: TemplateValues = {}): TemplateRenderResult {
+    const resolved = this.resolveValues(values)
+    return {
+      text: renderNodes(this.nodes, resolved, []),
+      unused: Object.keys(values).filter(
+        (name) => values[name] !== undefined && !this.references(name)
+      ),
+    }
+  }
+
+  /** 기본값 적용 + 필수/타입 검사 */
+  private resolveValues(values: TemplateValues): TemplateValues {
+    const resolved: TemplateValues = { ...values }
+    const issues: TemplateIssue[] = []
+
+    for (const [name, variable] of Object.entries(this.declarations)) {
+      const value = values[name] ?? variable.default
+      if (value == null) {
+        if (variable.required ?? (variable.default === undefined)) {
+          issues.push(missingIssue(name, this.rootLines.get(name)))
+        }
+        continue
+      }
+
+      const type = variable.type ?? 'string'
+      if (!matchesType(value, type)) {
+        issues.push({
+          level: 'error',
+          code: 'type',
+          message: `${name}은(는) ${type} 타입이어야 합니다 (${describeType(value)}).`,
+          variable: name,
+        })
+      }
+      resolved[name] = value
+    }
+
+    for (const [name, line] of this.rootLines) {
+      if (!(name in this.declarations) && values[name] === undefined) {
+        issues.push(missingIssue(name, line))
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new PromptTemplateError(
+        `템플릿 변수 오류: ${issues.map((issue) => issue.message).join(' ')}`,
+        issues
+      )
+    }
+    return resolved
+  }
+
+  /** 참조 변수 수집 (블록 조건은 블록 밖 범위에서 평가) */
+  private collectReferences(nodes: TemplateNode[], inLoop: boolean): void {
+    for (const node of nodes) {
+      if (node.type === 'text') continue
+
+      const [head] = node.path
+      if (head && !LOOP_NAMES.has(head)) {
+        if (inLoop) {
+          this.loopNames.add(head)
+        } else if (!this.rootLines.has(head)) {
+          this.rootLines.set(head, node.line)
+        }
+      }
+
+      if (node.type !== 'variable') {
+        this.collectReferences(node.body, inLoop || node.type === 'each')
+        this.collectReferences(node.otherwise, inLoop)
+      }
+    }
+  }
+}
+
+/** 템플릿 컴파일 (구문 오류 시 PromptTemplateError) */
+export function compileTemplate(
+  source: string,
+  declarations?: TemplateVariables
+): PromptTemplate {
+  return new PromptTemplate(source, declarations)
+}
+
+/** 템플릿 1회 렌더링 */
+export function renderTemplate(
+  source: string,
+  values: TemplateValues,
+  declarations?: TemplateVariables
+): string {
+  return new PromptTemplate(source, declarations).render(values).text
+}
+
+/** 템플릿 검증 (구문 오류도 예외 대신 문제 목록으로 반환) */
+export function validateTemplate(
+  source: string,
+  declarations?: TemplateVariables
+): TemplateIssue[] {
+  try {
+    return new PromptTemplate(source, declarations).validate()
+  } catch (error) {
+    if (error instanceof PromptTemplateError) return error.issues
+    throw error
+  }
+}
+
+/** 구문 분석 */
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{ block: BlockNode; inElse: boolean }> = []
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1]
+    if (!top) return root
+    return top.inElse ? top.block.otherwise : top.block.body
+  }
+
+  let text = ''
+  const flushText = (): void => {
+    if (text) target().push({ type: 'text', text })
+    text = ''
+  }
+
+  let index = 0
+  while (index < source.length) {
+    const open = source.indexOf('{{', index)
+    if (open === -1) {
+      text += source.slice(index)
+      break
+    }
+
+    // \{{ → 여는 괄호 그대로
+    if (source[open - 1] === '\\') {
+      text += source.slice(index, open - 1) + '{{'
+      index = open + 2
+      continue
+    }
+
+    text += source.slice(index, open)
+    const line = lineAt(source, open)
+    const close = source.indexOf('}}', open + 2)
+    if (close === -1) {
+      throw syntaxError('닫히지 않은 태그입니다 ({{ 뒤에 }}가 없음).', line)
+    }
+
+    const tag = source.slice(open + 2, close).trim()
+    index = close + 2
+
+    // 블록 태그/주석만 있는 줄은 줄째로 제거 (들여쓰기와 줄바꿈이 결과에 남지 않도록)
+    if (/^[#/!]/.test(tag) || tag === 'else') {
+      const lineStart = source.lastIndexOf('\n', open - 1) + 1
+      const newline = source.indexOf('\n', index)
+      const lineEnd = newline === -1 ? source.length : newline
+      if (!source.slice(lineStart, open).trim() && !source.slice(index, lineEnd).trim()) {
+        text = text.slice(0, text.length - (open - lineStart))
+        index = Math.min(lineEnd + 1, source.length)
+      }
+    }
+
+    flushText()
+    if (tag.startsWith('!')) continue
+
+    const inLoop = stack.some((entry) => entry.block.type === 'each')
+    const blockMatch = /^#(if|each)\s+(\S+)$/.exec(tag)
+    if (blockMatch) {
+      const block: BlockNode = {
+        type: blockMatch[1] as BlockNode['type'],
+        path: parsePath(blockMatch[2]!, line, inLoop),
+        body: [],
+        otherwise: [],
+        line,
+      }
+      target().push(block)
+      stack.push({ block, inElse: false })
+      continue
+    }
+
+    if (tag === 'else') {
+      const top = stack[stack.length - 1]
+      if (!top || top.inElse) {
+        throw syntaxError('짝이 맞지 않는 {{else}}입니다.', line)
+      }
+      top.inElse = true
+      continue
+    }
+
+    const closeMatch = /^\/(if|each)$/.exec(tag)
+    if (closeMatch) {
+      const top = stack.pop()
+      if (top?.block.type !== closeMatch[1]) {
+        throw syntaxError(`짝이 맞지 않는 {{${tag}}}입니다.`, line)
+      }
+      continue
+    }
+
+    if (/^[#/]/.test(tag)) {
+      throw syntaxError(`알 수 없는 블록입니다: {{${tag}}}`, line)
+    }
+
+    const [expression = '', filter, ...rest] = tag.split('|').map((part) => part.trim())
+    if (filter !== undefined && (filter !== 'json' || rest.length > 0)) {
+      throw syntaxError(`알 수 없는 필터입니다: ${tag.slice(tag.indexOf('|') + 1).trim()}`, line)
+    }
+    target().push({
+      type: 'variable',
+      path: parsePath(expression, line, inLoop),
+      filter: filter as TemplateFilter | undefined,
+      line,
+    })
+  }
+
+  flushText()
+  const unclosed = stack[stack.length - 1]
+  if (unclosed) {
+    throw syntaxError(`닫히지 않은 {{#${unclosed.block.type}}} 블록입니다.`, unclosed.block.line)
+  }
+  return root
+}
+
+/** 변수 경로 분석 */
+function parsePath(expression: string, line: number, inLoop: boolean): string[] {
+  if (!PATH_PATTERN.test(expression)) {
+    throw syntaxError(`잘못된 변수 이름입니다: ${expression || '(빈 태그)'}`, line)
+  }
+
+  const path = expression.split('.')
+  const head = path[0]!
+  if (head.startsWith('@') && !LOOP_NAMES.has(head)) {
+    throw syntaxError(`알 수 없는 반복 변수입니다: ${head}`, line)
+  }
+  if (LOOP_NAMES.has(head) && !inLoop) {
+    throw syntaxError(`${head}은(는) {{#each}} 안에서만 쓸 수 있습니다.`, line)
+  }
+  return path
+}
+
+/** 노드 렌더링 */
+function renderNodes(nodes: TemplateNode[], values: TemplateValues, scopes: LoopScope[]): string {
+  let output = ''
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.text
+      continue
+    }
+
+    const value = resolvePath(node.path, values, scopes)
+
+    if (node.type === 'variable') {
+      output += node.filter === 'json' ? JSON.stringify(value ?? null) : stringify(value)
+    } else if (node.type === 'if') {
+      output += renderNodes(isTruthy(value) ? node.body : node.otherwise, values, scopes)
+    } else if (value == null || (Array.isArray(value) && value.length === 0)) {
+      output += renderNodes(node.otherwise, values, scopes)
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        output += renderNodes(node.body, values, [
+          ...scopes,
+          { item, index, length: value.length },
+        ])
+      })
+    } else {
+      const name = node.path.join('.')
+      throw new PromptTemplateError(`{{#each ${name}}}에는 목록이 필요합니다 (${describeType(value)}).`, [
+        {
+          level: 'error',
+          code: 'type',
+          message: `${name}은(는) list 타입이어야 합니다 (${describeType(value)}).`,
+          variable: node.path[0],
+          line: node.line,
+        },
+      ])
+    }
+  }
+
+  return output
+}
+
+/** 경로 값 조회 (반복 항목의 필드 → 바깥 반복 항목 → 최상위 변수 순) */
+function resolvePath(path: string[], values: TemplateValues, scopes: LoopScope[]): TemplateValue {
+  const [head, ...rest] = path
+  const scope = scopes[scopes.length - 1]
+
+  let value: TemplateValue
+  switch (head) {
+    case '@index':
+      return scope?.index
+    case '@number':
+      return scope && scope.index + 1
+    case '@first':
+      return scope?.index === 0
+    case '@last':
+      return scope !== undefined && scope.index === scope.length - 1
+    case 'this':
+      value = scope?.item
+      break
+    default: {
+      const owner = [...scopes]
+        .reverse()
+        .find((s) => isRecord(s.item) && Object.hasOwn(s.item, head!))
+      value = owner ? (owner.item as Record<string, TemplateValue>)[head!] : values[head!]
+    }
+  }
+
+  for (const key of rest) {
+    value = isRecord(value) ? value[key] : undefined
+  }
+  return value
+}
+
+/** 출력 문자열 (null/undefined는 빈 문자열, 목록은 쉼표 연결, 객체는 JSON) */
+function stringify(value: TemplateValue): string {
+  if (value == null) return ''
+  if (Array.isArray(value)) return value.map(stringify).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/** 조건 판정 (빈 목록도 거짓) */
+function isTruthy(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value)
+}
+
+function isRecord(value: TemplateValue): value is Record<string, TemplateValue> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** 선언 타입 검사 */
+function matchesType(value: TemplateValue, type: TemplateVariableType): boolean {
+  switch (type) {
+    case 'list':
+      return Array.isArray(value)
+    case 'object':
+      return isRecord(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    default:
+      return typeof value === type
+  }
+}
+
+/** 오류 메시지용 값 타입 */
+function describeType(value: TemplateValue): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'list'
+  return typeof value
+}
+
+function missingIssue(name: string, line?: number): TemplateIssue {
+  return {
+    level: 'error',
+    code: 'missing',
+    message: `필수 변수가 없습니다: ${name}`,
+    variable: name,
+    line,
+  }
+}
+
+function syntaxError(message: string, line: number): PromptTemplateError {
+  return new PromptTemplateError(`템플릿 구문 오류 (${line}행): ${message}`, [
+    { level: 'error', code: 'syntax', message, line },
+  ])
+}
+
+/** 위치의 줄 번호 (1부터) */
+function lineAt(source: string, position: number): number {
+  let line = 1
+  for (let i = 0; i < position; i++) {
+    if (source[i] === '\n') line++
+  }
+  return line
+}
@@ -0,0 +1,116 @@
+// packages/ai-core/src/rag-kit-adapter.ts
+// @baroclaim/ai-rag-kit 서비스용 클라이언트 어댑터
+// rag-kit의 GeminiClientLike(필수 기능 + 선택 확장 기능) 구조를 그대로 충족한다.
+
+import { ContextBudget } from './context-budget'
+import { generateEmbeddingWithClient, generateEmbeddingsWithClient } from './embedding'
+import { getDefaultClient, GeminiClient } from './gemini-client'
+import { toMultimodalContents } from './multimodal'
+import type {
+  CountTokensOptions,
+  EmbeddingInput,
+  EmbeddingOptions,
+  GenerateOptions,
+  MultimodalPart,
+  StructuredGenerateOptions,
+  StructuredSchema,
+  TokenCount,
+} from './types'
+
+/**
+ * rag-kit 서비스에 주입하는 클라이언트
+ * generate/generateWithFallback/generateEmbedding은 rag-kit 필수 기능,
+ * 나머지는 rag-kit 서비스가 존재 여부로 감지해 사용하는 확장 기능이다.
+ */
+export class RagKitClient {
+  private client: GeminiClient
+
+  constructor(client: GeminiClient) {
+    this.client = client
+  }
+
+  /**
+   * 단일 티어 생성 (다른 티어로 폴백하지 않고 키만 폴백)
+   * tier 미지정 시 1군 티어 사용
+   */
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    const { tier, ...rest } = options
+    return this.client.generateWithFallback(prompt, {
+      ...rest,
+      preferredTier: rest.preferredTier ?? tier ?? 1,
+    })
+  }
+
+  /** 티어 폴백 생성 (tier 지정 시 해당 티어부터 시작) */
+  async generateWithFallback(prompt: string, options: GenerateOptions = {}): Promise<string> {
+    return this.client.generateWithFallback(prompt, options)
+  }
+
+  /** 텍스트 임베딩 */
+  async generateEmbedding(text: string, options: EmbeddingOptions = {}): Promise<number[]> {
+    return generateEmbeddingWithClient(this.client, text, options)
+  }
+
+  /** 배치 임베딩 (입력 순서 유지) */
+  async generateEmbeddings(
+    texts: Array<string | EmbeddingInput>,
+    options: EmbeddingOptions = {}
+  ): Promise<number[][]> {
+    return generateEmbeddingsWithClient(this.client, texts, options)
+  }
+
+  /** 스키마 검증 구조화 출력 (프롬프트 또는 멀티모달 파트) */
+  async generateStructured<T>(
+    prompt: string | MultimodalPart[],
+    schema: StructuredSchema,
+    options: StructuredGenerateOptions = {}
+  ): Promise<T> {
+    return this.client.generateStructured<T>(
+      typeof prompt === 'string' ? prompt : toMultimodalContents(prompt),
+      schema,
+      options
+    )
+  }
+
+  /** 멀티모달 생성 (텍스트 + 인라인 데이터/파일 URI 파트를 하나의 사용자 턴으로 전송) */
+  async generateMultimodal(
+    parts: MultimodalPart[],
+    options: GenerateOptions = {}
+  ): Promise<string> {
+    return this.client.generateMultimodal(parts, options)
+  }
+
+  /** 입력 토큰 수 계산 (API 실패 시 로컬 추정) */
+  async countTokens(prompt: string, options: CountTokensOptions = {}): Promise<TokenCount> {
+    return this.client.countTokens(prompt, options)
+  }
+
+  /** 참고 자료를 토큰 예산에 맞춰 선택 (ContextBudget - 관련도순, 예산을 넘는 자료는 자르거나 제외) */
+  fitContexts<T extends { content: string; similarity: number }>(
+    contexts: T[],
+    maxTokens: number
+  ): T[] {
+    const ranked = [...contexts].sort((a, b) => b.similarity - a.similarity)
+    const { items } = new ContextBudget({ maxTokens }).pack(
+      ranked.map((context, index) => ({ id: String(index), text: context.content }))
+    )
+
+    return items.map((item) => {
+      const context = ranked[Number(item.id)]!
+      return item.truncated ? { ...context, content: item.text } : context
+    })
+  }
+
+  /** 원본 GeminiClient (사용량 집계, 키 상태 조회 등) */
+  getClient(): GeminiClient {
+    return this.client
+  }
+}
+
+/**
+ * GeminiClient를 rag-kit 서비스용 클라이언트로 변환
+ * 클라이언트 미지정 시 환경변수 기반 기본 클라이언트 사용
+ */
+export function toRagKitClient(client: GeminiClient = getDefaultClient()): RagKitClient {
+  return new RagKitClient(client)
+}
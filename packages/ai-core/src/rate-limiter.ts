@@ -0,0 +1,154 @@
+// packages/ai-core/src/rate-limiter.ts
+// 키+모델별 레이트 리밋 (RPM/TPM 토큰 버킷) 및 동시 실행 제한
+
+import type { GeminiModel, RateLimitConfig } from './types'
+
+/** 1분 (ms) */
+const MINUTE_MS = 60 * 1000
+
+/**
+ * 토큰 버킷
+ * 분당 한도만큼 연속으로 채워지며, 실제 사용량 보정으로 음수(초과분)가 될 수 있다.
+ */
+class TokenBucket {
+  private perMinute: number
+  private available: number
+  private updatedAt: number
+
+  constructor(perMinute: number) {
+    this.perMinute = perMinute
+    this.available = perMinute
+    this.updatedAt = Date.now()
+  }
+
+  /** amount만큼 꺼낼 수 있을 때까지 남은 시간 (한도보다 큰 요청은 가득 찰 때까지) */
+  getWaitMs(amount: number, now: number): number {
+    this.refill(now)
+    const needed = Math.min(amount, this.perMinute)
+    if (this.available >= needed) return 0
+    return Math.ceil(((needed - this.available) * MINUTE_MS) / this.perMinute)
+  }
+
+  /** 꺼내기 (음수 amount는 반환) */
+  take(amount: number, now: number): void {
+    this.refill(now)
+    this.available = Math.min(this.perMinute, this.available - amount)
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.updatedAt
+    if (elapsed > 0) {
+      this.available = Math.min(
+        this.perMinute,
+        this.available + (elapsed * this.perMinute) / MINUTE_MS
+      )
+      this.updatedAt = now
+    }
+  }
+}
+
+/** 조합별 버킷 */
+interface RateBuckets {
+  requests?: TokenBucket
+  tokens?: TokenBucket
+}
+
+/**
+ * 레이트 리미터
+ * 조합 ID(키 지문:모델)마다 요청 수/토큰 수 버킷을 따로 유지한다.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig
+  private buckets = new Map<string, RateBuckets>()
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = config
+  }
+
+  /** 조합이 요청 가능해질 때까지 남은 시간 (ms, 0이면 즉시 가능) */
+  getWaitMs(id: string, model: GeminiModel, tokens: number, now = Date.now()): number {
+    const { requests, tokens: tokenBucket } = this.getBuckets(id, model)
+    return Math.max(
+      requests?.getWaitMs(1, now) ?? 0,
+      tokenBucket?.getWaitMs(tokens, now) ?? 0
+    )
+  }
+
+  /** 요청 1회와 예상 토큰 소비 */
+  take(id: string, model: GeminiModel, tokens: number, now = Date.now()): void {
+    const { requests, tokens: tokenBucket } = this.getBuckets(id, model)
+    requests?.take(1, now)
+    tokenBucket?.take(tokens, now)
+  }
+
+  /** 실제 사용량으로 토큰 보정 (예상보다 많으면 양수) */
+  adjustTokens(id: string, model: GeminiModel, delta: number): void {
+    if (delta === 0) return
+    this.getBuckets(id, model).tokens?.take(delta, Date.now())
+  }
+
+  /** 조합 버킷 조회 (모델별 설정 → 공통 설정 순) */
+  private getBuckets(id: string, model: GeminiModel): RateBuckets {
+    let buckets = this.buckets.get(id)
+    if (!buckets) {
+      const rpm = this.config.models?.[model]?.rpm ?? this.config.rpm
+      const tpm = this.config.models?.[model]?.tpm ?? this.config.tpm
+      buckets = {
+        requests: rpm ? new TokenBucket(rpm) : undefined,
+        tokens: tpm ? new TokenBucket(tpm) : undefined,
+      }
+      this.buckets.set(id, buckets)
+    }
+    return buckets
+  }
+}
+
+/** 세마포어 - 동시 실행 수 제한 (대기 순서대로 진입) */
+export class Semaphore {
+  private max: number
+  private active = 0
+  private waiters: Array<() => void> = []
+
+  constructor(max = Infinity) {
+    if (max < 1) {
+      throw new Error('동시 실행 수는 1 이상이어야 합니다.')
+    }
+    this.max = max
+  }
+
+  /** 슬롯 획득 (반환된 함수로 해제, 대기 중 신호가 중단되면 거부) */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    signal?.throwIfAborted()
+
+    if (this.active >= this.max) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.waiters = this.waiters.filter((waiter) => waiter !== grant)
+          reject(signal?.reason)
+        }
+        const grant = () => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }
+        this.waiters.push(grant)
+        signal?.addEventListener('abort', onAbort, { once: true })
+      })
+    } else {
+      this.active++
+    }
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+
+      // 대기자가 있으면 슬롯을 그대로 넘김
+      const next = this.waiters.shift()
+      if (next) {
+        next()
+      } else {
+        this.active--
+      }
+    }
+  }
+}
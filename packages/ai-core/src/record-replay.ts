@@ -0,0 +1,237 @@
+// packages/ai-core/src/record-replay.ts
+// SDK 호출 녹화/재생 - 실제 generateContent/embedContent 교환을 JSON 픽스처로 저장하고 결정적으로 재생
+
+import { createHash } from 'node:crypto'
+import { readFile, writeFile } from 'node:fs/promises'
+
+import {
+  ApiError,
+  EmbedContentResponse,
+  GenerateContentResponse,
+  GoogleGenAI,
+} from '@google/genai'
+
+import { GeminiError } from './errors'
+import type { FakeMethod } from './fake-client'
+import { stableStringify } from './response-cache'
+
+/** 녹화된 요청/응답 교환 1건 */
+export interface RecordedExchange {
+  method: FakeMethod
+  /** 요청 지문 (메서드 + 모델 + contents + config, 취소 신호/API 키 제외) */
+  key: string
+  request: {
+    model: string
+    contents: unknown
+    config?: Record<string, unknown>
+  }
+  /** generateContent/embedContent 응답 JSON */
+  response?: unknown
+  /** generateContentStream 청크 JSON */
+  chunks?: unknown[]
+  /** 실패한 호출의 오류 (재생 시 같은 오류를 던짐) */
+  error?: { status?: number; message: string }
+}
+
+/** 픽스처 파일 형식 */
+export interface GeminiFixture {
+  version: 1
+  exchanges: RecordedExchange[]
+}
+
+/** SDK 메서드 인자 (녹화에 필요한 부분만) */
+interface SdkParams {
+  model: string
+  contents: unknown
+  config?: Record<string, unknown>
+}
+
+/**
+ * 녹화기
+ * clientFactory를 GeminiClient 설정에 넣으면 실제 SDK 호출을 그대로 수행하면서 교환을 기록한다.
+ */
+export class GeminiRecorder {
+  private exchanges: RecordedExchange[] = []
+  private createRealClient: (apiKey: string) => GoogleGenAI
+
+  constructor(options: { clientFactory?: (apiKey: string) => GoogleGenAI } = {}) {
+    this.createRealClient =
+      options.clientFactory ?? ((apiKey) => new GoogleGenAI({ apiKey }))
+  }
+
+  /** GeminiClient 설정용 클라이언트 팩토리 */
+  readonly clientFactory = (apiKey: string): GoogleGenAI => {
+    const real = this.createRealClient(apiKey)
+
+    const models = {
+      generateContent: async (params: SdkParams) =>
+        this.capture('generateContent', params, async (exchange) => {
+          const response = await real.models.generateContent(params as never)
+          exchange.response = toJson(response)
+          return response
+        }),
+      generateContentStream: async (params: SdkParams) =>
+        this.capture('generateContentStream', params, async (exchange) => {
+          const stream = await real.models.generateContentStream(params as never)
+          const chunks: unknown[] = []
+          exchange.chunks = chunks
+          return (async function* () {
+            for await (const chunk of stream) {
+              chunks.push(toJson(chunk))
+              yield chunk
+            }
+          })()
+        }),
+      embedContent: async (params: SdkParams) =>
+        this.capture('embedContent', params, async (exchange) => {
+          const response = await real.models.embedContent(params as never)
+          exchange.response = toJson(response)
+          return response
+        }),
+    }
+
+    // 나머지 SDK 기능(files, caches 등)은 실제 클라이언트를 그대로 사용
+    return Object.assign(Object.create(real) as GoogleGenAI, { models })
+  }
+
+  /** 녹화된 교환 목록 */
+  getExchanges(): RecordedExchange[] {
+    return [...this.exchanges]
+  }
+
+  /** 픽스처 객체 */
+  toFixture(): GeminiFixture {
+    return { version: 1, exchanges: this.getExchanges() }
+  }
+
+  /** 픽스처 파일로 저장 */
+  async save(path: string): Promise<void> {
+    await writeFile(path, `${JSON.stringify(this.toFixture(), null, 2)}\n`, 'utf8')
+  }
+
+  /** 호출 수행 + 교환 기록 (실패도 기록) */
+  private async capture<T>(
+    method: FakeMethod,
+    params: SdkParams,
+    run: (exchange: RecordedExchange) => Promise<T>
+  ): Promise<T> {
+    const request = toRecordedRequest(params)
+    const exchange: RecordedExchange = {
+      method,
+      key: createExchangeKey(method, request),
+      request,
+    }
+    this.exchanges.push(exchange)
+
+    try {
+      return await run(exchange)
+    } catch (error) {
+      exchange.error = {
+        status: error instanceof ApiError ? error.status : undefined,
+        message: error instanceof Error ? error.message : String(error),
+      }
+      throw error
+    }
+  }
+}
+
+/**
+ * 재생기
+ * 요청 지문이 같은 교환을 녹화 순서대로 돌려주며 (마지막 교환은 반복),
+ * 녹화되지 않은 요청은 요청 단위 오류로 실패한다.
+ */
+export class GeminiReplayer {
+  private queues = new Map<string, { exchanges: RecordedExchange[]; next: number }>()
+
+  constructor(fixture: GeminiFixture) {
+    if (fixture.version !== 1) {
+      throw new Error(`지원하지 않는 픽스처 버전입니다: ${fixture.version}`)
+    }
+
+    for (const exchange of fixture.exchanges) {
+      const queue = this.queues.get(exchange.key) ?? { exchanges: [], next: 0 }
+      queue.exchanges.push(exchange)
+      this.queues.set(exchange.key, queue)
+    }
+  }
+
+  /** 픽스처 파일에서 재생기 생성 */
+  static async load(path: string): Promise<GeminiReplayer> {
+    const fixture = JSON.parse(await readFile(path, 'utf8')) as GeminiFixture
+    return new GeminiReplayer(fixture)
+  }
+
+  /** GeminiClient 설정용 클라이언트 팩토리 (API 키와 무관하게 같은 픽스처 사용) */
+  readonly clientFactory = (_apiKey: string): GoogleGenAI => {
+    const models = {
+      generateContent: async (params: SdkParams) => {
+        const exchange = this.take('generateContent', params)
+        return Object.assign(new GenerateContentResponse(), exchange.response)
+      },
+      generateContentStream: async (params: SdkParams) => {
+        const exchange = this.take('generateContentStream', params)
+        return (async function* () {
+          for (const chunk of exchange.chunks ?? []) {
+            yield Object.assign(new GenerateContentResponse(), chunk)
+          }
+        })()
+      },
+      embedContent: async (params: SdkParams) => {
+        const exchange = this.take('embedContent', params)
+        return Object.assign(new EmbedContentResponse(), exchange.response)
+      },
+    }
+    return { models } as unknown as GoogleGenAI
+  }
+
+  /** 다음 교환 꺼내기 (녹화된 오류면 그대로 던짐) */
+  private take(method: FakeMethod, params: SdkParams): RecordedExchange {
+    const request = toRecordedRequest(params)
+    const queue = this.queues.get(createExchangeKey(method, request))
+
+    if (!queue) {
+      throw new GeminiError(
+        `녹화된 응답이 없습니다: ${method} ${request.model}`,
+        { category: 'request' }
+      )
+    }
+
+    const exchange = queue.exchanges[Math.min(queue.next, queue.exchanges.length - 1)]!
+    queue.next++
+
+    if (exchange.error) {
+      if (exchange.error.status !== undefined) {
+        throw new ApiError({ status: exchange.error.status, message: exchange.error.message })
+      }
+      throw new Error(exchange.error.message)
+    }
+    return exchange
+  }
+}
+
+/** 요청을 녹화 형식으로 변환 (취소 신호, HTTP 옵션 제외) */
+function toRecordedRequest(params: SdkParams): RecordedExchange['request'] {
+  const { abortSignal: _abortSignal, httpOptions: _httpOptions, ...config } =
+    params.config ?? {}
+  return {
+    model: params.model,
+    contents: toJson(params.contents),
+    config: Object.keys(config).length > 0 ? (toJson(config) as Record<string, unknown>) : undefined,
+  }
+}
+
+/** 요청 지문 (키 순서와 무관한 JSON의 sha256 앞 16자리) */
+function createExchangeKey(method: FakeMethod, request: RecordedExchange['request']): string {
+  return createHash('sha256')
+    .update(stableStringify({ method, ...request }))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/** JSON 직렬화 가능한 값으로 변환 (HTTP 응답 원본 제외) */
+function toJson(value: unknown): unknown {
+  if (value === undefined) return undefined
+  return JSON.parse(
+    JSON.stringify(value, (key, v) => (key === 'sdkHttpResponse' ? undefined : v))
+  )
+}
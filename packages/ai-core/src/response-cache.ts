@@ -0,0 +1,147 @@
+// packages/ai-core/src/response-cache.ts
+// 응답 캐시 - 같은 모델/시스템 인스트럭션/contents/생성 설정 요청의 결과 재사용 (기본: 메모리 LRU)
+
+import { createHash } from 'node:crypto'
+
+import type { CachedResponse, ResponseCacheStats, ResponseCacheStore } from './types'
+
+/** 응답 캐시 기본 TTL (1시간) */
+export const DEFAULT_RESPONSE_CACHE_TTL = 60 * 60 * 1000
+
+/** 메모리 캐시 기본 최대 항목 수 */
+const DEFAULT_MAX_ENTRIES = 500
+
+/** 메모리 LRU 캐시 (기본값) - 단일 프로세스 내에서만 공유 */
+export class InMemoryResponseCache implements ResponseCacheStore {
+  private entries = new Map<string, { value: CachedResponse; expiresAt: number }>()
+  private maxEntries: number
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  }
+
+  async get(key: string): Promise<CachedResponse | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return null
+    }
+
+    // 최근 사용 항목을 맨 뒤로 (Map 삽입 순서 = 사용 순서)
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return { ...entry.value }
+  }
+
+  async set(key: string, value: CachedResponse, ttlMs: number): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, { value: { ...value }, expiresAt: Date.now() + ttlMs })
+
+    // 가장 오래 사용하지 않은 항목부터 제거
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  /** 저장된 항목 수 (만료 항목 포함) */
+  get size(): number {
+    return this.entries.size
+  }
+}
+
+/** 응답 캐시 적중/미적중 집계 */
+export class ResponseCacheMetrics {
+  private hits = 0
+  private misses = 0
+  private writes = 0
+  private errors = 0
+  private byFeature: Record<string, { hits: number; misses: number }> = {}
+
+  recordLookup(hit: boolean, feature?: string): void {
+    if (hit) this.hits++
+    else this.misses++
+
+    if (feature) {
+      const stats = (this.byFeature[feature] ??= { hits: 0, misses: 0 })
+      if (hit) stats.hits++
+      else stats.misses++
+    }
+  }
+
+  recordWrite(): void {
+    this.writes++
+  }
+
+  recordError(): void {
+    this.errors++
+  }
+
+  getStats(): ResponseCacheStats {
+    const lookups = this.hits + this.misses
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      writes: this.writes,
+      errors: this.errors,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      byFeature: Object.fromEntries(
+        Object.entries(this.byFeature).map(([feature, stats]) => [feature, { ...stats }])
+      ),
+    }
+  }
+
+  reset(): void {
+    this.hits = 0
+    this.misses = 0
+    this.writes = 0
+    this.errors = 0
+    this.byFeature = {}
+  }
+}
+
+/**
+ * 응답 캐시 키 (요청 구성요소의 sha256)
+ * 취소 신호 등 결과에 영향 없는 값은 호출 측에서 제외하고 넘긴다.
+ */
+export function createResponseCacheKey(request: {
+  operation: string
+  /** 요청 대상 모델 (모델 지정 호출) */
+  model?: string
+  /** 요청 대상 티어 (모델 미지정 호출, 어느 폴백 조합이 응답했든 같은 키) */
+  tier?: string
+  /** 티어 고정 여부 (preferredTier 호출은 다음 티어로 폴백하지 않으므로 따로 저장) */
+  fixedTier?: boolean
+  systemInstruction?: string
+  /** 컨텍스트 캐시 식별자 (내용 기반) */
+  contextCache?: string
+  contents: unknown
+  config?: object
+}): string {
+  return createHash('sha256').update(stableStringify(request)).digest('hex')
+}
+
+/** 키를 정렬한 JSON 문자열 (객체 키 순서와 무관하게 같은 값 → 같은 문자열) */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
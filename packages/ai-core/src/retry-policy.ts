@@ -0,0 +1,247 @@
+// packages/ai-core/src/retry-policy.ts
+// 폴백 엔진 오류 분류 및 백오프 정책
+
+import { ApiError } from '@google/genai'
+
+import { GeminiError } from './errors'
+import type { GeminiErrorCategory, RetryPolicy } from './types'
+
+/** 기본 재시도 정책 */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  jitter: true,
+}
+
+/** 분류 결과 */
+export interface ClassifiedError {
+  category: GeminiErrorCategory
+  status?: number
+  /** 키 자체가 무효한 경우 (모든 모델에서 키 비활성화) */
+  authFailure: boolean
+  /** 서버가 지정한 재시도 대기 시간 */
+  retryAfterMs?: number
+}
+
+/**
+ * 오류 분류
+ * - retryable: 429 속도 제한, 5xx, 타임아웃/네트워크 오류, 빈 응답
+ * - key: 401/403, 무효 키, 일일 할당량 소진, 모델 없음(404)
+ * - request: 400 잘못된 요청, 안전 필터 차단 (다른 키로 재시도해도 동일)
+ */
+export function classifyGeminiError(error: unknown): ClassifiedError {
+  if (error instanceof GeminiError) {
+    return {
+      category: error.category,
+      status: error.status,
+      authFailure: false,
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  const status = getStatus(error)
+  const retryAfterMs = getRetryAfterMs(error)
+
+  if (
+    status === 401 ||
+    status === 403 ||
+    /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)
+  ) {
+    return { category: 'key', status, authFailure: true }
+  }
+
+  if (status === 429) {
+    // 분당 속도 제한은 재시도 가능, 결제/일일 할당량 소진은 키 단위 비활성화
+    const exhausted = /billing|per ?day|PerDay|daily/i.test(message)
+    return {
+      category: exhausted ? 'key' : 'retryable',
+      status,
+      authFailure: false,
+      retryAfterMs,
+    }
+  }
+
+  if (status === 404) {
+    return { category: 'key', status, authFailure: false }
+  }
+
+  if (status === 408 || (status !== undefined && status >= 500)) {
+    return { category: 'retryable', status, authFailure: false, retryAfterMs }
+  }
+
+  if (status !== undefined && status >= 400) {
+    return { category: 'request', status, authFailure: false }
+  }
+
+  // 상태 코드가 없는 오류: 타임아웃/네트워크 등은 재시도
+  return { category: 'retryable', status, authFailure: false, retryAfterMs }
+}
+
+/** HTTP 상태 코드 추출 */
+function getStatus(error: unknown): number | undefined {
+  if (error instanceof ApiError) {
+    return error.status
+  }
+  if (error && typeof error === 'object' && 'status' in error) {
+    const status = (error as { status: unknown }).status
+    return typeof status === 'number' ? status : undefined
+  }
+  return undefined
+}
+
+/**
+ * 재시도 대기 시간 추출 (ms)
+ * 1. Gemini 오류 본문의 RetryInfo.retryDelay ("37s" 또는 { seconds, nanos })
+ * 2. HTTP Retry-After 헤더 (초 또는 HTTP 날짜)
+ * 3. 메시지에 남은 retryDelay/Retry-After 문자열 (본문이 잘린 경우)
+ */
+export function getRetryAfterMs(error: unknown): number | undefined {
+  const message = error instanceof Error ? error.message : String(error)
+
+  return (
+    getRetryInfoDelayMs(error, message) ??
+    getRetryAfterHeaderMs(error) ??
+    getRetryAfterFromMessage(message)
+  )
+}
+
+/** google.rpc.RetryInfo 세부 정보에서 대기 시간 추출 (오류 객체 또는 메시지의 JSON 본문) */
+function getRetryInfoDelayMs(error: unknown, message: string): number | undefined {
+  const bodies = [error, parseJsonBody(message)]
+
+  for (const body of bodies) {
+    for (const detail of getErrorDetails(body)) {
+      if (!isRecord(detail)) continue
+      const type = detail['@type']
+      if (typeof type !== 'string' || !type.endsWith('google.rpc.RetryInfo')) continue
+
+      const delayMs = parseDuration(detail.retryDelay)
+      if (delayMs !== undefined) return delayMs
+    }
+  }
+  return undefined
+}
+
+/** 오류 본문의 details 배열 ({ details } 또는 { error: { details } }) */
+function getErrorDetails(body: unknown): unknown[] {
+  if (!isRecord(body)) return []
+  const details = Array.isArray(body.details)
+    ? body.details
+    : isRecord(body.error) && Array.isArray(body.error.details)
+      ? body.error.details
+      : []
+  return details as unknown[]
+}
+
+/** 메시지 안의 JSON 본문 파싱 (SDK는 "got status: 429 ... {json}" 형태로 전달) */
+function parseJsonBody(message: string): unknown {
+  const start = message.indexOf('{')
+  if (start === -1) return undefined
+  try {
+    return JSON.parse(message.slice(start))
+  } catch {
+    return undefined
+  }
+}
+
+/** protobuf Duration ("1.5s" 또는 { seconds, nanos }) → ms */
+function parseDuration(value: unknown): number | undefined {
+  if (typeof value === 'string') {
+    const match = value.match(/^(\d+(?:\.\d+)?)s$/)
+    return match?.[1] ? Math.round(parseFloat(match[1]) * 1000) : undefined
+  }
+  if (isRecord(value)) {
+    const seconds = Number(value.seconds ?? 0)
+    const nanos = Number(value.nanos ?? 0)
+    if (Number.isFinite(seconds) && Number.isFinite(nanos)) {
+      return Math.round(seconds * 1000 + nanos / 1e6)
+    }
+  }
+  return undefined
+}
+
+/** 오류에 담긴 HTTP 응답 헤더의 Retry-After (error.headers 또는 error.response.headers) */
+function getRetryAfterHeaderMs(error: unknown): number | undefined {
+  if (!isRecord(error)) return undefined
+  const headers =
+    error.headers ?? (isRecord(error.response) ? error.response.headers : undefined)
+
+  let value: unknown
+  if (headers instanceof Headers) {
+    value = headers.get('retry-after')
+  } else if (isRecord(headers)) {
+    const name = Object.keys(headers).find((key) => key.toLowerCase() === 'retry-after')
+    value = name ? headers[name] : undefined
+  }
+
+  return typeof value === 'string' ? parseRetryAfter(value) : undefined
+}
+
+/** Retry-After 값 (초 또는 HTTP 날짜) → ms */
+function parseRetryAfter(value: string): number | undefined {
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000
+  }
+
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/** 메시지 문자열에서 대기 시간 추출 (구조화 정보가 없을 때) */
+function getRetryAfterFromMessage(message: string): number | undefined {
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/)
+  if (retryDelay?.[1]) {
+    return Math.round(parseFloat(retryDelay[1]) * 1000)
+  }
+
+  const retryAfter = message.match(/Retry-After\W+(\d+)/i)
+  if (retryAfter?.[1]) {
+    return parseInt(retryAfter[1], 10) * 1000
+  }
+
+  return undefined
+}
+
+/** 객체 여부 */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+/**
+ * 다음 시도 전 대기 시간 계산
+ * 지수 백오프(+ full jitter, 최대값으로 제한). Retry-After가 있으면 그보다 먼저 재시도하지 않도록
+ * 둘 중 큰 값을 쓴다 (서버 지정 시간은 제한하지 않음).
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfterMs?: number
+): number {
+  const exponential = Math.min(
+    policy.baseDelayMs * 2 ** attempt,
+    policy.maxDelayMs
+  )
+  const backoff = policy.jitter ? Math.round(Math.random() * exponential) : exponential
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, backoff) : backoff
+}
+
+/** 대기 (신호가 중단되면 즉시 거부) */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
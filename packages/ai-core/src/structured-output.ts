@@ -0,0 +1,157 @@
+// packages/ai-core/src/structured-output.ts
+// 구조화 JSON 출력 - 스키마 변환, 응답 파싱, 런타임 검증
+
+import type { StructuredSchema } from './types'
+
+/** 검증 결과 */
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] }
+
+/**
+ * StructuredSchema를 Gemini responseJsonSchema(JSON Schema)로 변환
+ * nullable은 JSON Schema의 type 배열로 표현한다.
+ */
+export function toResponseJsonSchema(
+  schema: StructuredSchema
+): Record<string, unknown> {
+  const { nullable, ...rest } = schema
+  const result: Record<string, unknown> = {
+    ...rest,
+    type: nullable ? [schema.type, 'null'] : schema.type,
+  }
+
+  if (schema.type === 'array') {
+    result.items = toResponseJsonSchema(schema.items)
+  }
+
+  if (schema.type === 'object') {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toResponseJsonSchema(value),
+      ])
+    )
+  }
+
+  return result
+}
+
+/**
+ * 값이 스키마를 만족하는지 검증
+ * @returns 실패 사유 목록 (빈 배열이면 통과)
+ */
+export function validateStructured(
+  value: unknown,
+  schema: StructuredSchema,
+  path = '$'
+): string[] {
+  if (value === null) {
+    return schema.nullable ? [] : [`${path}: null은 허용되지 않습니다.`]
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') {
+        return [`${path}: 문자열이어야 합니다.`]
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: ${schema.enum.join(', ')} 중 하나여야 합니다.`]
+      }
+      return []
+    }
+
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        return [`${path}: 숫자여야 합니다.`]
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        return [`${path}: 정수여야 합니다.`]
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path}: ${schema.minimum} 이상이어야 합니다.`]
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${path}: ${schema.maximum} 이하여야 합니다.`]
+      }
+      return []
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: 불리언이어야 합니다.`]
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${path}: 배열이어야 합니다.`]
+      }
+      const issues: string[] = []
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push(`${path}: 최소 ${schema.minItems}개 항목이 필요합니다.`)
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push(`${path}: 최대 ${schema.maxItems}개 항목까지 허용됩니다.`)
+      }
+      value.forEach((item, i) => {
+        issues.push(...validateStructured(item, schema.items, `${path}[${i}]`))
+      })
+      return issues
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path}: 객체여야 합니다.`]
+      }
+      const record = value as Record<string, unknown>
+      const issues: string[] = []
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          issues.push(`${path}.${key}: 필수 필드가 없습니다.`)
+        }
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          issues.push(
+            ...validateStructured(record[key], propSchema, `${path}.${key}`)
+          )
+        }
+      }
+      return issues
+    }
+  }
+}
+
+/**
+ * 모델 응답 텍스트를 JSON으로 파싱 후 스키마 검증
+ * responseMimeType을 지원하지 않는 모델 대비로 ```json 코드블록도 벗겨낸다.
+ */
+export function parseStructured<T>(
+  text: string,
+  schema: StructuredSchema
+): StructuredParseResult<T> {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/)
+  const jsonStr = (fenced?.[1] ?? text).trim()
+
+  let value: unknown
+  try {
+    value = JSON.parse(jsonStr)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { success: false, issues: [`$: 유효한 JSON이 아닙니다 (${message})`] }
+  }
+
+  const issues = validateStructured(value, schema)
+  return issues.length === 0
+    ? { success: true, data: value as T }
+    : { success: false, issues }
+}
+
+/** 검증 실패 시 모델에게 보낼 복구 프롬프트 */
+export function buildRepairPrompt(issues: string[]): string {
+  return `이전 응답이 요구된 JSON 스키마 검증에 실패했습니다.
+
+[검증 오류]
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+위 오류를 수정하여 스키마에 맞는 JSON만 다시 출력하세요. 다른 텍스트는 포함하지 마세요.`
+}
@@ -0,0 +1,26 @@
+// packages/ai-core/src/tokens.ts
+// 토큰 수 추정 (API 호출 없이 로컬 계산)
+
+import type { PromptInput } from './types'
+
+/** 토큰 수 추정 (한글 1자 ≈ 1토큰, 그 외 4자 ≈ 1토큰) */
+export function estimateTokens(text: string): number {
+  const korean = (text.match(/[가-힣]/g) || []).length
+  return korean + Math.ceil((text.length - korean) / 4)
+}
+
+/** 생성 입력의 텍스트 토큰 수 추정 (시스템 인스트럭션 포함) */
+export function estimatePromptTokens(
+  prompt: PromptInput,
+  systemInstruction?: string
+): number {
+  const texts =
+    typeof prompt === 'string'
+      ? [prompt]
+      : prompt.flatMap((content) => (content.parts ?? []).map((part) => part.text ?? ''))
+
+  return [...texts, systemInstruction ?? ''].reduce(
+    (total, text) => total + estimateTokens(text),
+    0
+  )
+}
@@ -0,0 +1,147 @@
+// packages/ai-core/src/tools.ts
+// 함수 호출(도구) 레지스트리 - 함수 선언 + 핸들러 등록, 모델 요청 호출 실행
+
+import type { FunctionCall, FunctionDeclaration, Part } from '@google/genai'
+
+import { toErrorMessage } from './logger'
+import { toResponseJsonSchema, validateStructured } from './structured-output'
+import type {
+  ToolCallContext,
+  ToolCallRecord,
+  ToolDefinition,
+} from './types'
+
+/** 도구 이름 규칙 (Gemini 함수 선언 제약: 영문/숫자/_/-, 64자 이하) */
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/
+
+/**
+ * 인자 타입을 지정해 도구 정의 (레지스트리 등록 시 타입 추론용)
+ */
+export function defineTool<TArgs = Record<string, unknown>, TResult = unknown>(
+  tool: ToolDefinition<TArgs, TResult>
+): ToolDefinition<TArgs, TResult> {
+  return tool
+}
+
+/**
+ * 도구 레지스트리
+ * 등록된 도구를 Gemini 함수 선언으로 변환하고, 모델이 요청한 호출을 검증 후 실행한다.
+ * 핸들러 오류나 인자 검증 실패는 예외 대신 오류 응답으로 모델에 돌려줘 스스로 복구하게 한다.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>()
+
+  constructor(tools: ToolDefinition<never>[] = []) {
+    tools.forEach((tool) => this.register(tool))
+  }
+
+  /** 도구 등록 (같은 이름이 있으면 오류) */
+  register<TArgs>(tool: ToolDefinition<TArgs>): this {
+    if (!TOOL_NAME_PATTERN.test(tool.name)) {
+      throw new Error(`도구 이름이 올바르지 않습니다: ${tool.name}`)
+    }
+    if (this.tools.has(tool.name)) {
+      throw new Error(`이미 등록된 도구입니다: ${tool.name}`)
+    }
+    this.tools.set(tool.name, tool as unknown as ToolDefinition)
+    return this
+  }
+
+  /** 도구 제거 */
+  unregister(name: string): boolean {
+    return this.tools.delete(name)
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name)
+  }
+
+  /** 등록된 도구 이름 목록 */
+  list(): string[] {
+    return [...this.tools.keys()]
+  }
+
+  /** Gemini 함수 선언 목록 (names 지정 시 해당 도구만, 등록되지 않은 이름이 있으면 오류) */
+  getFunctionDeclarations(names?: string[]): FunctionDeclaration[] {
+    const unknown = names?.filter((name) => !this.tools.has(name)) ?? []
+    if (unknown.length > 0) {
+      throw new Error(`등록되지 않은 도구입니다: ${unknown.join(', ')}`)
+    }
+
+    const tools = names ? names.map((name) => this.tools.get(name)!) : [...this.tools.values()]
+
+    return tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      parametersJsonSchema: tool.parameters
+        ? toResponseJsonSchema(tool.parameters)
+        : undefined,
+    }))
+  }
+
+  /**
+   * 모델이 요청한 함수 호출 실행
+   * @returns 호출 기록과 모델에 돌려줄 functionResponse 파트
+   */
+  async execute(
+    call: FunctionCall,
+    context: ToolCallContext
+  ): Promise<{ record: ToolCallRecord; part: Part }> {
+    const name = call.name ?? ''
+    const args = call.args ?? {}
+    const startedAt = Date.now()
+    const record: ToolCallRecord = {
+      id: call.id,
+      name,
+      args,
+      iteration: context.iteration,
+      durationMs: 0,
+    }
+
+    try {
+      const tool = this.tools.get(name)
+      if (!tool) {
+        throw new Error(`등록되지 않은 도구입니다: ${name}`)
+      }
+
+      if (tool.parameters) {
+        const issues = validateStructured(args, tool.parameters)
+        if (issues.length > 0) {
+          throw new Error(`인자가 스키마와 맞지 않습니다: ${issues.join(' / ')}`)
+        }
+      }
+
+      context.signal.throwIfAborted()
+      record.result = await tool.handler(args, context)
+    } catch (error) {
+      // 취소는 모델에 돌려주지 않고 실행 전체를 중단
+      if (context.signal.aborted) throw error
+      record.error = toErrorMessage(error)
+    }
+
+    record.durationMs = Date.now() - startedAt
+
+    return {
+      record,
+      part: {
+        functionResponse: {
+          id: call.id,
+          name,
+          response:
+            record.error !== undefined
+              ? { error: record.error }
+              : { output: record.result ?? null },
+        },
+      },
+    }
+  }
+}
+
+/** 도구 레지스트리 생성 */
+export function createToolRegistry(tools: ToolDefinition<never>[] = []): ToolRegistry {
+  return new ToolRegistry(tools)
+}
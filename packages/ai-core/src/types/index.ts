@@ -1,11 +1,18 @@
 // packages/ai-core/src/types/index.ts
 // AI Core 타입 정의
 
-/** Gemini 모델 타입 */
+import type { Content, GoogleGenAI } from '@google/genai'
+
+/**
+ * Gemini 모델 타입
+ * 알려진 모델은 자동완성되며, 새 모델 ID도 패키지 릴리스 없이 그대로 사용 가능
+ */
 export type GeminiModel =
   | 'gemini-2.5-pro'
   | 'gemini-2.5-flash'
+  | 'gemini-2.5-flash-lite'
   | 'gemini-2.0-flash'
+  | (string & {})
 
 /** 채팅 메시지 역할 */
 export type ChatRole = 'user' | 'model' | 'system'
@@ -37,19 +44,481 @@ export interface APIKeyStatus {
 export interface KeyModelStatus {
   key: string
   model: GeminiModel
-  tier: 1 | 2 // 1군(Pro), 2군(Flash)
+  /** 티어 순번 (1부터, 설정 순서대로 폴백. 0은 호출 시 지정된 임시 모델) */
+  tier: number
+  /** 티어 이름 */
+  tierName: string
+  /** 외부 공급자 이름 (Gemini 키 조합은 없음) */
+  provider?: string
   available: boolean
   lastUsed?: Date
   errorCount: number
+  /** 이 시각까지 사용 중지 (쿨다운 중인 경우) */
+  cooldownUntil?: Date
+}
+
+/** 조합의 최근 오류 (메모리, 최신순 최대 5개) */
+export interface KeyErrorEntry {
+  at: Date
+  category: GeminiErrorCategory
+  status?: number
+  message: string
+}
+
+/** 키 점검 결과 종류 */
+export type KeyProbeStatus =
+  | 'ok'
+  | 'rate_limited'
+  | 'quota_exhausted'
+  | 'auth_failed'
+  | 'model_unavailable'
+  | 'error'
+
+/** 키+모델 조합 점검 결과 */
+export interface KeyProbeResult {
+  /** 키 풀 이름 (기본 키는 없음) */
+  pool?: string
+  /** API 키 순번 (1부터, 외부 공급자는 0) */
+  keyIndex: number
+  /** 키 지문 (sha256 앞 12자, 외부 공급자는 'provider:<이름>') */
+  keyFingerprint: string
+  /** 마스킹된 키 (예: 'AIza…x7Qk') */
+  maskedKey: string
+  provider?: string
+  model: GeminiModel
+  tierName: string
+  status: KeyProbeStatus
+  latencyMs: number
+  /** HTTP 상태 코드 (실패 시) */
+  httpStatus?: number
+  /** 오류 메시지 (실패 시) */
+  message?: string
+  checkedAt: Date
+}
+
+/** 키 점검 옵션 */
+export interface ProbeKeysOptions {
+  /**
+   * 점검 요청 ('generate': 최대 출력 1토큰 생성 - 할당량까지 확인(기본),
+   * 'countTokens': 무료 토큰 계산 - 인증/모델 존재만 확인)
+   */
+  method?: 'generate' | 'countTokens'
+  /** 점검할 모델 (기본: 모든 조합) */
+  models?: GeminiModel[]
+  /** 이 키 풀만 점검 (기본: 이 클라이언트와 모든 키 풀) */
+  pool?: string
+  /** 조합당 제한 시간 (ms, 기본: 10초) */
+  timeoutMs?: number
+  /** 동시 점검 수 (기본: 4) */
+  concurrency?: number
+  /** 결과를 조합 상태에 반영 (실패는 에러 횟수/쿨다운, 성공은 복구) (기본: true) */
+  updateHealth?: boolean
+  signal?: AbortSignal
+}
+
+/** 관리 화면용 조합 상태 */
+export interface KeyStatusEntry extends Omit<KeyModelStatus, 'key'> {
+  /** 키 풀 이름 (기본 키는 없음) */
+  pool?: string
+  /** API 키 순번 (1부터, 외부 공급자는 0) */
+  keyIndex: number
+  /** 키 지문 (sha256 앞 12자, 외부 공급자는 'provider:<이름>') */
+  keyFingerprint: string
+  /** 마스킹된 키 */
+  maskedKey: string
+  /** 최근 오류 (최신순) */
+  recentErrors: KeyErrorEntry[]
+  /** 마지막 성공 시각 (이 인스턴스 기준) */
+  lastSuccessAt?: Date
+  /** 마지막 점검 결과 */
+  lastProbe?: KeyProbeResult
+}
+
+/** 관리 화면용 키 상태 스냅샷 */
+export interface KeyStatusSnapshot {
+  generatedAt: Date
+  entries: KeyStatusEntry[]
+  totals: {
+    combos: number
+    available: number
+    /** 쿨다운 중인 조합 */
+    coolingDown: number
+  }
+}
+
+/** 모델 티어 설정 */
+export interface ModelTierConfig {
+  /** 티어 이름 (호출 시 tier 옵션으로 지정) */
+  name: string
+  /** 티어에 속한 모델 (키 × 모델 조합을 라운드 로빈) */
+  models: GeminiModel[]
+  /** 조합 비활성화 기준 에러 횟수 (기본: 3) */
+  maxErrorCount?: number
+  /** 비활성화된 조합 복구 시간 (ms, 기본: 5분) */
+  recoveryMs?: number
+  /**
+   * 티어 모델을 제공하는 외부 공급자 (OpenAI 호환 서버 등)
+   * 미지정 시 apiKeys의 Gemini 키로 요청하며, 지정 시 공급자 × 모델 조합으로 폴백한다.
+   */
+  provider?: LLMProvider
 }
 
 /** AI Core 설정 */
 export interface AICoreConfig {
+  /** Gemini API 키 (모든 티어가 외부 공급자를 쓰면 비워도 됨) */
   apiKeys: string[]
+  /**
+   * 폴백 순서대로 나열한 모델 티어 (기본: Pro → Flash)
+   */
+  tiers?: ModelTierConfig[]
+  /** 첫 번째 티어 모델 (tiers 미지정 시 기본 Pro 대신 사용) */
   defaultModel?: GeminiModel
+  /** 기본 최대 시도 횟수 (기본: 키 × 모델 조합 수) */
   maxRetries?: number
+  /** 응답 캐시 사용 (기본: false) - 호출별 cache 옵션이 우선 */
   cacheEnabled?: boolean
+  /** 응답 캐시 TTL (ms, 기본: 1시간) */
   cacheTTL?: number
+  /** 응답 캐시 저장소 (기본: 메모리 LRU 500개) - 여러 인스턴스가 공유할 때 주입 */
+  cacheStore?: ResponseCacheStore
+  /** 임베딩 캐시 사용 (기본: false) - 호출별 cache 옵션이 우선 */
+  embeddingCacheEnabled?: boolean
+  /** 임베딩 캐시 저장소 (기본: 메모리 LRU 10,000개) - 재색인 간 공유할 때 Prisma 저장소 주입 */
+  embeddingCacheStore?: EmbeddingCacheStore
+  /** 재시도 가능 오류의 백오프 정책 */
+  retryPolicy?: RetryPolicy
+  /** 키+모델 상태 저장소 (기본: 프로세스 메모리) - 여러 인스턴스가 쿨다운을 공유할 때 주입 */
+  healthStore?: KeyHealthStore
+  /** 호출마다 사용량 기록을 전달받는 훅 (DB 저장, 모니터링 전송 등) */
+  usageRecorder?: UsageRecorder
+  /** 예상 비용 계산용 모델 단가 (기본 단가표에 병합) */
+  priceTable?: PriceTable
+  /** 키+모델별 레이트 리밋 및 동시 실행 제한 (기본: 제한 없음) */
+  rateLimits?: RateLimitConfig
+  /** 로거 (기본: 콘솔, info 이상) - 구조화 로그 파이프라인에 연결할 때 주입 */
+  logger?: Logger
+  /** 시도/폴백/성공/실패 시점 훅 (모니터링, 트레이싱 연동) */
+  hooks?: GeminiClientHooks
+  /** 생성 설정 기본값 (호출/프롬프트별 설정이 우선) */
+  generation?: GenerationSettings
+  /** 요청 1건의 인라인 데이터 합계 한도 (bytes, 기본: 20MB) - 초과분은 Files API로 업로드 */
+  inlineLimitBytes?: number
+  /** API 키별 SDK 클라이언트 생성 (기본: new GoogleGenAI({ apiKey })) - 가짜/녹화 클라이언트 주입용 */
+  clientFactory?: (apiKey: string) => GoogleGenAI
+  /**
+   * 이름 있는 키 풀 (파트너 브랜드/프로젝트별 키, 티어, 레이트 리밋, 사용량 분리)
+   * 호출별 pool 옵션이나 forPool(name)으로 선택하며, 풀이 있으면 기본 apiKeys는 비워도 된다.
+   */
+  pools?: Record<string, KeyPoolConfig>
+  /** 키 풀 이름 (사용량 기록과 시도 이벤트에 남김, 풀 클라이언트는 자동 지정) */
+  pool?: string
+}
+
+/**
+ * 키 풀 설정
+ * apiKeys 외 항목은 미지정 시 상위 설정을 따른다.
+ * 응답/임베딩 캐시 저장소는 브랜드 간 공유하지 않도록 풀마다 따로 만든다 (명시 주입 시 해당 저장소 사용).
+ */
+export type KeyPoolConfig = Partial<Omit<AICoreConfig, 'pools' | 'pool'>> & {
+  apiKeys: string[]
+}
+
+/**
+ * 레이트 리밋 설정
+ * 한도는 키+모델 조합마다 따로 적용되며, 여유 있는 조합이 먼저 선택된다.
+ */
+export interface RateLimitConfig {
+  /** 조합당 분당 요청 수 */
+  rpm?: number
+  /** 조합당 분당 입력 토큰 수 */
+  tpm?: number
+  /** 모델별 한도 (공통 한도보다 우선) */
+  models?: Record<string, { rpm?: number; tpm?: number }>
+  /** 클라이언트 전체 동시 요청 수 */
+  maxConcurrency?: number
+}
+
+/** 캐시된 응답 */
+export interface CachedResponse {
+  /** 응답 텍스트 (구조화 출력은 JSON 원문) */
+  text: string
+  /** 응답한 모델 */
+  model: GeminiModel
+  finishReason?: string
+  /** 저장 시각 (epoch ms) */
+  cachedAt: number
+}
+
+/**
+ * 응답 캐시 저장소
+ * 키는 요청(호출 종류, 요청 대상 모델/티어, 시스템 인스트럭션, contents, 생성 설정)의 sha256이다.
+ */
+export interface ResponseCacheStore {
+  /** 조회 (없거나 만료되면 null) */
+  get: (key: string) => Promise<CachedResponse | null>
+  /** 저장 (ttlMs 후 만료) */
+  set: (key: string, value: CachedResponse, ttlMs: number) => Promise<void>
+  delete?: (key: string) => Promise<void>
+  clear?: () => Promise<void>
+}
+
+/** 응답 캐시 적중/미적중 통계 */
+export interface ResponseCacheStats {
+  hits: number
+  misses: number
+  writes: number
+  /** 저장소 오류 (요청은 캐시 없이 계속 진행) */
+  errors: number
+  /** 적중률 (0~1, 조회가 없으면 0) */
+  hitRate: number
+  /** 기능 태그별 적중/미적중 */
+  byFeature: Record<string, { hits: number; misses: number }>
+}
+
+/** 임베딩 캐시 항목 */
+export interface EmbeddingCacheEntry {
+  key: string
+  embedding: number[]
+}
+
+/**
+ * 임베딩 캐시 저장소
+ * 키는 모델:용도:차원:텍스트 sha256 형식이며, 같은 텍스트의 벡터는 바뀌지 않으므로 만료가 없다.
+ */
+export interface EmbeddingCacheStore {
+  /** 여러 항목 일괄 조회 (없는 키는 결과에서 생략) */
+  getMany: (keys: string[]) => Promise<Map<string, number[]>>
+  /** 여러 항목 일괄 저장 (같은 키는 덮어씀) */
+  setMany: (entries: EmbeddingCacheEntry[]) => Promise<void>
+  clear?: () => Promise<void>
+}
+
+/** 임베딩 캐시 통계 (항목 단위) */
+export interface EmbeddingCacheStats {
+  hits: number
+  misses: number
+  writes: number
+  /** 저장소 오류 (요청은 캐시 없이 계속 진행) */
+  errors: number
+  /** 적중률 (0~1, 조회가 없으면 0) */
+  hitRate: number
+  /** 캐시 덕분에 보내지 않은 임베딩 요청 수 */
+  savedCalls: number
+  /** 캐시 덕분에 보내지 않은 입력 토큰 (로컬 추정치) */
+  savedTokens: number
+  /** 기능 태그별 적중/미적중 */
+  byFeature: Record<string, { hits: number; misses: number }>
+}
+
+/** Prisma 클라이언트 인터페이스 (임베딩 캐시 저장소 주입용) */
+export interface EmbeddingCachePrismaLike {
+  aIEmbeddingCache: {
+    findMany: (args: {
+      where: { key: { in: string[] } }
+    }) => Promise<EmbeddingCacheEntry[]>
+    upsert: (args: {
+      where: { key: string }
+      create: EmbeddingCacheEntry
+      update: Omit<EmbeddingCacheEntry, 'key'>
+    }) => Promise<unknown>
+    deleteMany: (args: object) => Promise<unknown>
+  }
+}
+
+/** 키+모델 조합 상태 기록 (저장소 보관용) */
+export interface KeyHealthRecord {
+  /** 누적 에러 횟수 */
+  errorCount: number
+  /** 이 시각까지 사용 중지 (null이면 사용 가능) */
+  cooldownUntil: Date | null
+  /** 마지막 사용 시각 (라운드 로빈 기준) */
+  lastUsedAt: Date | null
+}
+
+/** 조합 실패 반영 요청 */
+export interface KeyHealthFailure {
+  /** 즉시 비활성화 (키 오류 - 에러 횟수를 기준 횟수로 설정) */
+  disable: boolean
+  /** 쿨다운 기준 에러 횟수 */
+  maxErrorCount: number
+  /** 기준 횟수 도달 시 쿨다운 시간 (ms) */
+  recoveryMs: number
+  /** 횟수와 무관한 최소 쿨다운 (ms, 서버가 백오프 상한보다 긴 Retry-After를 준 경우) */
+  retryAfterMs?: number
+}
+
+/**
+ * 키+모델 상태 저장소
+ * ID는 API 키 원문 대신 키 지문과 모델명으로 구성된다.
+ */
+export interface KeyHealthStore {
+  /** 여러 조합 상태 일괄 조회 (기록이 없는 ID는 결과에서 생략) */
+  getMany: (ids: string[]) => Promise<Map<string, KeyHealthRecord>>
+  /** 조합 상태 저장 (복구/초기화용 덮어쓰기) */
+  set: (id: string, record: KeyHealthRecord) => Promise<void>
+  /**
+   * 조합 실패 반영 - 에러 횟수를 원자적으로 증가시키고 필요하면 쿨다운 설정
+   * 여러 요청/인스턴스가 동시에 실패해도 횟수가 유실되지 않아야 한다.
+   * 쿨다운이 끝난 기록은 이번 실패부터 다시 센다.
+   * @returns 반영 후 상태
+   */
+  recordFailure: (id: string, failure: KeyHealthFailure) => Promise<KeyHealthRecord>
+  /**
+   * 조합 사용 시각 반영 - 마지막 사용 시각만 갱신 (에러 횟수/쿨다운은 그대로)
+   * 다른 인스턴스의 라운드 로빈 순서에 쓰인다.
+   */
+  recordUse: (id: string, usedAt: Date) => Promise<void>
+}
+
+/**
+ * 모델 공급자 (Gemini, OpenAI 호환 서버 등)
+ * 폴백 엔진은 공급자 구현과 무관하게 티어별 공급자 × 모델 조합을 순회한다.
+ * 실패는 HTTP 상태 코드(error.status)로 분류되므로 구현은 상태 코드를 담은 오류를 던진다.
+ */
+export interface LLMProvider {
+  /** 공급자 이름 (로그, 훅 이벤트, 상태 저장소 ID) */
+  readonly name: string
+  /** 텍스트 생성 */
+  generate: (request: ProviderGenerateRequest) => Promise<ProviderResponse>
+  /** 스트리밍 생성 */
+  stream: (request: ProviderGenerateRequest) => AsyncIterable<ProviderResponseChunk>
+  /** 텍스트 임베딩 (입력 순서대로) */
+  embed: (request: ProviderEmbedRequest) => Promise<number[][]>
+  /** 입력 토큰 수 (API가 없으면 로컬 추정) */
+  countTokens: (request: ProviderCountTokensRequest) => Promise<number>
+}
+
+/** 공급자 생성 요청 */
+export interface ProviderGenerateRequest {
+  model: GeminiModel
+  /** 대화 입력 (Gemini contents 형식, 공급자가 자체 형식으로 변환) */
+  contents: Content[]
+  systemInstruction?: string
+  generation?: GenerationSettings
+  /** 지정 시 이 JSON 스키마를 따르는 JSON으로 응답 */
+  responseJsonSchema?: object
+  signal?: AbortSignal
+}
+
+/** 공급자 생성 응답 */
+export interface ProviderResponse {
+  text: string
+  /** 종료 사유 (Gemini 표기로 통일: 'STOP', 'MAX_TOKENS', 'SAFETY' 등) */
+  finishReason?: string
+  /** 프롬프트 차단 사유 (응답 생성 전 차단된 경우) */
+  blockReason?: string
+  usage?: UsageTokens
+}
+
+/** 공급자 스트리밍 청크 (종료 사유/사용량은 마지막 청크에만 있을 수 있음) */
+export interface ProviderResponseChunk {
+  text?: string
+  finishReason?: string
+  blockReason?: string
+  usage?: UsageTokens
+}
+
+/** 공급자 임베딩 요청 */
+export interface ProviderEmbedRequest {
+  model: string
+  texts: string[]
+  /** 임베딩 용도 (지원하지 않는 공급자는 무시) */
+  taskType?: EmbeddingTaskType
+  title?: string
+  outputDimensionality?: number
+  signal?: AbortSignal
+}
+
+/** 공급자 토큰 계산 요청 */
+export interface ProviderCountTokensRequest {
+  model: GeminiModel
+  contents: Content[]
+  systemInstruction?: string
+  signal?: AbortSignal
+}
+
+/** 재시도 백오프 정책 */
+export interface RetryPolicy {
+  /** 지수 백오프 기본 대기 (ms, 기본: 500) */
+  baseDelayMs?: number
+  /**
+   * 최대 대기 (ms, 기본: 8000)
+   * Retry-After가 이보다 길면 기다리지 않고 해당 키+모델을 그 시간 동안 쉬게 한 뒤 다음 조합으로 넘어간다.
+   */
+  maxDelayMs?: number
+  /** full jitter 적용 여부 (기본: true) */
+  jitter?: boolean
+}
+
+/**
+ * 오류 분류
+ * - retryable: 잠시 후 또는 다른 조합으로 재시도 (429, 5xx, 타임아웃)
+ * - key: 키+모델 조합 비활성화 후 다음 조합으로 (401/403, 할당량 소진)
+ * - request: 요청 자체의 문제로 즉시 실패, 키 비활성화 안 함 (400, 안전 차단)
+ */
+export type GeminiErrorCategory = 'retryable' | 'key' | 'request'
+
+/** 폴백 시도 기록 */
+export interface GeminiAttempt {
+  /** API 키 순번 (1부터, 외부 공급자는 0) */
+  keyIndex: number
+  /** 외부 공급자 이름 (Gemini 키 시도는 없음) */
+  provider?: string
+  model?: GeminiModel
+  category: GeminiErrorCategory
+  status?: number
+  message: string
+}
+
+/** 템플릿 변수 값 */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue }
+
+/** 템플릿 렌더링 입력 */
+export type TemplateValues = Record<string, TemplateValue>
+
+/** 템플릿 변수 타입 */
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'list' | 'object'
+
+/** 템플릿 변수 선언 */
+export interface TemplateVariable {
+  /** 값 타입 (기본: 'string') */
+  type?: TemplateVariableType
+  /** 필수 여부 (기본: 기본값이 없으면 필수) */
+  required?: boolean
+  /** 값이 없을 때 사용할 기본값 */
+  default?: TemplateValue
+  /** 관리 화면용 설명 */
+  description?: string
+}
+
+/** 변수 이름별 선언 */
+export type TemplateVariables = Record<string, TemplateVariable>
+
+/** 템플릿 검증 문제 */
+export interface TemplateIssue {
+  /** error: 렌더링/저장 불가, warning: 알림만 */
+  level: 'error' | 'warning'
+  /**
+   * - syntax: 구문 오류
+   * - missing: 필수 변수 누락
+   * - type: 선언과 다른 타입의 값
+   * - undeclared: 선언하지 않은 변수 참조
+   * - unused: 선언했지만 참조하지 않는 변수
+   */
+  code: 'syntax' | 'missing' | 'type' | 'undeclared' | 'unused'
+  message: string
+  variable?: string
+  /** 줄 번호 (1부터) */
+  line?: number
+  /** 프롬프트 필드 (PromptService 검증 시) */
+  field?: 'systemInstruction' | 'taskPrompt' | 'outputFormat'
 }
 
 /** 프롬프트 데이터 */
@@ -58,6 +527,8 @@ export interface PromptData {
   systemInstruction: string
   taskPrompt: string
   outputFormat: string
+  /** 프롬프트별 생성 설정 (호출 시 generation 옵션으로 전달) */
+  generation: GenerationSettings
 }
 
 /** Prisma 클라이언트 인터페이스 (주입용) */
@@ -77,6 +548,32 @@ export interface PrismaClientLike {
   }
 }
 
+/** Prisma 클라이언트 인터페이스 (키 상태 저장소 주입용) */
+export interface KeyHealthPrismaLike {
+  aIKeyHealth: {
+    findMany: (args: {
+      where: { id: { in: string[] } }
+    }) => Promise<KeyHealthRow[]>
+    upsert: (args: {
+      where: { id: string }
+      create: KeyHealthRow
+      update:
+        | Omit<KeyHealthRow, 'id'>
+        | { errorCount: number | { increment: number }; lastUsedAt: Date }
+        | { lastUsedAt: Date }
+    }) => Promise<KeyHealthRow>
+    update: (args: {
+      where: { id: string }
+      data: Partial<Omit<KeyHealthRow, 'id'>>
+    }) => Promise<KeyHealthRow>
+  }
+}
+
+/** 키 상태 레코드 (DB 스키마 기반) */
+export interface KeyHealthRow extends KeyHealthRecord {
+  id: string
+}
+
 /** 프롬프트 레코드 (DB 스키마 기반) */
 export interface PromptRecord {
   id: string
@@ -93,18 +590,501 @@ export interface PromptRecord {
   isActive: boolean
   version: number
   updatedBy: string | null
+  /** 프롬프트별 생성 설정 (JSON 컬럼, 선택) */
+  generationConfig?: GenerationSettings | null
+  /** 템플릿 변수 선언 (JSON 컬럼, 선택) */
+  variables?: TemplateVariables | null
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * 멀티모달 입력 파트
+ * 문자열은 텍스트 파트, inlineData.data는 base64 문자열 또는 바이트(Buffer), fileData는 업로드된 파일 URI
+ */
+export type MultimodalPart =
+  | string
+  | { text: string }
+  | { inlineData: { data: string | Uint8Array; mimeType: string } }
+  | { fileData: { fileUri: string; mimeType: string } }
+
+/** 생성 입력 (단일 프롬프트 또는 멀티턴 contents) */
+export type PromptInput = string | Content[]
+
+/** 취소 및 제한 시간 옵션 */
+export interface CancellationOptions {
+  /** 취소 신호 - 중단되면 진행 중인 요청과 이후 폴백을 즉시 멈춤 */
+  signal?: AbortSignal
+  /** 전체 제한 시간 (ms, 폴백·백오프 대기 포함) */
+  timeoutMs?: number
+  /** 시도 1회 제한 시간 (ms) - 초과 시 재시도 가능 오류로 보고 다음 조합으로 폴백 */
+  attemptTimeoutMs?: number
+}
+
+/** 폴백 대상 선택 옵션 */
+export interface FallbackOptions extends CancellationOptions {
+  /** 최대 시도 횟수 */
+  maxRetries?: number
+  /** 이 티어부터 시작 (이후 티어로 폴백 계속) - 이름 또는 1부터 시작하는 순번 */
+  tier?: string | number
+  /** 이 티어만 사용 (다른 티어로 폴백하지 않음) */
+  preferredTier?: string | number
+  /** 모델 고정 (티어 무시, 키만 폴백) */
+  model?: GeminiModel
+  /** 사용량 집계용 기능 태그 (예: 'blog-generation', 'image-analysis') */
+  feature?: string
+  /** 키 풀 이름 (AICoreConfig.pools, 미지정 시 이 클라이언트의 키) */
+  pool?: string
+}
+
+/** 범용 폴백 실행 옵션 */
+export interface ExecuteOptions<T> extends FallbackOptions {
+  /** 결과에서 토큰 사용량 추출 (기본: 결과의 usageMetadata) */
+  usage?: (result: T) => UsageTokens | undefined
+  /** 레이트 리밋(TPM) 계산용 예상 입력 토큰 */
+  estimatedTokens?: number
+}
+
+/** 키 폴백 실행 옵션 (모델 고정) */
+export interface KeyFallbackOptions<T> extends CancellationOptions {
+  /** 키 풀 이름 (AICoreConfig.pools, 미지정 시 이 클라이언트의 키) */
+  pool?: string
+  /** 최대 시도 횟수 (기본: 3) */
+  maxRetries?: number
+  /** 호출 모델 - 레이트 리밋과 사용량 기록 기준 (기본: 1군 티어 첫 모델) */
+  model?: GeminiModel
+  /** 사용량 기록에 남길 호출 종류 (기본: 'execute') */
+  operation?: UsageOperation
+  /** 사용량 집계용 기능 태그 */
+  feature?: string
+  /** 결과에서 토큰 사용량 추출 (기본: 결과의 usageMetadata) */
+  usage?: (result: T) => UsageTokens | undefined
+  /** 레이트 리밋(TPM) 계산용 예상 입력 토큰 */
+  estimatedTokens?: number
+}
+
+/** 토큰 계산 옵션 */
+export interface CountTokensOptions {
+  /** 계산 기준 모델 (기본: 1군 티어 첫 모델) */
+  model?: GeminiModel
+  /** 키 풀 이름 (AICoreConfig.pools, 미지정 시 이 클라이언트의 키) */
+  pool?: string
+  /** 시스템 인스트럭션 (입력 토큰에 포함) */
+  systemInstruction?: string
+  /** 컨텍스트 캐시 (캐시 내용도 입력 토큰에 포함) */
+  contextCache?: ContextCache
+  /** 취소 신호 */
+  signal?: AbortSignal
+}
+
+/** 토큰 계산 결과 */
+export interface TokenCount {
+  totalTokens: number
+  /** API 대신 로컬 추정치인지 (키 없음, API 실패 등) */
+  estimated: boolean
+  model: GeminiModel
+}
+
+/** 임베딩 옵션 */
+export interface EmbeddingOptions extends CancellationOptions {
+  /** 키 풀 이름 (AICoreConfig.pools, 미지정 시 이 클라이언트의 키) */
+  pool?: string
+  /** 사용량 집계용 기능 태그 */
+  feature?: string
+  /** 임베딩 용도 (검색 문서는 RETRIEVAL_DOCUMENT, 검색어는 RETRIEVAL_QUERY) */
+  taskType?: EmbeddingTaskType
+  /** 문서 제목 (RETRIEVAL_DOCUMENT 전용, 배치 입력은 항목별 title이 우선) */
+  title?: string
+  /** 출력 차원 (예: 768, 1536) - 잘린 벡터는 L2 정규화 */
+  outputDimensionality?: number
+  /**
+   * 임베딩 캐시 사용 여부
+   * 미지정: 클라이언트 embeddingCacheEnabled, false: 조회/저장 안 함, 'refresh': 조회 없이 새로 생성해 저장
+   */
+  cache?: boolean | 'refresh'
+}
+
+/**
+ * 임베딩 용도 (Gemini taskType)
+ * 알려진 값은 자동완성되며, 새 용도도 그대로 사용 가능
+ */
+export type EmbeddingTaskType =
+  | 'RETRIEVAL_DOCUMENT'
+  | 'RETRIEVAL_QUERY'
+  | 'SEMANTIC_SIMILARITY'
+  | 'CLASSIFICATION'
+  | 'CLUSTERING'
+  | 'QUESTION_ANSWERING'
+  | 'FACT_VERIFICATION'
+  | 'CODE_RETRIEVAL_QUERY'
+  | (string & {})
+
+/** 배치 임베딩 입력 항목 (문서별 제목 지정 시) */
+export interface EmbeddingInput {
+  text: string
+  /** 문서 제목 (RETRIEVAL_DOCUMENT 전용) */
+  title?: string
+}
+
+/** 배치 임베딩 항목별 결과 (입력 순서 유지) */
+export interface EmbeddingResult {
+  /** 입력 배열에서의 위치 */
+  index: number
+  /** 성공 시 벡터 */
+  embedding?: number[]
+  /** 실패 사유 (빈 텍스트, 요청 거부, 모든 키 실패 등) */
+  error?: string
+}
+
+/** 안전 필터 카테고리 */
+export type SafetyCategory =
+  | 'harassment'
+  | 'hateSpeech'
+  | 'sexuallyExplicit'
+  | 'dangerousContent'
+  | 'civicIntegrity'
+
+/**
+ * 안전 필터 차단 기준
+ * - off / blockNone: 차단하지 않음 (off는 안전 평가 자체를 생략)
+ * - blockOnlyHigh / blockMediumAndAbove / blockLowAndAbove: 해당 확률 이상 차단
+ */
+export type SafetyThreshold =
+  | 'off'
+  | 'blockNone'
+  | 'blockOnlyHigh'
+  | 'blockMediumAndAbove'
+  | 'blockLowAndAbove'
+
+/**
+ * 생성 설정 (미지정 값은 SDK/모델 기본값)
+ * 클라이언트 기본값 → 프롬프트별 설정 → 호출별 설정 순으로 병합된다.
+ */
+export interface GenerationSettings {
+  /** 샘플링 온도 (0~2) */
+  temperature?: number
+  topP?: number
+  topK?: number
+  /** 최대 출력 토큰 (사고 토큰과 별도) */
+  maxOutputTokens?: number
+  /** 이 문자열이 나오면 생성 중단 (최대 5개) */
+  stopSequences?: string[]
+  presencePenalty?: number
+  frequencyPenalty?: number
+  /** 재현용 시드 */
+  seed?: number
+  /** 사고(thinking) 토큰 예산 (0: 끄기, -1: 자동) */
+  thinkingBudget?: number
+  /** 카테고리별 차단 기준 (카테고리 단위로 병합) */
+  safety?: Partial<Record<SafetyCategory, SafetyThreshold>>
+}
+
 /** 생성 옵션 */
-export interface GenerateOptions {
+export interface GenerateOptions extends FallbackOptions {
   systemInstruction?: string
-  maxRetries?: number
+  /** 생성 설정 (클라이언트 기본값에 병합) */
+  generation?: GenerationSettings
+  /** 최대 출력 토큰에서 잘린 응답을 반환하지 않고 GeminiTruncatedError로 실패 (기본: false, 로그만 남김) */
+  failOnTruncation?: boolean
+  /**
+   * 응답 캐시 (생성/구조화 출력에만 적용)
+   * 미지정: 클라이언트 cacheEnabled, false: 조회/저장 안 함, 'refresh': 조회 없이 새로 생성해 저장
+   */
+  cache?: boolean | 'refresh'
+  /**
+   * 명시적 컨텍스트 캐시 (GeminiClient.createContextCache)
+   * 캐시의 시스템 인스트럭션/contents가 입력 앞에 붙으며, systemInstruction과 함께 쓸 수 없다.
+   */
+  contextCache?: ContextCache
 }
 
-/** 스트리밍 청크 */
+/** 명시적 컨텍스트 캐시 생성 옵션 */
+export interface ContextCacheOptions {
+  /** 공통 시스템 인스트럭션 */
+  systemInstruction?: string
+  /** 공통 입력 (지식 발췌, 참고 문서 등) - 호출별 입력 앞에 붙음 */
+  contents?: PromptInput
+  /** 캐시 TTL (ms, 기본: 1시간) - 사용 중 만료가 임박하면 연장 */
+  ttlMs?: number
+  /** 캐시 표시 이름 (콘솔 확인용) */
+  displayName?: string
+}
+
+/**
+ * 명시적 컨텍스트 캐시 핸들
+ * 원격 캐시는 API 키(프로젝트) × 모델별로 처음 사용할 때 만들어지고,
+ * 캐시를 쓸 수 없는 키/모델에서는 내용을 요청에 직접 포함해 보낸다.
+ */
+export interface ContextCache {
+  /** 내용 기반 식별자 (같은 시스템 인스트럭션 + contents면 같은 값) */
+  readonly id: string
+  readonly systemInstruction?: string
+  readonly contents: Content[]
+  readonly ttlMs: number
+  readonly displayName?: string
+  /** 예상 토큰 수 (모델별 최소 캐시 크기 검사, 레이트 리밋 계산용) */
+  readonly estimatedTokens: number
+}
+
+/** 구조화 출력 스키마 공통 필드 */
+interface StructuredSchemaBase {
+  description?: string
+  nullable?: boolean
+}
+
+/**
+ * 구조화 출력 스키마 (JSON Schema 부분집합)
+ * Gemini responseJsonSchema로 전달되며, 응답의 런타임 검증에도 사용된다.
+ */
+export type StructuredSchema =
+  | (StructuredSchemaBase & { type: 'string'; enum?: string[] })
+  | (StructuredSchemaBase & {
+      type: 'number' | 'integer'
+      minimum?: number
+      maximum?: number
+    })
+  | (StructuredSchemaBase & { type: 'boolean' })
+  | (StructuredSchemaBase & {
+      type: 'array'
+      items: StructuredSchema
+      minItems?: number
+      maxItems?: number
+    })
+  | (StructuredSchemaBase & {
+      type: 'object'
+      properties: Record<string, StructuredSchema>
+      required?: string[]
+    })
+
+/** 구조화 출력 생성 옵션 */
+export interface StructuredGenerateOptions extends GenerateOptions {
+  /** 키+모델 조합별 검증 실패 시 복구 재요청 횟수 (기본: 1) */
+  maxRepairAttempts?: number
+}
+
+/**
+ * 스트리밍 청크
+ * - text: 생성된 토큰 조각
+ * - done: 정상 종료 (content는 전체 텍스트)
+ * - error: 실패 종료 (content는 오류 메시지)
+ */
 export interface StreamChunk {
   type: 'text' | 'error' | 'done'
   content: string
+  /** 종료 사유 (done 청크, 예: 'STOP', 'MAX_TOKENS') */
+  finishReason?: string
+}
+
+/** 사용량 기록 대상 호출 종류 */
+export type UsageOperation =
+  | 'generate'
+  | 'stream'
+  | 'structured'
+  | 'embed'
+  | 'execute'
+  | 'tools'
+
+/** 토큰 사용량 */
+export interface UsageTokens {
+  promptTokens: number
+  candidatesTokens?: number
+  /** 컨텍스트 캐시에서 읽은 프롬프트 토큰 */
+  cachedTokens?: number
+  /** 사고(thinking) 토큰 - 출력 단가로 과금 */
+  thoughtsTokens?: number
+  /** API가 사용량을 주지 않아 로컬에서 추정한 값인지 여부 */
+  estimated?: boolean
+}
+
+/** 호출 1회 사용량 기록 */
+export interface UsageRecord {
+  feature?: string
+  /** 키 풀 이름 (기본 키는 없음) */
+  pool?: string
+  operation: UsageOperation
+  model: GeminiModel
+  /** API 키 순번 (1부터, 외부 공급자는 0) */
+  keyIndex: number
+  promptTokens: number
+  candidatesTokens: number
+  cachedTokens: number
+  thoughtsTokens: number
+  totalTokens: number
+  latencyMs: number
+  /** 예상 비용 (USD) */
+  estimatedCost: number
+  estimated: boolean
+  timestamp: Date
+}
+
+/** 사용량 기록 훅 (실패해도 생성 요청에는 영향 없음) */
+export type UsageRecorder = (record: UsageRecord) => void | Promise<void>
+
+/** 모델 단가 (USD / 100만 토큰) */
+export interface ModelPrice {
+  input: number
+  output: number
+  /** 캐시된 입력 토큰 단가 (기본: input) */
+  cachedInput?: number
+}
+
+/** 모델 ID(또는 접두사)별 단가표 */
+export type PriceTable = Record<string, ModelPrice>
+
+/** 사용량 합계 */
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  candidatesTokens: number
+  cachedTokens: number
+  thoughtsTokens: number
+  totalTokens: number
+  /** 누적 지연 시간 (ms) */
+  latencyMs: number
+  /** 예상 비용 (USD) */
+  estimatedCost: number
+}
+
+/** 사용량 집계 (전체 + 기능/모델/키별) */
+export interface UsageSummary extends UsageTotals {
+  /** 집계 시작 시각 */
+  since: Date
+  byFeature: Record<string, UsageTotals>
+  byModel: Record<string, UsageTotals>
+  /** API 키 순번별 */
+  byKey: Record<number, UsageTotals>
+}
+
+/** 로그 레벨 (silent는 출력 없음) */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+/** 로그 구조화 필드 (키 순번, 모델, 오류 분류 등) */
+export type LogFields = Record<string, unknown>
+
+/** 로거 인터페이스 (pino, winston 등을 감싸서 주입) */
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+}
+
+/** 시도 이벤트 (키+모델 조합 1회 호출 시작) */
+export interface AttemptEvent {
+  operation: UsageOperation
+  feature?: string
+  /** 키 풀 이름 (기본 키는 없음) */
+  pool?: string
+  /** API 키 순번 (1부터, 외부 공급자는 0) */
+  keyIndex: number
+  /** 외부 공급자 이름 (Gemini 키 시도는 없음) */
+  provider?: string
+  model: GeminiModel
+  /** 티어 이름 (키 폴백 실행은 없음) */
+  tierName?: string
+  /** 이번 실행에서 몇 번째 시도인지 (1부터) */
+  attempt: number
+}
+
+/** 폴백 이벤트 (시도가 실패해 다음 조합으로 넘어감) */
+export interface FallbackEvent extends AttemptEvent {
+  /** 실패한 시도 기록 */
+  failure: GeminiAttempt
+  /** 다음 시도 전 백오프 대기 시간 (ms) */
+  delayMs: number
+}
+
+/** 성공 이벤트 */
+export interface SuccessEvent extends AttemptEvent {
+  /** 성공한 시도의 소요 시간 (ms) */
+  latencyMs: number
+  /** 응답 종료 사유 (예: 'STOP', 'MAX_TOKENS') */
+  finishReason?: string
+}
+
+/** 실패 이벤트 (실행 전체가 최종 실패) */
+export interface FailureEvent {
+  operation: UsageOperation
+  feature?: string
+  /** 호출 측에 던져지는 오류 */
+  error: Error
+  /** 실패한 시도 기록 */
+  attempts: GeminiAttempt[]
+}
+
+/** GeminiClient 수명 주기 훅 (훅 오류는 로그만 남기고 요청에는 영향 없음) */
+export interface GeminiClientHooks {
+  onAttempt?: (event: AttemptEvent) => void
+  onFallback?: (event: FallbackEvent) => void
+  onSuccess?: (event: SuccessEvent) => void
+  onError?: (event: FailureEvent) => void
+}
+
+/** 도구 핸들러 실행 컨텍스트 */
+export interface ToolCallContext {
+  /** 실행 전체 취소 신호 (호출 측 신호 + 전체 제한 시간) */
+  signal: AbortSignal
+  /** 몇 번째 모델 턴에서 요청된 호출인지 (1부터) */
+  iteration: number
+}
+
+/**
+ * 도구 정의 (함수 선언 + 핸들러)
+ * parameters는 함수 선언의 parametersJsonSchema로 전달되고, 실행 전 인자 검증에도 사용된다.
+ */
+export interface ToolDefinition<TArgs = Record<string, unknown>, TResult = unknown> {
+  /** 함수 이름 (영문/숫자/_/-, 64자 이하) */
+  name: string
+  /** 모델이 호출 여부를 판단하는 설명 */
+  description: string
+  /** 인자 스키마 (object 타입, 인자가 없으면 생략) */
+  parameters?: StructuredSchema & { type: 'object' }
+  /** 핸들러 - 반환값은 JSON 직렬화 가능해야 함 (던진 오류는 모델에 오류 응답으로 전달) */
+  handler(args: TArgs, context: ToolCallContext): TResult | Promise<TResult>
+}
+
+/** 도구 호출 기록 */
+export interface ToolCallRecord {
+  /** 모델이 부여한 호출 ID (있는 경우) */
+  id?: string
+  name: string
+  args: Record<string, unknown>
+  /** 핸들러 반환값 */
+  result?: unknown
+  /** 실패 사유 (등록되지 않은 도구, 인자 검증 실패, 핸들러 오류) */
+  error?: string
+  /** 몇 번째 모델 턴에서 요청된 호출인지 (1부터) */
+  iteration: number
+  durationMs: number
+}
+
+/**
+ * 도구 호출 모드
+ * - auto: 모델이 텍스트 응답/함수 호출 중 선택
+ * - any: 항상 함수 호출 (최대 반복 횟수에 주의)
+ */
+export type ToolCallingMode = 'auto' | 'any'
+
+/** 도구 실행 루프 옵션 */
+export interface RunWithToolsOptions extends GenerateOptions {
+  /** 최대 모델 턴 수 (기본: 5) - 초과 시 ToolLoopError */
+  maxIterations?: number
+  /** 이번 실행에서 사용할 도구 이름 (기본: 레지스트리 전체) */
+  tools?: string[]
+  /** 함수 호출 모드 (기본: auto) */
+  mode?: ToolCallingMode
+  /** 도구 호출이 끝날 때마다 호출 (진행 상황 표시, 감사 로그) */
+  onToolCall?: (record: ToolCallRecord) => void
+}
+
+/** 도구 실행 루프 결과 */
+export interface ToolRunResult {
+  /** 최종 텍스트 응답 */
+  text: string
+  /** 전체 대화 (입력 + 함수 호출/응답 + 최종 응답) - 이어서 대화할 때 그대로 사용 */
+  contents: Content[]
+  /** 실행된 도구 호출 (실행 순서) */
+  toolCalls: ToolCallRecord[]
+  /** 사용한 모델 턴 수 */
+  iterations: number
 }
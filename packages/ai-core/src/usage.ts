@@ -0,0 +1,237 @@
+// packages/ai-core/src/usage.ts
+// 토큰 사용량 및 예상 비용 집계 (호출/키/기능별)
+
+import type { GenerateContentResponseUsageMetadata } from '@google/genai'
+
+import { createConsoleLogger, toErrorMessage } from './logger'
+import type {
+  GeminiModel,
+  Logger,
+  ModelPrice,
+  PriceTable,
+  UsageOperation,
+  UsageRecord,
+  UsageRecorder,
+  UsageSummary,
+  UsageTokens,
+  UsageTotals,
+} from './types'
+
+/**
+ * 기본 모델 단가표 (USD / 100만 토큰, 유료 등급 · 200K 이하 프롬프트 기준)
+ * 단가 변경 시 AICoreConfig.priceTable로 덮어쓴다.
+ */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-embedding-001': { input: 0.15, output: 0 },
+}
+
+/** 사용량 기록 입력 (합계/비용/시각은 트래커가 계산) */
+export interface UsageInput {
+  feature?: string
+  operation: UsageOperation
+  model: GeminiModel
+  keyIndex: number
+  latencyMs: number
+  tokens?: UsageTokens
+}
+
+/** 기능 태그가 없는 호출의 집계 키 */
+const UNTAGGED_FEATURE = 'default'
+
+/** 사용량 트래커 - 메모리 합계 유지 + 기록 훅 호출 */
+export class UsageTracker {
+  private priceTable: PriceTable
+  private recorder?: UsageRecorder
+  private logger: Logger
+  private summary: UsageSummary
+  private pool?: string
+
+  constructor(
+    options: {
+      priceTable?: PriceTable
+      recorder?: UsageRecorder
+      logger?: Logger
+      /** 기록에 남길 키 풀 이름 */
+      pool?: string
+    } = {}
+  ) {
+    this.priceTable = { ...DEFAULT_PRICE_TABLE, ...options.priceTable }
+    this.pool = options.pool
+    this.recorder = options.recorder
+    this.logger = options.logger ?? createConsoleLogger()
+    this.summary = createSummary()
+  }
+
+  /** 호출 1회 기록 */
+  record(input: UsageInput): UsageRecord {
+    const tokens = input.tokens
+    const promptTokens = tokens?.promptTokens ?? 0
+    const candidatesTokens = tokens?.candidatesTokens ?? 0
+    const cachedTokens = tokens?.cachedTokens ?? 0
+    const thoughtsTokens = tokens?.thoughtsTokens ?? 0
+
+    const record: UsageRecord = {
+      feature: input.feature,
+      pool: this.pool,
+      operation: input.operation,
+      model: input.model,
+      keyIndex: input.keyIndex,
+      promptTokens,
+      candidatesTokens,
+      cachedTokens,
+      thoughtsTokens,
+      totalTokens: promptTokens + candidatesTokens + thoughtsTokens,
+      latencyMs: input.latencyMs,
+      estimatedCost: this.estimateCost(input.model, {
+        promptTokens,
+        candidatesTokens,
+        cachedTokens,
+        thoughtsTokens,
+      }),
+      estimated: tokens?.estimated ?? false,
+      timestamp: new Date(),
+    }
+
+    const { byFeature, byModel, byKey } = this.summary
+    const feature = record.feature ?? UNTAGGED_FEATURE
+    addToTotals(this.summary, record)
+    addToTotals((byFeature[feature] ??= createTotals()), record)
+    addToTotals((byModel[record.model] ??= createTotals()), record)
+    addToTotals((byKey[record.keyIndex] ??= createTotals()), record)
+
+    this.notify(record)
+    return record
+  }
+
+  /**
+   * 예상 비용 계산 (USD)
+   * 캐시된 프롬프트 토큰은 캐시 단가, 사고 토큰은 출력 단가로 계산
+   */
+  estimateCost(model: GeminiModel, tokens: UsageTokens): number {
+    const price = findPrice(this.priceTable, model)
+    if (!price) return 0
+
+    const cachedTokens = tokens.cachedTokens ?? 0
+    const outputTokens = (tokens.candidatesTokens ?? 0) + (tokens.thoughtsTokens ?? 0)
+
+    return (
+      ((tokens.promptTokens - cachedTokens) * price.input +
+        cachedTokens * (price.cachedInput ?? price.input) +
+        outputTokens * price.output) /
+      1_000_000
+    )
+  }
+
+  /** 집계 조회 (복사본) */
+  getSummary(): UsageSummary {
+    const copyGroup = (group: Record<string, UsageTotals>) =>
+      Object.fromEntries(
+        Object.entries(group).map(([key, totals]) => [key, { ...totals }])
+      )
+
+    return {
+      ...this.summary,
+      byFeature: copyGroup(this.summary.byFeature),
+      byModel: copyGroup(this.summary.byModel),
+      byKey: copyGroup(this.summary.byKey),
+    }
+  }
+
+  /** 집계 초기화 */
+  reset(): void {
+    this.summary = createSummary()
+  }
+
+  /** 기록 훅 호출 (동기/비동기 오류 모두 로그만 남김) */
+  private notify(record: UsageRecord): void {
+    if (!this.recorder) return
+
+    const fail = (error: unknown) =>
+      this.logger.error('사용량 기록 실패', {
+        feature: record.feature,
+        model: record.model,
+        error: toErrorMessage(error),
+      })
+
+    try {
+      const result = this.recorder(record)
+      if (result) {
+        result.catch(fail)
+      }
+    } catch (error) {
+      fail(error)
+    }
+  }
+}
+
+/**
+ * 응답의 usageMetadata를 토큰 사용량으로 변환
+ * 결과가 usageMetadata를 가진 객체가 아니면 undefined
+ */
+export function extractUsageTokens(result: unknown): UsageTokens | undefined {
+  if (!result || typeof result !== 'object' || !('usageMetadata' in result)) {
+    return undefined
+  }
+
+  const usage = (result as { usageMetadata?: GenerateContentResponseUsageMetadata })
+    .usageMetadata
+  if (!usage) return undefined
+
+  return {
+    promptTokens: usage.promptTokenCount ?? 0,
+    candidatesTokens: usage.candidatesTokenCount ?? 0,
+    cachedTokens: usage.cachedContentTokenCount ?? 0,
+    thoughtsTokens: usage.thoughtsTokenCount ?? 0,
+  }
+}
+
+/** 모델 단가 조회 (정확히 일치 → 가장 긴 접두사 순, 예: 미리보기 모델 ID) */
+function findPrice(table: PriceTable, model: GeminiModel): ModelPrice | undefined {
+  if (table[model]) return table[model]
+
+  const prefix = Object.keys(table)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? table[prefix] : undefined
+}
+
+/** 빈 합계 */
+function createTotals(): UsageTotals {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    candidatesTokens: 0,
+    cachedTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: 0,
+    latencyMs: 0,
+    estimatedCost: 0,
+  }
+}
+
+/** 빈 집계 */
+function createSummary(): UsageSummary {
+  return {
+    ...createTotals(),
+    since: new Date(),
+    byFeature: {},
+    byModel: {},
+    byKey: {},
+  }
+}
+
+/** 합계에 기록 누적 */
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++
+  totals.promptTokens += record.promptTokens
+  totals.candidatesTokens += record.candidatesTokens
+  totals.cachedTokens += record.cachedTokens
+  totals.thoughtsTokens += record.thoughtsTokens
+  totals.totalTokens += record.totalTokens
+  totals.latencyMs += record.latencyMs
+  totals.estimatedCost += record.estimatedCost
+}
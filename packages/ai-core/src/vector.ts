@@ -0,0 +1,248 @@
+// packages/ai-core/src/vector.ts
+// 벡터 유틸리티 - 유사도, 정규화, 양자화, pgvector 문자열 변환, 상위 k개 선택
+
+/** 유사도 측정 방식 */
+export type SimilarityMetric = 'cosine' | 'dot' | 'l2'
+
+/** 상위 k개 선택 결과 */
+export interface RankedItem<T> {
+  item: T
+  /** 입력 배열에서의 위치 */
+  index: number
+  /** 점수 (클수록 유사) */
+  score: number
+}
+
+/** int8 양자화 결과 (원래 값 ≈ values[i] * scale) */
+export interface Int8Quantized {
+  values: Int8Array
+  scale: number
+}
+
+/** halfvec 최대 절댓값 (float16 범위) */
+const HALF_MAX = 65504
+
+/** 두 벡터 차원 검사 */
+function assertSameDimensions(a: number[], b: number[]): void {
+  if (a.length !== b.length) {
+    throw new Error(`벡터 차원이 다릅니다 (${a.length} ≠ ${b.length}).`)
+  }
+}
+
+/** 내적 */
+export function dotProduct(a: number[], b: number[]): number {
+  assertSameDimensions(a, b)
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i]! * b[i]!
+  }
+  return sum
+}
+
+/** L2 노름 (벡터 길이) */
+export function vectorNorm(vector: number[]): number {
+  return Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+}
+
+/** 코사인 유사도 (-1~1, 영벡터가 있으면 0) */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  assertSameDimensions(a, b)
+  const norms = vectorNorm(a) * vectorNorm(b)
+  return norms > 0 ? dotProduct(a, b) / norms : 0
+}
+
+/** 유클리드(L2) 거리 */
+export function l2Distance(a: number[], b: number[]): number {
+  assertSameDimensions(a, b)
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i]! - b[i]!
+    sum += diff * diff
+  }
+  return Math.sqrt(sum)
+}
+
+/** L2 거리 기반 유사도 (0~1, 같은 벡터면 1) */
+export function l2Similarity(a: number[], b: number[]): number {
+  return 1 / (1 + l2Distance(a, b))
+}
+
+/** 지정한 방식의 유사도 (클수록 유사) */
+export function similarity(
+  a: number[],
+  b: number[],
+  metric: SimilarityMetric = 'cosine'
+): number {
+  switch (metric) {
+    case 'dot':
+      return dotProduct(a, b)
+    case 'l2':
+      return l2Similarity(a, b)
+    default:
+      return cosineSimilarity(a, b)
+  }
+}
+
+/**
+ * 벡터 L2 정규화 (출력 차원을 줄인 벡터는 API가 정규화하지 않음)
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = vectorNorm(vector)
+  return norm > 0 ? vector.map((v) => v / norm) : vector
+}
+
+/**
+ * 벡터 평균 (클러스터 대표 벡터, 문서 벡터 합성 등)
+ * normalize 지정 시 결과를 L2 정규화한다.
+ */
+export function centroid(vectors: number[][], options: { normalize?: boolean } = {}): number[] {
+  const [first] = vectors
+  if (!first) {
+    throw new Error('평균을 구할 벡터가 없습니다.')
+  }
+
+  const sum = new Array<number>(first.length).fill(0)
+  for (const vector of vectors) {
+    assertSameDimensions(first, vector)
+    vector.forEach((v, i) => {
+      sum[i]! += v
+    })
+  }
+
+  const mean = sum.map((v) => v / vectors.length)
+  return options.normalize ? normalizeVector(mean) : mean
+}
+
+/**
+ * int8 대칭 양자화 (최대 절댓값을 127로 매핑, 저장 공간 1/4)
+ */
+export function quantizeInt8(vector: number[]): Int8Quantized {
+  const maxAbs = vector.reduce((max, v) => Math.max(max, Math.abs(v)), 0)
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1
+  return {
+    values: Int8Array.from(vector, (v) => Math.round(v / scale)),
+    scale,
+  }
+}
+
+/** int8 양자화 복원 */
+export function dequantizeInt8(quantized: Int8Quantized): number[] {
+  return Array.from(quantized.values, (v) => v * quantized.scale)
+}
+
+/**
+ * 이진 양자화 (양수면 1, 차원 8개를 1바이트로, 저장 공간 1/32)
+ * 후보를 빠르게 거른 뒤 원래 벡터로 재정렬하는 용도
+ */
+export function quantizeBinary(vector: number[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(vector.length / 8))
+  vector.forEach((v, i) => {
+    if (v > 0) {
+      bytes[i >> 3]! |= 0x80 >> (i & 7)
+    }
+  })
+  return bytes
+}
+
+/** 이진 벡터 해밍 거리 (다른 비트 수) */
+export function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+  if (a.length !== b.length) {
+    throw new Error(`이진 벡터 길이가 다릅니다 (${a.length} ≠ ${b.length}).`)
+  }
+
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = a[i]! ^ b[i]!
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * 벡터 배열을 PostgreSQL 형식 문자열로 변환
+ */
+export function vectorToString(vector: number[]): string {
+  return `[${vector.join(',')}]`
+}
+
+/**
+ * pgvector 텍스트 형식 파싱 ('[1,2,3]', vector/halfvec 공통)
+ * $queryRaw 결과의 embedding::text 컬럼을 숫자 배열로 되돌릴 때 사용
+ */
+export function parsePgVector(text: string): number[] {
+  const trimmed = text.trim()
+  if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) {
+    throw new Error(`pgvector 형식이 아닙니다: ${trimmed.slice(0, 40)}`)
+  }
+
+  const body = trimmed.slice(1, -1).trim()
+  if (!body) return []
+
+  return body.split(',').map((part) => {
+    const value = Number(part)
+    if (part.trim() === '' || !Number.isFinite(value)) {
+      throw new Error(`pgvector 값이 올바르지 않습니다: ${part.trim()}`)
+    }
+    return value
+  })
+}
+
+/**
+ * halfvec 형식 문자열로 변환 (float16 정밀도로 반올림, 저장 공간 1/2)
+ * float16 범위(±65504)를 넘는 값은 경계값으로 자르고, NaN/무한대는 오류
+ */
+export function toPgHalfvec(vector: number[]): string {
+  return vectorToString(vector.map(roundToHalf))
+}
+
+/** pgvector bit 형식 문자열로 변환 (이진 양자화 결과, 예: '1010') */
+export function toPgBit(bits: Uint8Array, dimensions = bits.length * 8): string {
+  let text = ''
+  for (let i = 0; i < dimensions; i++) {
+    text += (bits[i >> 3]! & (0x80 >> (i & 7))) !== 0 ? '1' : '0'
+  }
+  return text
+}
+
+/**
+ * 점수 상위 k개 선택 (점수 내림차순, 같은 점수는 입력 순서)
+ */
+export function topK<T>(
+  items: T[],
+  k: number,
+  score: (item: T, index: number) => number
+): RankedItem<T>[] {
+  return items
+    .map((item, index) => ({ item, index, score: score(item, index) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, Math.max(0, k))
+}
+
+/**
+ * 질의 벡터와 가장 유사한 후보 k개 (프로세스 내 재정렬, 중복 제거 등)
+ */
+export function rankBySimilarity(
+  query: number[],
+  candidates: number[][],
+  options: { k?: number; metric?: SimilarityMetric; minScore?: number } = {}
+): RankedItem<number[]>[] {
+  const { k = candidates.length, metric = 'cosine', minScore } = options
+  const ranked = topK(candidates, k, (candidate) => similarity(query, candidate, metric))
+  return minScore !== undefined ? ranked.filter((r) => r.score >= minScore) : ranked
+}
+
+/** float16 정밀도로 반올림 (가수부 10비트, 서브노멀 포함, ±65504로 제한) */
+function roundToHalf(value: number): number {
+  if (!Number.isFinite(value)) {
+    throw new Error(`halfvec에 넣을 수 없는 값입니다: ${value}`)
+  }
+  if (value === 0) return 0
+
+  const exponent = Math.max(Math.floor(Math.log2(Math.abs(value))), -14)
+  const step = 2 ** (exponent - 10)
+  const rounded = Math.round(value / step) * step
+  return Math.min(Math.max(rounded, -HALF_MAX), HALF_MAX)
+}
@@ -0,0 +1,189 @@
+import {
+  FakeGeminiClient,
+  GeminiError,
+  fakeError,
+  fakeText,
+  toRagKitClient,
+} from '@baroclaim/ai-core'
+import { describe, expect, it, vi } from 'vitest'
+
+import { BlogGeneratorService, PromptTooLongError } from '../generator/blog-generator'
+import { silentLogger } from '../logger'
+import type { KnowledgeDocumentRecord, PrismaClientLike } from '../types'
+
+/** 생성 응답으로 쓸 블로그 포스트 JSON */
+const POST_JSON = JSON.stringify({
+  title: '실손보험 청구 방법',
+  seoTitle: '실손보험 청구 방법 총정리',
+  excerpt: '실손보험 청구 절차를 정리했습니다.',
+  seoDescription: '실손보험 청구 서류와 절차',
+  suggestedTags: ['실손보험', '청구'],
+  content: {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text: '본문입니다.' }] }],
+  },
+})
+
+/** 지식 문서 검색만 흉내 내는 Prisma */
+function createPrisma(
+  documents: Array<Pick<KnowledgeDocumentRecord, 'id' | 'title' | 'content'>> = []
+): PrismaClientLike {
+  const unused = async (): Promise<never> => {
+    throw new Error('테스트에서 쓰지 않는 메서드')
+  }
+  return {
+    knowledgeDocument: {
+      create: unused,
+      findFirst: unused,
+      findMany: async () =>
+        documents.map((doc) => ({ ...doc, source: 'test', metadata: {}, createdAt: new Date() })),
+      count: unused,
+      delete: unused,
+    },
+    blogPost: { findMany: async () => [] },
+    $queryRaw: unused,
+  }
+}
+
+function createService(
+  fake: FakeGeminiClient,
+  options: Partial<ConstructorParameters<typeof BlogGeneratorService>[0]> = {}
+): BlogGeneratorService {
+  return new BlogGeneratorService({
+    geminiClient: toRagKitClient(fake),
+    prisma: createPrisma([{ id: 'doc-1', title: '실손보험 안내', content: '실손보험은 ...' }]),
+    logger: silentLogger,
+    ...options,
+  })
+}
+
+describe('BlogGeneratorService (가짜 클라이언트)', () => {
+  it('참고 자료를 넣어 블로그 포스트를 생성한다', async () => {
+    const fake = new FakeGeminiClient({
+      rules: [{ method: 'generateContent', respond: fakeText(POST_JSON) }],
+    })
+
+    const post = await createService(fake).generateBlogPost({ topic: '실손보험 청구' })
+
+    expect(post.title).toBe('실손보험 청구 방법')
+    expect(post.slug).toBe('실손보험-청구-방법')
+    const [call] = fake.getCalls().filter((c) => c.method === 'generateContent')
+    expect(call?.prompt).toContain('실손보험은 ...')
+  })
+
+  it('1군 모델이 실패하면 2군 모델 응답으로 생성한다', async () => {
+    const fake = new FakeGeminiClient({
+      apiKeys: ['fake-key'],
+      rules: [
+        { method: 'generateContent', model: 'gemini-2.5-pro', respond: fakeError(503) },
+        { method: 'generateContent', respond: fakeText(POST_JSON) },
+      ],
+    })
+
+    const post = await createService(fake).generateBlogPost({ topic: '실손보험 청구' })
+
+    expect(post.title).toBe('실손보험 청구 방법')
+    expect(
+      fake.getCalls().filter((c) => c.method === 'generateContent').map((c) => c.model)
+    ).toEqual(['gemini-2.5-pro', 'gemini-2.5-flash'])
+  })
+
+  it('모든 조합이 실패하면 GeminiError를 그대로 던진다', async () => {
+    const fake = new FakeGeminiClient({
+      apiKeys: ['fake-key'],
+      rules: [{ method: 'generateContent', respond: fakeError(500) }],
+    })
+
+    await expect(
+      createService(fake).generateBlogPost({ topic: '실손보험 청구' })
+    ).rejects.toBeInstanceOf(GeminiError)
+  })
+
+  it('참고 자료 없이도 입력 한도를 넘으면 요청하지 않고 실패한다', async () => {
+    const fake = new FakeGeminiClient({ defaultResponse: fakeText(POST_JSON) })
+
+    const error = await createService(fake, { maxPromptTokens: 10 })
+      .generateBlogPost({ topic: '실손보험 청구' })
+      .catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(PromptTooLongError)
+    expect((error as PromptTooLongError).category).toBe('request')
+    expect(fake.getCalls().filter((c) => c.method === 'generateContent')).toHaveLength(0)
+  })
+
+  it('주제 추천 응답을 파싱할 수 없으면 기본 주제 대신 오류를 던진다', async () => {
+    const fake = new FakeGeminiClient({
+      rules: [{ method: 'generateContent', respond: fakeText('추천할 주제가 없습니다.') }],
+    })
+
+    await expect(createService(fake).suggestBlogTopics(3)).rejects.toThrow(
+      '주제 추천 응답을 파싱할 수 없습니다.'
+    )
+  })
+})
+
+describe('BlogGeneratorService 프롬프트 렌더링', () => {
+  const generateCall = (fake: FakeGeminiClient) =>
+    fake.getCalls().find((c) => c.method === 'generateContent')
+
+  it('render가 있으면 참고 자료 목록과 숫자 변수를 넘겨 렌더링한 프롬프트를 쓴다', async () => {
+    const fake = new FakeGeminiClient({ defaultResponse: fakeText(POST_JSON) })
+    const render = vi.fn(async () => ({
+      systemInstruction: '렌더링한 시스템 지시',
+      taskPrompt: '렌더링한 작업 지시 {{secret}}',
+      outputFormat: null,
+    }))
+    const getFullPrompt = vi.fn()
+
+    await createService(fake, { promptService: { getFullPrompt, render } }).generateBlogPost({
+      topic: '실손보험 청구',
+      minWords: 1200,
+    })
+
+    expect(getFullPrompt).not.toHaveBeenCalled()
+    expect(render).toHaveBeenCalledWith(
+      'BLOG_GENERATOR',
+      expect.objectContaining({
+        topic: '실손보험 청구',
+        minWords: 1200,
+        contexts: [expect.objectContaining({ title: '실손보험 안내', content: '실손보험은 ...' })],
+      })
+    )
+    const call = generateCall(fake)
+    expect(call?.prompt).toContain('렌더링한 작업 지시 {{secret}}')
+    expect(JSON.stringify(call?.config)).toContain('렌더링한 시스템 지시')
+  })
+
+  it('render가 없으면 getFullPrompt 결과의 {{변수}}를 치환한다', async () => {
+    const fake = new FakeGeminiClient({ defaultResponse: fakeText(POST_JSON) })
+    const getFullPrompt = vi.fn(async () => ({
+      systemInstruction: null,
+      taskPrompt: '{{topic}} ({{minWords}}자) {{unknown}}\n{{context}}',
+      outputFormat: null,
+    }))
+
+    await createService(fake, { promptService: { getFullPrompt } }).generateBlogPost({
+      topic: '실손보험 청구',
+      minWords: 1200,
+    })
+
+    expect(getFullPrompt).toHaveBeenCalledWith('BLOG_GENERATOR')
+    const prompt = generateCall(fake)?.prompt ?? ''
+    expect(prompt).toContain('실손보험 청구 (1200자) \n[참고자료 1] 실손보험 안내')
+    expect(prompt).not.toContain('{{')
+  })
+
+  it('렌더링한 필드가 비어 있으면 기본 프롬프트로 대체한다', async () => {
+    const fake = new FakeGeminiClient({ defaultResponse: fakeText(POST_JSON) })
+    const render = vi.fn(async () => ({ systemInstruction: '', taskPrompt: '', outputFormat: '' }))
+
+    await createService(fake, {
+      promptService: { getFullPrompt: vi.fn(), render },
+    }).generateBlogPost({ topic: '실손보험 청구' })
+
+    const prompt = generateCall(fake)?.prompt ?? ''
+    expect(prompt).toContain('실손보험 청구')
+    expect(prompt).toContain('[참고자료 1] 실손보험 안내')
+    expect(prompt).toContain('[출력 형식]')
+  })
+})
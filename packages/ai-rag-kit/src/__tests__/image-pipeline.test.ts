@@ -0,0 +1,135 @@
+import {
+  FakeGeminiClient,
+  GeminiError,
+  fakeError,
+  fakeRateLimit,
+  fakeText,
+  toRagKitClient,
+} from '@baroclaim/ai-core'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { ImagePipelineService } from '../image/image-pipeline'
+import { silentLogger } from '../logger'
+import type { PrismaClientLike } from '../types'
+
+const IMAGE_URL = 'https://cdn.example.com/claim.png'
+
+/** 분석 응답으로 쓸 JSON */
+const ANALYSIS_JSON = JSON.stringify({
+  description: '보험금 청구 절차를 설명하는 인포그래픽입니다.',
+  tags: ['보험', '청구'],
+  category: '보험',
+  suggestedTitle: '보험금 청구 절차',
+  usageContext: '청구 안내 글',
+})
+
+/** 이미지 문서 저장(INSERT ... RETURNING id)만 흉내 내는 Prisma */
+function createPrisma(): PrismaClientLike & { inserted: unknown[][] } {
+  const inserted: unknown[][] = []
+  const unused = async (): Promise<never> => {
+    throw new Error('테스트에서 쓰지 않는 메서드')
+  }
+  return {
+    inserted,
+    knowledgeDocument: {
+      create: unused,
+      findFirst: unused,
+      findMany: unused,
+      count: unused,
+      delete: unused,
+    },
+    blogPost: { findMany: unused },
+    $queryRaw: async <T>(_query: TemplateStringsArray, ...values: unknown[]) => {
+      inserted.push(values)
+      return [{ id: 'image-1' }] as T
+    },
+  }
+}
+
+/** 이미지 다운로드 응답 */
+function imageResponse(bytes: number[], headers: Record<string, string> = {}): Response {
+  return new Response(new Uint8Array(bytes).buffer, {
+    headers: { 'content-type': 'image/png', ...headers },
+  })
+}
+
+function createPipeline(fake: FakeGeminiClient, prisma = createPrisma()): ImagePipelineService {
+  return new ImagePipelineService({
+    geminiClient: toRagKitClient(fake),
+    prisma,
+    logger: silentLogger,
+  })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('ImagePipelineService (가짜 클라이언트)', () => {
+  it('이미지를 함께 보내 분석하고 임베딩과 함께 저장한다', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => imageResponse([1, 2, 3])))
+    const fake = new FakeGeminiClient({
+      rules: [{ method: 'generateContent', respond: fakeText(ANALYSIS_JSON) }],
+    })
+    const prisma = createPrisma()
+
+    const result = await createPipeline(fake, prisma).addImageToKnowledgeBase(IMAGE_URL)
+
+    expect(result).toMatchObject({ id: 'image-1', url: IMAGE_URL, analysis: { category: '보험' } })
+    const [call] = fake.getCalls().filter((c) => c.method === 'generateContent')
+    expect(JSON.stringify(call?.contents)).toContain(Buffer.from([1, 2, 3]).toString('base64'))
+    expect(fake.getCalls().some((c) => c.method === 'embedContent')).toBe(true)
+    expect(prisma.inserted).toHaveLength(1)
+  })
+
+  it('429를 받은 키는 건너뛰고 다음 키로 분석한다', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => imageResponse([1])))
+    const fake = new FakeGeminiClient({
+      rules: [
+        { method: 'generateContent', keyIndex: 1, respond: fakeRateLimit() },
+        { method: 'generateContent', respond: fakeText(ANALYSIS_JSON) },
+      ],
+    })
+
+    const result = await createPipeline(fake).addImageToKnowledgeBase(IMAGE_URL)
+
+    expect(result.analysis.suggestedTitle).toBe('보험금 청구 절차')
+    expect(
+      fake.getCalls().filter((c) => c.method === 'generateContent').map((c) => c.keyIndex)
+    ).toEqual([1, 2])
+  })
+
+  it('분석이 모두 실패하면 저장하지 않고 GeminiError를 던진다', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => imageResponse([1])))
+    const fake = new FakeGeminiClient({
+      apiKeys: ['fake-key'],
+      rules: [{ method: 'generateContent', respond: fakeError(500) }],
+    })
+    const prisma = createPrisma()
+
+    await expect(
+      createPipeline(fake, prisma).addImageToKnowledgeBase(IMAGE_URL)
+    ).rejects.toBeInstanceOf(GeminiError)
+    expect(prisma.inserted).toHaveLength(0)
+  })
+
+  it('다운로드 실패나 한도를 넘는 이미지는 모델에 보내지 않는다', async () => {
+    const fake = new FakeGeminiClient({ defaultResponse: fakeText(ANALYSIS_JSON) })
+    const pipeline = createPipeline(fake)
+
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('not found', { status: 404 })))
+    await expect(pipeline.addImageToKnowledgeBase(IMAGE_URL)).rejects.toThrow(
+      '이미지 다운로드 실패: 404'
+    )
+
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () =>
+        imageResponse([1], { 'content-length': String(100 * 1024 * 1024) })
+      )
+    )
+    await expect(pipeline.addImageToKnowledgeBase(IMAGE_URL)).rejects.toThrow('이미지가 너무 큽니다')
+
+    expect(fake.getCalls().filter((c) => c.method === 'generateContent')).toHaveLength(0)
+  })
+})
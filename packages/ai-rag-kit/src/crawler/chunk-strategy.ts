@@ -1,6 +1,7 @@
 // packages/ai-rag-kit/src/crawler/chunk-strategy.ts
 // RAG 검색 품질을 위한 청크 분할 전략
 
+import { defaultLogger } from '../logger'
 import type { Chunk, ChunkOptions } from '../types'
 
 export type { Chunk, ChunkOptions }
@@ -74,6 +75,7 @@ export function splitIntoChunks(text: string, options: ChunkOptions = {}): Chunk
   const {
     chunkSize = CHUNK_DEFAULTS.CHUNK_SIZE,
     overlapSize = CHUNK_DEFAULTS.OVERLAP_SIZE,
+    logger = defaultLogger,
   } = options
   const minChunkSize = CHUNK_DEFAULTS.MIN_CHUNK_SIZE
 
@@ -143,9 +145,11 @@ export function splitIntoChunks(text: string, options: ChunkOptions = {}): Chunk
     currentPosition = Math.max(nextStart, currentPosition + 1) // 무한 루프 방지
   }
 
-  console.log(
-    `[청크 분할] ${text.length}자 → ${chunks.length}개 청크 (평균 ${Math.round(text.length / chunks.length)}자)`
-  )
+  logger.debug('[청크 분할] 완료', {
+    textLength: text.length,
+    chunkCount: chunks.length,
+    avgLength: Math.round(text.length / chunks.length),
+  })
 
   return chunks
 }
@@ -3,6 +3,7 @@
 
 import { JSDOM } from 'jsdom'
 
+import { defaultLogger } from '../logger'
 import type { ExtractedImage, ImageExtractOptions } from '../types'
 
 export type { ExtractedImage, ImageExtractOptions }
@@ -177,10 +178,11 @@ export async function extractImagesFromPage(
     minHeight = 150,
     excludePatterns = DEFAULT_EXCLUDE_PATTERNS,
     maxImages = 20,
+    logger = defaultLogger,
   } = options
   const contextLength = 200
 
-  console.log(`[이미지 추출] 페이지 분석: ${url}`)
+  logger.info('[이미지 추출] 페이지 분석', { url })
 
   // 1. 페이지 가져오기
   const response = await fetch(url, {
@@ -240,7 +242,7 @@ export async function extractImagesFromPage(
     })
   }
 
-  console.log(`[이미지 추출] ${images.length}개 이미지 발견`)
+  logger.info('[이미지 추출] 완료', { url, imageCount: images.length })
 
   return images
 }
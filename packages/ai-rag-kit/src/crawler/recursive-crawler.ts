@@ -4,8 +4,10 @@
 import Defuddle from 'defuddle'
 import { JSDOM } from 'jsdom'
 
+import { defaultLogger } from '../logger'
 import type {
   ClipResult,
+  LoggerLike,
   RecursiveCrawlOptions,
   RecursiveCrawlResult,
   CrawlFailure,
@@ -21,6 +23,7 @@ interface CrawlConfig extends RecursiveCrawlOptions {
   delayBetweenRequests: number
   timeout: number
   useFallback: boolean
+  logger: LoggerLike
 }
 
 /** 기본 설정 */
@@ -31,6 +34,7 @@ const DEFAULTS: CrawlConfig = {
   delayBetweenRequests: 1000,
   timeout: 15000,
   useFallback: true,
+  logger: defaultLogger,
 }
 
 /** 폴백 User-Agent 목록 */
@@ -56,7 +60,12 @@ export async function crawlRecursively(
   options: RecursiveCrawlOptions = {}
 ): Promise<RecursiveCrawlResult> {
   const startTime = Date.now()
-  const config: CrawlConfig = { ...DEFAULTS, ...options }
+  const config: CrawlConfig = {
+    ...DEFAULTS,
+    ...options,
+    logger: options.logger ?? DEFAULTS.logger,
+  }
+  const { logger } = config
 
   const visited = new Set<string>()
   const queue: Array<{ url: string; depth: number }> = []
@@ -69,8 +78,11 @@ export async function crawlRecursively(
   // 시작 URL을 큐에 추가
   queue.push({ url: normalizeUrl(startUrl), depth: 0 })
 
-  console.log(`[재귀 크롤러] 시작: ${startUrl}`)
-  console.log(`[재귀 크롤러] 설정: 깊이=${config.maxDepth}, 최대페이지=${config.maxPages}`)
+  logger.info('[재귀 크롤러] 시작', {
+    url: startUrl,
+    maxDepth: config.maxDepth,
+    maxPages: config.maxPages,
+  })
 
   while (queue.length > 0 && success.length + failed.length < config.maxPages) {
     const { url, depth } = queue.shift()!
@@ -105,7 +117,7 @@ export async function crawlRecursively(
 
     if (result.success && result.data) {
       success.push(result.data)
-      console.log(`[재귀 크롤러] ✓ ${result.data.title} (깊이: ${depth})`)
+      logger.info('[재귀 크롤러] 성공', { url, title: result.data.title, depth })
 
       // 다음 깊이의 링크 추출 및 큐에 추가
       if (depth < config.maxDepth) {
@@ -124,7 +136,12 @@ export async function crawlRecursively(
         attemptedStrategies: result.attemptedStrategies,
         depth,
       })
-      console.log(`[재귀 크롤러] ✗ ${url} - ${result.error}`)
+      logger.warn('[재귀 크롤러] 실패', {
+        url,
+        depth,
+        error: result.error,
+        attemptedStrategies: result.attemptedStrategies,
+      })
     }
 
     // 요청 간 딜레이
@@ -135,7 +152,11 @@ export async function crawlRecursively(
 
   const totalTime = Date.now() - startTime
 
-  console.log(`[재귀 크롤러] 완료: 성공=${success.length}, 실패=${failed.length}, 시간=${totalTime}ms`)
+  logger.info('[재귀 크롤러] 완료', {
+    successCount: success.length,
+    failedCount: failed.length,
+    totalTime,
+  })
 
   return {
     success,
@@ -191,7 +212,11 @@ async function crawlWithFallback(
       }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
-      console.log(`[재귀 크롤러] 전략 '${currentStrategy.name}' 실패: ${message}`)
+      config.logger.debug('[재귀 크롤러] 전략 실패', {
+        url,
+        strategy: currentStrategy.name,
+        error: message,
+      })
 
       // 마지막 전략이면 실패 반환
       if (strategy === strategiesToTry[strategiesToTry.length - 1]) {
@@ -4,6 +4,7 @@
 import Defuddle from 'defuddle'
 import { JSDOM } from 'jsdom'
 
+import { defaultLogger } from '../logger'
 import type { ClipOptions, ClipResult } from '../types'
 
 export type { ClipOptions, ClipResult }
@@ -15,9 +16,9 @@ export async function clipWebPage(
   url: string,
   options: ClipOptions = {}
 ): Promise<ClipResult> {
-  const { timeout = 10000 } = options
+  const { timeout = 10000, logger = defaultLogger } = options
 
-  console.log(`[웹 클리퍼] 크롤링 시작: ${url}`)
+  logger.info('[웹 클리퍼] 크롤링 시작', { url })
 
   // 1. 웹페이지 fetch
   const controller = new AbortController()
@@ -65,7 +66,7 @@ export async function clipWebPage(
 
     const wordCount = countWords(markdown)
 
-    console.log(`[웹 클리퍼] 완료: ${result.title} (${wordCount}단어)`)
+    logger.info('[웹 클리퍼] 완료', { url, title: result.title, wordCount })
 
     return {
       title: result.title || 'Untitled',
@@ -191,6 +192,7 @@ export async function clipMultiplePages(
   urls: string[],
   options: ClipOptions = {}
 ): Promise<{ success: ClipResult[]; failed: Array<{ url: string; error: string }> }> {
+  const { logger = defaultLogger } = options
   const success: ClipResult[] = []
   const failed: Array<{ url: string; error: string }> = []
 
@@ -200,7 +202,7 @@ export async function clipMultiplePages(
       success.push(result)
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
-      console.error(`[웹 클리퍼] 실패: ${url} - ${message}`)
+      logger.error('[웹 클리퍼] 실패', { url, error: message })
       failed.push({ url, error: message })
     }
 
@@ -1,14 +1,18 @@
 // packages/ai-rag-kit/src/generator/blog-generator.ts
 // RAG 기반 AI 블로그 자동 생성
 
+import { defaultLogger } from '../logger'
 import type { ImageSearchService } from '../rag/image-search'
 import type {
   BlogGeneratorOptions,
   GeneratedBlogPost,
   GeminiClientLike,
   ImageSearchResult,
+  LoggerLike,
   PrismaClientLike,
   RAGContext,
+  StructuredSchemaLike,
+  TemplateValueLike,
   TipTapContent,
   TipTapNode,
 } from '../types'
@@ -17,6 +21,89 @@ import { postProcessContent } from './post-processor'
 
 export type { BlogGeneratorOptions, GeneratedBlogPost, TipTapContent, TipTapNode }
 
+/** 참고 자료 토큰 예산 기본값 */
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 3000
+
+/** 시스템 인스트럭션 + 프롬프트 최대 입력 토큰 기본값 */
+const DEFAULT_MAX_PROMPT_TOKENS = 32_000
+
+/** 잘라서 넣을 참고 자료의 최소 토큰 (이보다 적게 남으면 제외) */
+const MIN_CONTEXT_TOKENS = 100
+
+/** TipTap 노드 스키마 (depth 단계까지 중첩 허용) */
+function tipTapNodeSchema(depth: number): StructuredSchemaLike {
+  const properties: Record<string, StructuredSchemaLike> = {
+    type: { type: 'string' },
+    text: { type: 'string' },
+    attrs: {
+      type: 'object',
+      properties: {
+        level: { type: 'integer' },
+        src: { type: 'string' },
+        alt: { type: 'string' },
+        href: { type: 'string' },
+      },
+    },
+    marks: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { type: { type: 'string' } },
+        required: ['type'],
+      },
+    },
+  }
+
+  if (depth > 0) {
+    properties.content = { type: 'array', items: tipTapNodeSchema(depth - 1) }
+  }
+
+  return { type: 'object', properties, required: ['type'] }
+}
+
+/**
+ * 프롬프트 입력 한도 초과 에러
+ * 참고 자료를 모두 빼도 시스템 인스트럭션 + 프롬프트가 maxPromptTokens를 넘는 경우.
+ * 다른 키/모델로 재시도해도 실패하므로 ai-core GeminiError와 같은 'request' 분류를 갖는다.
+ */
+export class PromptTooLongError extends Error {
+  readonly category = 'request' as const
+  /** 참고 자료를 뺀 입력 토큰 */
+  readonly promptTokens: number
+  /** 입력 토큰 한도 */
+  readonly maxTokens: number
+
+  constructor(promptTokens: number, maxTokens: number) {
+    super(
+      `참고 자료 없이도 프롬프트가 입력 토큰 한도를 넘습니다 (${promptTokens} > ${maxTokens} 토큰).`
+    )
+    this.name = 'PromptTooLongError'
+    this.promptTokens = promptTokens
+    this.maxTokens = maxTokens
+  }
+}
+
+/** 블로그 포스트 구조화 출력 스키마 */
+const BLOG_POST_SCHEMA: StructuredSchemaLike = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    seoTitle: { type: 'string' },
+    excerpt: { type: 'string' },
+    seoDescription: { type: 'string' },
+    suggestedTags: { type: 'array', items: { type: 'string' } },
+    content: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['doc'] },
+        content: { type: 'array', items: tipTapNodeSchema(3) },
+      },
+      required: ['type', 'content'],
+    },
+  },
+  required: ['title', 'seoTitle', 'excerpt', 'seoDescription', 'suggestedTags', 'content'],
+}
+
 /** Blog Generator 서비스 옵션 */
 export interface BlogGeneratorServiceOptions {
   /** Gemini 클라이언트 */
@@ -32,7 +119,27 @@ export interface BlogGeneratorServiceOptions {
       taskPrompt: string | null
       outputFormat: string | null
     }>
+    /** 변수를 채운 프롬프트 (ai-core PromptService.render - 있으면 getFullPrompt 대신 사용) */
+    render?(
+      key: string,
+      variables: Record<string, TemplateValueLike>
+    ): Promise<{
+      systemInstruction: string | null
+      taskPrompt: string | null
+      outputFormat: string | null
+    }>
   }
+  /** 주제 추천 등 가벼운 작업의 시작 모델 티어 (예: 'flash', 미지정 시 1군부터) */
+  lightTaskTier?: string
+  /** 참고 자료 토큰 예산 (기본: 3000, 관련도 낮은 자료부터 잘리거나 제외) */
+  contextTokenBudget?: number
+  /**
+   * 시스템 인스트럭션 + 프롬프트 최대 입력 토큰 (기본: 32000)
+   * 참고 자료는 나머지 프롬프트가 쓰고 남은 만큼만 넣고, 자료 없이도 넘으면 PromptTooLongError
+   */
+  maxPromptTokens?: number
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 /**
@@ -43,12 +150,20 @@ export class BlogGeneratorService {
   private prisma: PrismaClientLike
   private imageSearchService?: ImageSearchService
   private promptService?: BlogGeneratorServiceOptions['promptService']
+  private lightTaskTier?: string
+  private contextTokenBudget: number
+  private maxPromptTokens: number
+  private logger: LoggerLike
 
   constructor(options: BlogGeneratorServiceOptions) {
     this.geminiClient = options.geminiClient
     this.prisma = options.prisma
     this.imageSearchService = options.imageSearchService
     this.promptService = options.promptService
+    this.lightTaskTier = options.lightTaskTier
+    this.contextTokenBudget = options.contextTokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET
+    this.maxPromptTokens = options.maxPromptTokens ?? DEFAULT_MAX_PROMPT_TOKENS
+    this.logger = options.logger ?? defaultLogger
   }
 
   /**
@@ -63,50 +178,39 @@ export class BlogGeneratorService {
       includeImages = false,
       maxImagesPerPost = 3,
       removeCitations: shouldRemoveCitations = true,
+      signal,
     } = options
 
     // 1. RAG 검색으로 관련 지식 수집
-    console.log(`[블로그 생성] RAG 검색 중: ${topic}`)
+    this.logger.info('[블로그 생성] RAG 검색 중', { topic })
     const ragContexts = await this.searchKnowledge(topic)
-    const contextText = this.formatRAGContext(ragContexts)
-
-    // 2. 프롬프트 조회 (있는 경우)
-    let systemInstruction: string | null = null
-    let taskPrompt: string | null = null
-    let outputFormat: string | null = null
-
-    if (this.promptService) {
-      console.log('[블로그 생성] DB 프롬프트 조회 중...')
-      const prompts = await this.promptService.getFullPrompt('BLOG_GENERATOR')
-      systemInstruction = prompts.systemInstruction
-      taskPrompt = prompts.taskPrompt
-      outputFormat = prompts.outputFormat
-    }
 
-    // 3. 프롬프트 변수 대체
-    const variables: Record<string, string> = {
-      topic,
-      context: contextText,
-      category,
-      tone: tone === 'formal' ? '격식체' : tone === 'expert' ? '전문가 어조' : '친근한 어조',
-      minWords: String(minWords),
-    }
+    // 2~4. 프롬프트 조회 및 변수 대체 (있는 경우) + 최종 프롬프트 조합
+    const buildPrompts = async (contexts: RAGContext[]) => {
+      const contextText = this.formatRAGContext(contexts)
+      const variables: Record<string, string> = {
+        topic,
+        context: contextText,
+        category,
+        tone: tone === 'formal' ? '격식체' : tone === 'expert' ? '전문가 어조' : '친근한 어조',
+        minWords: String(minWords),
+      }
+      const { systemInstruction, taskPrompt, outputFormat } = await this.renderPrompts(
+        variables,
+        contexts,
+        minWords
+      )
 
-    // 시스템 인스트럭션
-    const finalSystemPrompt = systemInstruction
-      ? this.replacePlaceholders(systemInstruction, variables)
-      : this.getDefaultSystemPrompt(minWords)
+      // 시스템 인스트럭션
+      const finalSystemPrompt = systemInstruction || this.getDefaultSystemPrompt(minWords)
 
-    // 태스크 프롬프트
-    const finalTaskPrompt = taskPrompt
-      ? this.replacePlaceholders(taskPrompt, variables)
-      : this.getDefaultTaskPrompt(topic, contextText)
+      // 태스크 프롬프트
+      const finalTaskPrompt = taskPrompt || this.getDefaultTaskPrompt(topic, contextText)
 
-    // 출력 형식
-    const finalOutputFormat = outputFormat || this.getDefaultOutputFormat()
+      // 출력 형식
+      const finalOutputFormat = outputFormat || this.getDefaultOutputFormat()
 
-    // 4. 최종 프롬프트 조합
-    const fullPrompt = `${finalTaskPrompt}
+      const fullPrompt = `${finalTaskPrompt}
 
 [출력 형식]
 중요: 반드시 아래 JSON 형식을 준수해야 하며, content 필드에 블로그 본문 전체를 포함해야 합니다.
@@ -115,47 +219,64 @@ ${finalOutputFormat}
 
 반드시 유효한 JSON만 출력하세요. 다른 텍스트 없이 JSON만 출력합니다.`
 
-    // 5. AI 생성
-    console.log('[블로그 생성] AI 호출 중...')
-    const response = await this.geminiClient.generateWithFallback(fullPrompt, {
-      systemInstruction: finalSystemPrompt,
-    })
-
-    // 6. JSON 파싱
-    let parsed: Omit<GeneratedBlogPost, 'slug'>
-    try {
-      const jsonMatch =
-        response.match(/```json\s*([\s\S]*?)\s*```/) ||
-        response.match(/\{[\s\S]*\}/)
+      return { finalSystemPrompt, fullPrompt }
+    }
 
-      const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : response
-      parsed = JSON.parse(jsonStr.trim())
-    } catch (error) {
-      console.error('[블로그 생성] JSON 파싱 오류:', error)
-      console.log('[블로그 생성] AI 응답 (처음 500자):', response.slice(0, 500))
-      throw new Error('AI 응답을 파싱할 수 없습니다.')
+    // 참고 자료를 뺀 프롬프트 크기로 자료 예산 결정 (자료 없이도 한도를 넘으면 요청하지 않고 실패)
+    const basePrompts = await buildPrompts([])
+    const baseTokens = await this.countPromptTokens(
+      basePrompts.fullPrompt,
+      basePrompts.finalSystemPrompt,
+      signal
+    )
+    if (baseTokens > this.maxPromptTokens) {
+      this.logger.error('[블로그 생성] 입력 토큰 한도 초과', {
+        topic,
+        baseTokens,
+        maxPromptTokens: this.maxPromptTokens,
+      })
+      throw new PromptTooLongError(baseTokens, this.maxPromptTokens)
     }
 
-    // 7. 후처리 (인용문구 제거)
+    const contextBudget = Math.min(this.contextTokenBudget, this.maxPromptTokens - baseTokens)
+    const { finalSystemPrompt, fullPrompt } =
+      ragContexts.length > 0
+        ? await buildPrompts(this.selectRAGContexts(ragContexts, contextBudget))
+        : basePrompts
+
+    // 5. AI 생성 (구조화 출력 지원 시 스키마 검증, 미지원 시 텍스트에서 JSON 추출)
+    this.logger.info('[블로그 생성] AI 호출 중', {
+      topic,
+      contextCount: ragContexts.length,
+    })
+    const parsed = this.geminiClient.generateStructured
+      ? await this.geminiClient.generateStructured<Omit<GeneratedBlogPost, 'slug'>>(
+          fullPrompt,
+          BLOG_POST_SCHEMA,
+          { systemInstruction: finalSystemPrompt, feature: 'blog-generation', signal }
+        )
+      : await this.generateAndParseJson(fullPrompt, finalSystemPrompt, signal)
+
+    // 6. 후처리 (인용문구 제거)
     let finalContent = parsed.content
     if (shouldRemoveCitations) {
-      console.log('[블로그 생성] 인용문구 제거 중...')
+      this.logger.debug('[블로그 생성] 인용문구 제거 중', { topic })
       finalContent = postProcessContent(finalContent, { removeCitations: true })
     }
 
-    // 8. 이미지 삽입 (옵션)
+    // 7. 이미지 삽입 (옵션)
     if (includeImages && this.imageSearchService) {
-      console.log('[블로그 생성] 이미지 삽입 중...')
+      this.logger.debug('[블로그 생성] 이미지 삽입 중', { topic })
       const { content: contentWithImages, insertedCount } = await this.insertImagesToContent(
         finalContent,
         { maxImages: maxImagesPerPost }
       )
       finalContent = contentWithImages
-      console.log(`[블로그 생성] ${insertedCount}개 이미지 삽입 완료`)
+      this.logger.info('[블로그 생성] 이미지 삽입 완료', { topic, insertedCount })
     }
 
-    // 9. 결과 반환
-    console.log('[블로그 생성] 완료!')
+    // 8. 결과 반환
+    this.logger.info('[블로그 생성] 완료', { topic, title: parsed.title })
     return {
       title: parsed.title,
       slug: this.generateSlug(parsed.title),
@@ -240,7 +361,7 @@ ${finalOutputFormat}
       newContent.push(...currentSection)
     }
 
-    console.log(`[이미지 삽입] ${insertedCount}개 이미지 삽입 완료`)
+    this.logger.debug('[이미지 삽입] 완료', { insertedCount })
 
     return {
       content: { type: 'doc', content: newContent },
@@ -250,6 +371,7 @@ ${finalOutputFormat}
 
   /**
    * 주제 추천 생성
+   * Gemini 오류는 그대로 전파되고, 응답을 파싱할 수 없으면 오류를 던진다.
    */
   async suggestBlogTopics(count: number = 5): Promise<string[]> {
     const contexts = await this.searchKnowledge('보험 청구 손해사정')
@@ -258,7 +380,7 @@ ${finalOutputFormat}
 다음 자료들을 참고하여, 보험 소비자에게 유용한 블로그 주제 ${count}개를 추천해주세요.
 
 참고자료:
-${this.formatRAGContext(contexts)}
+${this.formatRAGContext(this.selectRAGContexts(contexts))}
 
 조건:
 - 소비자가 실제로 궁금해할 만한 주제
@@ -269,21 +391,53 @@ JSON 배열 형식으로만 출력하세요:
 ["주제1", "주제2", "주제3", ...]
 `
 
-    const response = await this.geminiClient.generateWithFallback(prompt)
+    const response = await this.geminiClient.generateWithFallback(prompt, {
+      tier: this.lightTaskTier,
+      feature: 'blog-topics',
+    })
 
     try {
       const jsonMatch = response.match(/\[[\s\S]*\]/)
       if (!jsonMatch) throw new Error('배열 형식 아님')
-      return JSON.parse(jsonMatch[0])
-    } catch {
-      console.warn('[주제 추천] 파싱 실패, 기본값 반환')
-      return [
-        '자동차 사고 보험금 청구 방법',
-        '실손보험 청구 시 주의사항',
-        '손해사정사 선임 가이드',
-        '보험금 분쟁 해결 절차',
-        '보험 약관 해석 팁',
-      ]
+      const topics: unknown = JSON.parse(jsonMatch[0])
+      if (!Array.isArray(topics) || !topics.every((topic) => typeof topic === 'string')) {
+        throw new Error('문자열 배열 아님')
+      }
+      return topics
+    } catch (error) {
+      this.logger.error('[주제 추천] JSON 파싱 오류', {
+        error: error instanceof Error ? error.message : String(error),
+        response: response.slice(0, 200),
+      })
+      throw new Error('주제 추천 응답을 파싱할 수 없습니다.')
+    }
+  }
+
+  /** 텍스트 생성 후 JSON 추출 (구조화 출력 미지원 클라이언트용) */
+  private async generateAndParseJson(
+    prompt: string,
+    systemInstruction: string,
+    signal?: AbortSignal
+  ): Promise<Omit<GeneratedBlogPost, 'slug'>> {
+    const response = await this.geminiClient.generateWithFallback(prompt, {
+      systemInstruction,
+      feature: 'blog-generation',
+      signal,
+    })
+
+    try {
+      const jsonMatch =
+        response.match(/```json\s*([\s\S]*?)\s*```/) ||
+        response.match(/\{[\s\S]*\}/)
+
+      const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : response
+      return JSON.parse(jsonStr.trim())
+    } catch (error) {
+      this.logger.error('[블로그 생성] JSON 파싱 오류', {
+        error: error instanceof Error ? error.message : String(error),
+        response: response.slice(0, 500),
+      })
+      throw new Error('AI 응답을 파싱할 수 없습니다.')
     }
   }
 
@@ -301,33 +455,136 @@ JSON 배열 형식으로만 출력하세요:
         take: limit,
       })
 
+      // 본문 길이는 selectRAGContexts가 토큰 예산으로 조절
       return docs.map((d: { id: string; title: string | null; content: string; source: string }) => ({
         documentId: d.id,
         title: d.title ?? '',
-        content: d.content.slice(0, 500),
+        content: d.content,
         source: d.source,
         similarity: 0.7,
       }))
     } catch (error) {
-      console.error('지식 검색 오류:', error)
+      this.logger.error('[블로그 생성] 지식 검색 오류', {
+        query,
+        error: error instanceof Error ? error.message : String(error),
+      })
       return []
     }
   }
 
-  /** RAG 컨텍스트 포맷팅 */
-  private formatRAGContext(contexts: RAGContext[]): string {
-    if (contexts.length === 0) {
-      return '관련 참고 자료가 없습니다.'
+  /**
+   * RAG 컨텍스트 선택
+   * 관련도 높은 자료부터 토큰 예산 안에서 넣고, 예산을 넘는 자료는 잘라서 넣거나 제외한다.
+   * 클라이언트가 fitContexts(ai-core ContextBudget)를 지원하면 그대로 사용하고, 아니면 로컬 추정으로 선택한다.
+   */
+  private selectRAGContexts(
+    contexts: RAGContext[],
+    tokenBudget = this.contextTokenBudget
+  ): RAGContext[] {
+    if (this.geminiClient.fitContexts) {
+      return this.geminiClient.fitContexts(contexts, tokenBudget)
     }
 
+    let remaining = tokenBudget
+    const selected: RAGContext[] = []
+    const cut: Array<{ documentId: string; action: 'truncated' | 'dropped' }> = []
+
+    for (const ctx of [...contexts].sort((a, b) => b.similarity - a.similarity)) {
+      const tokens = estimateTokens(ctx.content)
+      let content = ctx.content
+
+      if (tokens > remaining) {
+        if (remaining < MIN_CONTEXT_TOKENS) {
+          cut.push({ documentId: ctx.documentId, action: 'dropped' })
+          continue
+        }
+        content = `${ctx.content.slice(0, Math.floor((ctx.content.length * remaining) / tokens))}...`
+        cut.push({ documentId: ctx.documentId, action: 'truncated' })
+      }
+
+      remaining -= Math.min(tokens, remaining)
+      selected.push(content === ctx.content ? ctx : { ...ctx, content })
+    }
+
+    if (cut.length > 0) {
+      this.logger.debug('[블로그 생성] 참고 자료 토큰 예산 적용', { tokenBudget, cut })
+    }
+
+    return selected
+  }
+
+  /** 참고 자료 텍스트 ({{context}} 변수, 기본 태스크 프롬프트용) */
+  private formatRAGContext(contexts: RAGContext[]): string {
+    if (contexts.length === 0) return '관련 참고 자료가 없습니다.'
     return contexts
-      .map(
-        (ctx, i) =>
-          `[참고자료 ${i + 1}] ${ctx.title}\n${ctx.content.slice(0, 500)}...`
-      )
+      .map((ctx, index) => `[참고자료 ${index + 1}] ${ctx.title}\n${ctx.content}`)
       .join('\n\n')
   }
 
+  /**
+   * DB 프롬프트 조회 + 변수 대체
+   * 프롬프트 서비스가 render를 지원하면 템플릿 엔진(선언 변수 검증, 조건문, {{#each contexts}})으로,
+   * 아니면 {{변수}} 단순 치환으로 채운다. 프롬프트 서비스가 없으면 모두 null (기본 프롬프트 사용).
+   */
+  private async renderPrompts(
+    variables: Record<string, string>,
+    contexts: RAGContext[],
+    minWords: number
+  ): Promise<{
+    systemInstruction: string | null
+    taskPrompt: string | null
+    outputFormat: string | null
+  }> {
+    if (!this.promptService) {
+      return { systemInstruction: null, taskPrompt: null, outputFormat: null }
+    }
+
+    this.logger.debug('[블로그 생성] DB 프롬프트 조회 중', { topic: variables.topic })
+    if (this.promptService.render) {
+      return this.promptService.render('BLOG_GENERATOR', {
+        ...variables,
+        minWords,
+        contexts: contexts.map(({ title, content, source, similarity }) => ({
+          title,
+          content,
+          source,
+          similarity,
+        })),
+      })
+    }
+
+    const prompts = await this.promptService.getFullPrompt('BLOG_GENERATOR')
+    return {
+      systemInstruction:
+        prompts.systemInstruction && this.replacePlaceholders(prompts.systemInstruction, variables),
+      taskPrompt: prompts.taskPrompt && this.replacePlaceholders(prompts.taskPrompt, variables),
+      outputFormat: prompts.outputFormat,
+    }
+  }
+
+  /** 시스템 인스트럭션 + 프롬프트 입력 토큰 (클라이언트 미지원/실패 시 로컬 추정) */
+  private async countPromptTokens(
+    prompt: string,
+    systemInstruction: string,
+    signal?: AbortSignal
+  ): Promise<number> {
+    if (this.geminiClient.countTokens) {
+      try {
+        const { totalTokens } = await this.geminiClient.countTokens(prompt, {
+          systemInstruction,
+          signal,
+        })
+        return totalTokens
+      } catch (error) {
+        signal?.throwIfAborted()
+        this.logger.warn('[블로그 생성] 토큰 계산 실패, 로컬 추정 사용', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+    return estimateTokens(systemInstruction) + estimateTokens(prompt)
+  }
+
   /** 슬러그 생성 */
   private generateSlug(title: string): string {
     return title
@@ -339,11 +596,20 @@ JSON 배열 형식으로만 출력하세요:
       .slice(0, 100)
   }
 
-  /** 플레이스홀더 대체 */
+  /**
+   * 플레이스홀더 대체 (render 미지원 프롬프트 서비스용)
+   * 한 번에 치환해 참고 자료 안의 {{...}}는 다시 치환하지 않으며, 알 수 없는 변수는 빈 문자열로 바꾸고 경고한다.
+   */
   private replacePlaceholders(template: string, variables: Record<string, string>): string {
-    let result = template
-    for (const [key, value] of Object.entries(variables)) {
-      result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value)
+    const unknown = new Set<string>()
+    const result = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+      if (key in variables) return variables[key]!
+      unknown.add(key)
+      return ''
+    })
+
+    if (unknown.size > 0) {
+      this.logger.warn('[블로그 생성] 알 수 없는 프롬프트 변수', { variables: [...unknown] })
     }
     return result
   }
@@ -426,3 +692,12 @@ export function createBlogGeneratorService(
 ): BlogGeneratorService {
   return new BlogGeneratorService(options)
 }
+
+/**
+ * 토큰 수 추정 (한글 1자 ≈ 1토큰, 그 외 4자 ≈ 1토큰)
+ * ai-core estimateTokens와 같은 기준 (ai-core는 선택 의존성이라 직접 구현)
+ */
+function estimateTokens(text: string): number {
+  const korean = (text.match(/[가-힣]/g) || []).length
+  return korean + Math.ceil((text.length - korean) / 4)
+}
@@ -3,6 +3,7 @@
 
 export {
   BlogGeneratorService,
+  PromptTooLongError,
   createBlogGeneratorService,
   type BlogGeneratorServiceOptions,
   type BlogGeneratorOptions,
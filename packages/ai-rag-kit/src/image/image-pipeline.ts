@@ -3,6 +3,7 @@
 // 이미지 소스 → 최적화 → R2 저장 → AI 분석 → 임베딩 → pgvector
 
 import { extractImagesFromPage, type ExtractedImage } from '../crawler/image-extractor'
+import { defaultLogger } from '../logger'
 import { ImageSearchService } from '../rag/image-search'
 import type {
   BatchImageResult,
@@ -11,14 +12,30 @@ import type {
   ImageExtractOptions,
   ImagePipelineOptions,
   ImagePipelineResult,
+  LoggerLike,
+  MultimodalPartLike,
   PrismaClientLike,
   R2Config,
+  StructuredSchemaLike,
 } from '../types'
 
 import { R2UploaderService } from './r2-uploader'
 
 export type { ImagePipelineOptions, ImagePipelineResult, BatchImageResult }
 
+/** 이미지 분석 구조화 출력 스키마 */
+const IMAGE_ANALYSIS_SCHEMA: StructuredSchemaLike = {
+  type: 'object',
+  properties: {
+    description: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    category: { type: 'string', enum: ['보험', '금융', '의료', '법률', '일반'] },
+    suggestedTitle: { type: 'string' },
+    usageContext: { type: 'string' },
+  },
+  required: ['description', 'tags', 'category', 'suggestedTitle'],
+}
+
 /** Image Pipeline 서비스 옵션 */
 export interface ImagePipelineServiceOptions {
   /** Prisma 클라이언트 */
@@ -27,6 +44,77 @@ export interface ImagePipelineServiceOptions {
   geminiClient: GeminiClientLike
   /** R2 설정 (선택) */
   r2Config?: R2Config
+  /**
+   * 배치 처리 시 이미지 간 딜레이 ms (기본: 0)
+   * 속도 제한은 ai-core GeminiClient의 rateLimits로 설정한다.
+   */
+  delayBetweenRequests?: number
+  /** 로거 (기본: 콘솔) - R2 업로더, 이미지 검색, 이미지 추출에도 전달 */
+  logger?: LoggerLike
+}
+
+/** 분석용 이미지 다운로드 제한 시간 (ms) */
+const IMAGE_FETCH_TIMEOUT_MS = 30_000
+
+/**
+ * 분석용 이미지 최대 크기 (ai-core 인라인 데이터 한도 20MB와 동일)
+ * ai-core는 선택 의존성이므로 상수를 가져오지 않고 같은 값을 둔다.
+ */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+
+/**
+ * 이미지 URL을 다운로드해 인라인 데이터 파트로 변환
+ * 느린 서버는 제한 시간으로 끊고, 한도를 넘는 이미지는 본문을 다 받기 전에 중단한다.
+ * (요청 단위 인라인 합계 검사와 대용량 업로드는 Gemini 클라이언트가 처리)
+ */
+async function loadImagePart(imageUrl: string): Promise<MultimodalPartLike> {
+  const response = await fetch(imageUrl, {
+    signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS),
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; ImageProcessor/1.0)',
+    },
+  })
+  if (!response.ok) {
+    throw new Error(`이미지 다운로드 실패: ${response.status}`)
+  }
+
+  const mimeType = response.headers.get('content-type')?.split(';')[0]?.trim() ?? ''
+  if (!mimeType.startsWith('image/')) {
+    await response.body?.cancel()
+    throw new Error(`이미지가 아닌 응답입니다: ${mimeType || '(content-type 없음)'}`)
+  }
+
+  const contentLength = Number(response.headers.get('content-length'))
+  if (contentLength > MAX_IMAGE_BYTES) {
+    await response.body?.cancel()
+    throw new Error(`이미지가 너무 큽니다: ${contentLength} bytes (최대 ${MAX_IMAGE_BYTES})`)
+  }
+
+  const data = (await readLimitedBody(response, MAX_IMAGE_BYTES)).toString('base64')
+  return { inlineData: { data, mimeType } }
+}
+
+/** 응답 본문을 최대 크기까지만 읽기 (content-length가 없거나 틀린 경우 대비) */
+async function readLimitedBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new Error(`이미지가 너무 큽니다: ${maxBytes} bytes 초과`)
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
 }
 
 /**
@@ -37,19 +125,27 @@ export class ImagePipelineService {
   private geminiClient: GeminiClientLike
   private r2Uploader?: R2UploaderService
   private imageSearchService: ImageSearchService
+  private delayBetweenRequests: number
+  private logger: LoggerLike
 
   constructor(options: ImagePipelineServiceOptions) {
     this.geminiClient = options.geminiClient
+    this.delayBetweenRequests = options.delayBetweenRequests ?? 0
+    this.logger = options.logger ?? defaultLogger
 
     // R2 업로더 초기화 (있는 경우)
     if (options.r2Config) {
-      this.r2Uploader = new R2UploaderService({ r2Config: options.r2Config })
+      this.r2Uploader = new R2UploaderService({
+        r2Config: options.r2Config,
+        logger: this.logger,
+      })
     }
 
     // 이미지 검색 서비스 초기화
     this.imageSearchService = new ImageSearchService({
       prisma: options.prisma,
       geminiClient: options.geminiClient,
+      logger: this.logger,
     })
   }
 
@@ -67,7 +163,9 @@ export class ImagePipelineService {
       skipR2Upload = false,
     } = options
 
-    console.log('[이미지 파이프라인] 시작')
+    this.logger.info('[이미지 파이프라인] 시작', {
+      source: typeof imageSource === 'string' ? imageSource : 'buffer',
+    })
 
     let imageUrl: string
     let width = 0
@@ -81,18 +179,21 @@ export class ImagePipelineService {
       width = r2Result.width
       height = r2Result.height
       size = r2Result.size
-      console.log(`[이미지 파이프라인] R2 업로드 완료: ${imageUrl}`)
+      this.logger.info('[이미지 파이프라인] R2 업로드 완료', { imageUrl })
     } else if (typeof imageSource === 'string') {
       // URL 그대로 사용
       imageUrl = imageSource
-      console.log('[이미지 파이프라인] R2 업로드 건너뜀')
+      this.logger.info('[이미지 파이프라인] R2 업로드 건너뜀', { imageUrl })
     } else {
       throw new Error('R2 설정 없이 Buffer를 업로드할 수 없습니다.')
     }
 
     // 2. AI 분석 (Gemini 멀티모달)
     const analysis = await this.analyzeImage(imageUrl, context)
-    console.log(`[이미지 파이프라인] AI 분석 완료: ${analysis.category}`)
+    this.logger.info('[이미지 파이프라인] AI 분석 완료', {
+      imageUrl,
+      category: analysis.category,
+    })
 
     // 3. pgvector에 저장 (임베딩 포함)
     const id = await this.imageSearchService.addImageDocument(
@@ -104,7 +205,7 @@ export class ImagePipelineService {
       uploadedBy,
       analysis.usageContext
     )
-    console.log(`[이미지 파이프라인] DB 저장 완료: ${id}`)
+    this.logger.info('[이미지 파이프라인] DB 저장 완료', { imageUrl, id })
 
     return {
       id,
@@ -118,6 +219,8 @@ export class ImagePipelineService {
 
   /**
    * Gemini 멀티모달 이미지 분석
+   * 멀티모달을 지원하는 클라이언트는 이미지 자체를 함께 보내고,
+   * 지원하지 않으면 이미지 URL만 프롬프트에 넣는다 (모델이 이미지를 보지 못함).
    */
   private async analyzeImage(
     imageUrl: string,
@@ -127,10 +230,15 @@ export class ImagePipelineService {
       ? `\n\n추가 컨텍스트: ${context}`
       : ''
 
-    const prompt = `
-다음 이미지를 분석하고 JSON 형식으로 응답해주세요.
+    const canSendImage = Boolean(this.geminiClient.generateMultimodal)
+    if (!canSendImage) {
+      this.logger.warn('[이미지 파이프라인] 멀티모달 미지원 클라이언트, URL만 전달', { imageUrl })
+    }
+
+    const imageReference = canSendImage ? '첨부한 이미지' : `다음 이미지(URL: ${imageUrl})`
 
-이미지 URL: ${imageUrl}
+    const prompt = `
+${imageReference}를 분석하고 JSON 형식으로 응답해주세요.
 ${contextPrompt}
 
 다음 정보를 추출해주세요:
@@ -152,21 +260,35 @@ JSON 형식:
 반드시 유효한 JSON만 출력하세요.
 `
 
-    const response = await this.geminiClient.generateWithFallback(prompt)
+    const input: string | MultimodalPartLike[] = canSendImage
+      ? [{ text: prompt }, await loadImagePart(imageUrl)]
+      : prompt
+
+    // 구조화 출력 지원 시 스키마 검증 (실패 시 에러가 그대로 전파됨)
+    if (this.geminiClient.generateStructured) {
+      return this.geminiClient.generateStructured<ImageAnalysisResult>(
+        input,
+        IMAGE_ANALYSIS_SCHEMA,
+        { feature: 'image-analysis' }
+      )
+    }
+
+    const response =
+      typeof input === 'string'
+        ? await this.geminiClient.generateWithFallback(input, {
+            feature: 'image-analysis',
+          })
+        : await this.geminiClient.generateMultimodal!(input, {
+            feature: 'image-analysis',
+          })
 
     try {
       const jsonMatch = response.match(/\{[\s\S]*\}/)
       if (!jsonMatch) throw new Error('JSON 형식 아님')
       return JSON.parse(jsonMatch[0])
-    } catch {
-      // 기본값 반환
-      return {
-        description: '이미지 분석 실패',
-        tags: [],
-        category: '일반',
-        suggestedTitle: '이미지',
-        usageContext: '',
-      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new Error(`이미지 분석 결과를 파싱할 수 없습니다: ${message}`)
     }
   }
 
@@ -205,21 +327,25 @@ JSON 형식:
           url: typeof source === 'string' ? source : undefined,
           error: message,
         })
-        console.error(`[이미지 파이프라인] 실패:`, message)
+        this.logger.error('[이미지 파이프라인] 실패', {
+          source: typeof source === 'string' ? source : 'buffer',
+          error: message,
+        })
       }
 
       result.totalProcessed++
       onProgress?.(i + 1, sources.length)
 
-      // 요청 간 딜레이 (Rate Limiting 방지)
-      if (i < sources.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 1000))
+      // 요청 간 딜레이 (지정한 경우만, 기본은 클라이언트의 속도 제한에 맡김)
+      if (this.delayBetweenRequests > 0 && i < sources.length - 1) {
+        await new Promise((resolve) => setTimeout(resolve, this.delayBetweenRequests))
       }
     }
 
-    console.log(
-      `[이미지 파이프라인] 배치 완료: 성공 ${result.success.length}, 실패 ${result.failed.length}`
-    )
+    this.logger.info('[이미지 파이프라인] 배치 완료', {
+      successCount: result.success.length,
+      failedCount: result.failed.length,
+    })
 
     return result
   }
@@ -237,13 +363,16 @@ JSON 형식:
   ): Promise<BatchImageResult> {
     const { extractOptions = {}, pipelineOptions = {}, onProgress } = options
 
-    console.log(`[이미지 파이프라인] URL에서 이미지 추출: ${pageUrl}`)
+    this.logger.info('[이미지 파이프라인] URL에서 이미지 추출', { pageUrl })
 
     // 1. 이미지 추출
-    const extractedImages = await extractImagesFromPage(pageUrl, extractOptions)
+    const extractedImages = await extractImagesFromPage(pageUrl, {
+      logger: this.logger,
+      ...extractOptions,
+    })
 
     if (extractedImages.length === 0) {
-      console.log('[이미지 파이프라인] 추출된 이미지 없음')
+      this.logger.info('[이미지 파이프라인] 추출된 이미지 없음', { pageUrl })
       return {
         success: [],
         failed: [],
@@ -2,7 +2,8 @@
 // 이미지 전용 R2 업로더 (최적화 + 업로드 통합)
 // R2 설정은 호스트 앱에서 주입받음
 
-import type { ImageUploadOptions, ImageUploadResult, R2Config } from '../types'
+import { defaultLogger } from '../logger'
+import type { ImageUploadOptions, ImageUploadResult, LoggerLike, R2Config } from '../types'
 
 import { processImage, type ProcessedImage } from './processor'
 
@@ -12,6 +13,8 @@ export type { ImageUploadOptions, ImageUploadResult }
 export interface R2UploaderServiceOptions {
   /** R2 설정 */
   r2Config: R2Config
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 /**
@@ -19,11 +22,13 @@ export interface R2UploaderServiceOptions {
  */
 export class R2UploaderService {
   private r2Config: R2Config
+  private logger: LoggerLike
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private s3Client: any = null
 
   constructor(options: R2UploaderServiceOptions) {
     this.r2Config = options.r2Config
+    this.logger = options.logger ?? defaultLogger
   }
 
   /**
@@ -135,14 +140,22 @@ export class R2UploaderService {
     imageUrl: string,
     options: ImageUploadOptions = {}
   ): Promise<ImageUploadResult> {
-    console.log(`[이미지 업로드] URL 다운로드: ${imageUrl}`)
+    this.logger.info('[이미지 업로드] URL 다운로드', { imageUrl })
 
     try {
       const result = await this.uploadOptimizedImage(imageUrl, options)
-      console.log(`[이미지 업로드] 완료: ${result.url} (${result.width}x${result.height})`)
+      this.logger.info('[이미지 업로드] 완료', {
+        imageUrl,
+        url: result.url,
+        width: result.width,
+        height: result.height,
+      })
       return result
     } catch (error) {
-      console.error(`[이미지 업로드] 실패: ${imageUrl}`, error)
+      this.logger.error('[이미지 업로드] 실패', {
+        imageUrl,
+        error: error instanceof Error ? error.message : String(error),
+      })
       throw error
     }
   }
@@ -57,11 +57,22 @@ export type {
   RAGKitConfig,
   R2Config,
   GeminiClientLike,
+  MultimodalPartLike,
+  StructuredSchemaLike,
+  TemplateValueLike,
+  LoggerLike,
+  LogLevel,
+  LogFields,
   KnowledgeBuilderOptions,
   BlogGeneratorFactoryOptions,
   ImagePipelineFactoryOptions,
 } from './types'
 
+// =============================================================================
+// Logger - 로깅 (기본 콘솔 로거)
+// =============================================================================
+export { createConsoleLogger, silentLogger } from './logger'
+
 // =============================================================================
 // Crawler - 웹 크롤링 및 콘텐츠 처리
 // =============================================================================
@@ -105,6 +116,7 @@ export {
 export {
   // 블로그 생성 서비스
   BlogGeneratorService,
+  PromptTooLongError,
   createBlogGeneratorService,
   type BlogGeneratorServiceOptions,
 
@@ -0,0 +1,45 @@
+// packages/ai-rag-kit/src/logger.ts
+// 기본 콘솔 로거 (레벨 + 구조화 필드) - 서비스/크롤러에 로거가 주입되지 않았을 때 사용
+
+import type { LogFields, LogLevel, LoggerLike } from './types'
+
+/** 레벨 우선순위 (이 값 이상만 출력) */
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+/**
+ * 콘솔 로거 생성
+ * @param level 최소 출력 레벨 (기본: info)
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): LoggerLike {
+  const threshold = LOG_LEVEL_PRIORITY[level]
+
+  const write =
+    (method: Exclude<LogLevel, 'silent'>) =>
+    (message: string, fields?: LogFields): void => {
+      if (LOG_LEVEL_PRIORITY[method] < threshold) return
+      if (fields && Object.keys(fields).length > 0) {
+        console[method](message, fields)
+      } else {
+        console[method](message)
+      }
+    }
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  }
+}
+
+/** 아무것도 출력하지 않는 로거 */
+export const silentLogger: LoggerLike = createConsoleLogger('silent')
+
+/** 주입된 로거가 없을 때 쓰는 기본 로거 */
+export const defaultLogger: LoggerLike = createConsoleLogger()
@@ -2,7 +2,8 @@
 // Google File Search API 연동 (텍스트/PDF용 RAG)
 // ai-core의 GeminiClient를 주입받아 사용
 
-import type { GeminiClientLike } from '../types'
+import { defaultLogger } from '../logger'
+import type { GeminiClientLike, LoggerLike } from '../types'
 
 /** File Search 서비스 팩토리 */
 export interface FileSearchServiceOptions {
@@ -10,6 +11,8 @@ export interface FileSearchServiceOptions {
   geminiClient: GeminiClientLike
   /** File Search Store 이름 */
   storeName?: string
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 /**
@@ -19,10 +22,12 @@ export interface FileSearchServiceOptions {
 export class FileSearchService {
   private client: GeminiClientLike
   private storeName: string
+  private logger: LoggerLike
 
   constructor(options: FileSearchServiceOptions) {
     this.client = options.geminiClient
     this.storeName = options.storeName || 'rag-kit-knowledge-base'
+    this.logger = options.logger ?? defaultLogger
   }
 
   /**
@@ -46,6 +51,7 @@ export class FileSearchService {
 주어진 참고 자료를 바탕으로 정확하고 유용한 답변을 제공하세요.
 출처를 명시적으로 언급하지 마세요.
       `.trim(),
+      feature: 'file-search',
     })
 
     // 참조 소스는 별도로 추출해야 함 (File Search 사용 시)
@@ -63,8 +69,10 @@ export class FileSearchService {
     content: string,
     displayName: string
   ): Promise<{ success: boolean; name: string }> {
-    console.log(`[File Search] 업로드 요청: ${displayName}`)
-    console.log(`[File Search] 콘텐츠 길이: ${content.length}자`)
+    this.logger.info('[File Search] 업로드 요청', {
+      displayName,
+      contentLength: content.length,
+    })
 
     // 실제 업로드는 호스트 앱에서 처리
     // 패키지에서는 인터페이스만 제공
@@ -1,11 +1,14 @@
 // packages/ai-rag-kit/src/rag/image-search.ts
 // pgvector 기반 이미지 시맨틱 검색
 
+import { defaultLogger } from '../logger'
 import type {
   GeminiClientLike,
   ImageSearchResult,
+  LoggerLike,
   PrismaClientLike,
 } from '../types'
+import { vectorToString } from '../vector'
 
 /** 이미지 검색 서비스 옵션 */
 export interface ImageSearchServiceOptions {
@@ -13,6 +16,8 @@ export interface ImageSearchServiceOptions {
   prisma: PrismaClientLike
   /** Gemini 클라이언트 (임베딩용) */
   geminiClient: GeminiClientLike
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 /**
@@ -22,10 +27,12 @@ export interface ImageSearchServiceOptions {
 export class ImageSearchService {
   private prisma: PrismaClientLike
   private geminiClient: GeminiClientLike
+  private logger: LoggerLike
 
   constructor(options: ImageSearchServiceOptions) {
     this.prisma = options.prisma
     this.geminiClient = options.geminiClient
+    this.logger = options.logger ?? defaultLogger
   }
 
   /**
@@ -46,9 +53,12 @@ export class ImageSearchService {
     }
 
     try {
-      // 쿼리 텍스트를 벡터로 변환
-      const queryEmbedding = await this.geminiClient.generateEmbedding(query)
-      const vectorStr = this.vectorToString(queryEmbedding)
+      // 쿼리 텍스트를 벡터로 변환 (저장된 문서 벡터와 비교하는 검색어 용도)
+      const queryEmbedding = await this.geminiClient.generateEmbedding(query, {
+        feature: 'image-search',
+        taskType: 'RETRIEVAL_QUERY',
+      })
+      const vectorStr = vectorToString(queryEmbedding)
 
       // 카테고리 필터 조건
       const categoryFilter = category
@@ -96,7 +106,10 @@ export class ImageSearchService {
         similarity: Number(r.similarity),
       }))
     } catch (error) {
-      console.error('이미지 RAG 검색 오류:', error)
+      this.logger.error('[이미지 검색] 검색 오류', {
+        query,
+        error: error instanceof Error ? error.message : String(error),
+      })
       return []
     }
   }
@@ -124,7 +137,9 @@ export class ImageSearchService {
     try {
       return await this.searchImages(queryText, { limit, minSimilarity })
     } catch (error) {
-      console.warn('문단 이미지 검색 오류:', error)
+      this.logger.warn('[이미지 검색] 문단 이미지 검색 오류', {
+        error: error instanceof Error ? error.message : String(error),
+      })
       return []
     }
   }
@@ -141,10 +156,14 @@ export class ImageSearchService {
     uploadedBy: string,
     usageContext?: string
   ): Promise<string> {
-    // 설명 텍스트로 임베딩 생성
+    // 설명 텍스트로 임베딩 생성 (검색 대상 문서 용도)
     const embeddingText = `${suggestedTitle}. ${description}. 태그: ${tags.join(', ')}`
-    const embedding = await this.geminiClient.generateEmbedding(embeddingText)
-    const vectorStr = this.vectorToString(embedding)
+    const embedding = await this.geminiClient.generateEmbedding(embeddingText, {
+      feature: 'image-indexing',
+      taskType: 'RETRIEVAL_DOCUMENT',
+      title: suggestedTitle || undefined,
+    })
+    const vectorStr = vectorToString(embedding)
 
     // 문서 저장 (임베딩 포함)
     const result = await this.prisma.$queryRaw<{ id: string }[]>`
@@ -173,13 +192,6 @@ export class ImageSearchService {
     }
     return firstResult.id
   }
-
-  /**
-   * 벡터를 PostgreSQL 형식 문자열로 변환
-   */
-  private vectorToString(vector: number[]): string {
-    return `[${vector.join(',')}]`
-  }
 }
 
 /**
@@ -150,6 +150,8 @@ export interface ImageExtractOptions {
   minHeight?: number
   excludePatterns?: string[]
   maxImages?: number
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 // =============================================================================
@@ -172,6 +174,8 @@ export interface ClipOptions {
   timeout?: number
   includeImages?: boolean
   headers?: Record<string, string>
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 /** 청크 */
@@ -187,6 +191,8 @@ export interface ChunkOptions {
   chunkSize?: number
   overlapSize?: number
   preserveParagraphs?: boolean
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
 }
 
 // =============================================================================
@@ -299,6 +305,8 @@ export interface BlogGeneratorOptions {
   includeImages?: boolean
   maxImagesPerPost?: number
   removeCitations?: boolean
+  /** 취소 신호 (다이얼로그 닫힘 등) - AI 호출과 폴백을 중단 */
+  signal?: AbortSignal
 }
 
 /** 후처리 옵션 */
@@ -340,6 +348,27 @@ export interface BatchImageResult {
   totalProcessed: number
 }
 
+// =============================================================================
+// 로거 타입
+// =============================================================================
+
+/** 로그 레벨 (silent는 출력 없음) */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+/** 로그 구조화 필드 */
+export type LogFields = Record<string, unknown>
+
+/**
+ * 로거 인터페이스 (ai-core Logger와 동일 구조)
+ * ai-core 로거나 pino, winston 등을 감싼 객체를 그대로 주입할 수 있습니다.
+ */
+export interface LoggerLike {
+  debug: (message: string, fields?: LogFields) => void
+  info: (message: string, fields?: LogFields) => void
+  warn: (message: string, fields?: LogFields) => void
+  error: (message: string, fields?: LogFields) => void
+}
+
 // =============================================================================
 // RAG Kit 설정 타입
 // =============================================================================
@@ -352,6 +381,8 @@ export interface RAGKitConfig {
   geminiClient?: GeminiClientLike
   /** R2 설정 (이미지 업로드 시 필요) */
   r2Config?: R2Config
+  /** 로거 (기본: 콘솔) */
+  logger?: LoggerLike
   /** 테이블명 커스터마이징 */
   tables?: {
     knowledgeDocument?: string
@@ -369,11 +400,124 @@ export interface R2Config {
   publicUrl: string
 }
 
-/** Gemini 클라이언트 인터페이스 (ai-core에서 제공) */
+/** 구조화 출력 스키마 공통 필드 */
+interface StructuredSchemaBase {
+  description?: string
+  nullable?: boolean
+}
+
+/** 구조화 출력 스키마 (ai-core StructuredSchema와 동일 구조) */
+export type StructuredSchemaLike =
+  | (StructuredSchemaBase & { type: 'string'; enum?: string[] })
+  | (StructuredSchemaBase & {
+      type: 'number' | 'integer'
+      minimum?: number
+      maximum?: number
+    })
+  | (StructuredSchemaBase & { type: 'boolean' })
+  | (StructuredSchemaBase & {
+      type: 'array'
+      items: StructuredSchemaLike
+      minItems?: number
+      maxItems?: number
+    })
+  | (StructuredSchemaBase & {
+      type: 'object'
+      properties: Record<string, StructuredSchemaLike>
+      required?: string[]
+    })
+
+/** 멀티모달 입력 파트 (텍스트, base64 인라인 데이터, 업로드된 파일 URI) */
+export type MultimodalPartLike =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } }
+  | { fileData: { fileUri: string; mimeType: string } }
+
+/** 임베딩 옵션 (ai-core EmbeddingOptions 호환) */
+export interface EmbeddingOptionsLike {
+  feature?: string
+  signal?: AbortSignal
+  /** 임베딩 용도 (예: 'RETRIEVAL_QUERY', 'RETRIEVAL_DOCUMENT', 'SEMANTIC_SIMILARITY') */
+  taskType?: string
+  /** 문서 제목 (RETRIEVAL_DOCUMENT 전용) */
+  title?: string
+  /** 출력 차원 (저장된 벡터 컬럼 차원과 같아야 함) */
+  outputDimensionality?: number
+  /** 임베딩 캐시 사용 여부 (재색인 시 같은 텍스트 재요청 방지) */
+  cache?: boolean | 'refresh'
+}
+
+/** 프롬프트 템플릿 변수 값 (ai-core TemplateValue와 동일 구조) */
+export type TemplateValueLike =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValueLike[]
+  | { [key: string]: TemplateValueLike }
+
+/**
+ * Gemini 클라이언트 인터페이스 (ai-core toRagKitClient()가 그대로 충족)
+ * feature는 ai-core 사용량 집계용 기능 태그, signal은 취소 신호 (미지원 클라이언트는 무시)
+ * 선택 메서드는 확장 기능으로, 서비스가 존재 여부를 확인한 뒤 사용합니다.
+ */
 export interface GeminiClientLike {
-  generate: (prompt: string, options?: { systemInstruction?: string }) => Promise<string>
-  generateWithFallback: (prompt: string, options?: { systemInstruction?: string }) => Promise<string>
-  generateEmbedding: (text: string) => Promise<number[]>
+  generate: (
+    prompt: string,
+    options?: { systemInstruction?: string; feature?: string; signal?: AbortSignal }
+  ) => Promise<string>
+  generateWithFallback: (
+    prompt: string,
+    options?: {
+      systemInstruction?: string
+      tier?: string
+      feature?: string
+      signal?: AbortSignal
+    }
+  ) => Promise<string>
+  /** 텍스트 임베딩 (검색어는 RETRIEVAL_QUERY, 저장 문서는 RETRIEVAL_DOCUMENT 용도로 구분) */
+  generateEmbedding: (
+    text: string,
+    options?: EmbeddingOptionsLike
+  ) => Promise<number[]>
+  /**
+   * 스키마 검증 구조화 출력 (선택, 지원 시 JSON 추출 대신 사용)
+   * 멀티모달 파트 입력은 generateMultimodal도 지원하는 클라이언트에만 전달
+   */
+  generateStructured?: <T>(
+    prompt: string | MultimodalPartLike[],
+    schema: StructuredSchemaLike,
+    options?: { systemInstruction?: string; feature?: string; signal?: AbortSignal }
+  ) => Promise<T>
+  /** 텍스트 + 이미지/파일 멀티모달 생성 (선택) */
+  generateMultimodal?: (
+    parts: MultimodalPartLike[],
+    options?: {
+      systemInstruction?: string
+      tier?: string
+      feature?: string
+      signal?: AbortSignal
+    }
+  ) => Promise<string>
+  /** 배치 임베딩 (선택, 결과는 입력 순서 유지) */
+  generateEmbeddings?: (
+    texts: string[],
+    options?: EmbeddingOptionsLike
+  ) => Promise<number[][]>
+  /** 입력 토큰 수 계산 (선택, 미지원 시 로컬 추정) */
+  countTokens?: (
+    prompt: string,
+    options?: { systemInstruction?: string; signal?: AbortSignal }
+  ) => Promise<{ totalTokens: number }>
+  /**
+   * 참고 자료를 토큰 예산에 맞춰 선택 (선택, ai-core ContextBudget - 미지원 시 로컬 추정으로 선택)
+   * 관련도 높은 자료부터 넣고, 남은 예산보다 큰 자료는 잘라서 넣거나 제외한다.
+   */
+  fitContexts?: <T extends { content: string; similarity: number }>(
+    contexts: T[],
+    maxTokens: number
+  ) => T[]
 }
 
 // =============================================================================
@@ -387,6 +531,7 @@ export interface KnowledgeBuilderOptions {
   fileSearchConfig?: {
     storeName?: string
   }
+  logger?: LoggerLike
 }
 
 /** Blog Generator 팩토리 옵션 */
@@ -399,7 +544,17 @@ export interface BlogGeneratorFactoryOptions {
       taskPrompt: string | null
       outputFormat: string | null
     }>
+    /** 변수를 채운 프롬프트 (ai-core PromptService.render - 있으면 getFullPrompt 대신 사용) */
+    render?(
+      key: string,
+      variables: Record<string, TemplateValueLike>
+    ): Promise<{
+      systemInstruction: string | null
+      taskPrompt: string | null
+      outputFormat: string | null
+    }>
   }
+  logger?: LoggerLike
 }
 
 /** Image Pipeline 팩토리 옵션 */
@@ -407,4 +562,7 @@ export interface ImagePipelineFactoryOptions {
   prisma: PrismaClientLike
   geminiClient: GeminiClientLike
   r2Config?: R2Config
+  /** 배치 처리 시 이미지 간 딜레이 ms (기본: 0, 속도 제한은 ai-core GeminiClient의 rateLimits 사용) */
+  delayBetweenRequests?: number
+  logger?: LoggerLike
 }
@@ -0,0 +1,9 @@
+// packages/ai-rag-kit/src/vector.ts
+// pgvector 변환 유틸리티 - ai-core vector 모듈과 같은 형식 (ai-core는 선택 의존성이라 직접 구현)
+
+/**
+ * 벡터 배열을 PostgreSQL 형식 문자열로 변환 ('[1,2,3]', $queryRaw의 ::vector 캐스트용)
+ */
+export function vectorToString(vector: number[]): string {
+  return `[${vector.join(',')}]`
+}